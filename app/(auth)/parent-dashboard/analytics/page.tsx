@@ -0,0 +1,364 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+
+interface WeeklyStats {
+  weekStart: string;
+  sessions: number;
+  utterances: number;
+  newWords: number;
+  newWordSample: string[];
+  engagementRate: number | null;
+  hesitationRate: number | null;
+  averageSessionMinutes: number | null;
+}
+
+interface Analytics {
+  range: { from: string; to: string };
+  totals: { sessions: number; utterances: number; newWords: number; vocabularySize: number };
+  weeks: WeeklyStats[];
+  complexity: { simple: number; moderate: number; advanced: number };
+  sessions: { id: string; scenario: string; startedAt: string; minutes: number; childUtterances: number }[];
+}
+
+const RANGE_PRESETS = [
+  { weeks: 4, label: '4 weeks' },
+  { weeks: 12, label: '12 weeks' },
+  { weeks: 26, label: '6 months' },
+  { weeks: 52, label: '1 year' },
+];
+
+const COMPLEXITY_COLORS = {
+  simple: 'bg-blue-300',
+  moderate: 'bg-purple-400',
+  advanced: 'bg-pink-500',
+};
+
+const formatWeek = (weekStart: string) =>
+  new Date(`${weekStart}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const percent = (value: number | null) => (value === null ? '–' : `${Math.round(value * 100)}%`);
+
+/**
+ * One bar per week; weeks without data show an empty slot
+ */
+function WeeklyBars({
+  weeks,
+  value,
+  format,
+  color,
+  max,
+}: {
+  weeks: WeeklyStats[];
+  value: (week: WeeklyStats) => number | null;
+  format: (value: number | null) => string;
+  color: string;
+  max?: number;
+}) {
+  const values = weeks.map(value);
+  const top = max ?? Math.max(1, ...values.map(v => v ?? 0));
+
+  return (
+    <div className="flex items-end gap-1 h-40">
+      {weeks.map((week, i) => (
+        <div
+          key={week.weekStart}
+          className="flex-1 flex flex-col items-center justify-end h-full"
+          title={`Week of ${formatWeek(week.weekStart)}: ${format(values[i])}`}
+        >
+          <div
+            className={`w-full rounded-t-md ${values[i] === null ? 'bg-gray-100' : color}`}
+            style={{ height: `${values[i] === null ? 4 : Math.max(4, ((values[i] ?? 0) / top) * 100)}%` }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function WeekAxis({ weeks }: { weeks: WeeklyStats[] }) {
+  // Label about six weeks so the axis stays readable
+  const step = Math.max(1, Math.ceil(weeks.length / 6));
+
+  return (
+    <div className="flex gap-1 mt-2 text-xs text-gray-500">
+      {weeks.map((week, i) => (
+        <div key={week.weekStart} className="flex-1 text-center truncate">
+          {i % step === 0 ? formatWeek(week.weekStart) : ''}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ChildAnalyticsPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [childId, setChildId] = useState<string | null>(null);
+  const [childName, setChildName] = useState('');
+  const [rangeWeeks, setRangeWeeks] = useState(12);
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    setChildId(new URLSearchParams(window.location.search).get('childId') || '');
+  }, []);
+
+  useEffect(() => {
+    if (status === 'authenticated' && childId) {
+      loadChild();
+    }
+  }, [status, childId]);
+
+  useEffect(() => {
+    if (status === 'authenticated' && childId) {
+      loadAnalytics();
+    }
+  }, [status, childId, rangeWeeks]);
+
+  const loadChild = async () => {
+    try {
+      const response = await fetch(`/api/children/${childId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setChildName(data.child.name);
+      }
+    } catch (error) {
+      console.error('Failed to load child:', error);
+    }
+  };
+
+  const loadAnalytics = async () => {
+    const from = new Date(Date.now() - rangeWeeks * 7 * 24 * 60 * 60 * 1000);
+
+    try {
+      const response = await fetch(
+        `/api/children/${childId}/analytics?from=${from.toISOString().slice(0, 10)}`
+      );
+      const data = await response.json();
+      if (response.ok) {
+        setAnalytics(data.analytics);
+        setError('');
+      } else {
+        setError(data.error || 'Failed to load progress');
+      }
+    } catch (error) {
+      console.error('Failed to load analytics:', error);
+      setError('Failed to load progress');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (status === 'loading' || (isLoading && childId !== '')) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100 flex items-center justify-center">
+        <div className="text-2xl text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  const complexityTotal = analytics
+    ? analytics.complexity.simple + analytics.complexity.moderate + analytics.complexity.advanced
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100">
+      {/* Header */}
+      <div className="bg-white shadow-md p-6">
+        <div className="max-w-5xl mx-auto flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">
+              {childName ? `${childName}'s Progress` : 'Progress'}
+            </h1>
+            <p className="text-gray-600 mt-1">
+              How vocabulary and confidence are growing, week by week
+            </p>
+          </div>
+          <button
+            onClick={() => router.push('/parent-dashboard')}
+            className="px-6 py-2 bg-gray-600 text-white rounded-full font-semibold hover:bg-gray-700 transition"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto p-8 space-y-6">
+        <div className="flex gap-2">
+          {RANGE_PRESETS.map((preset) => (
+            <button
+              key={preset.weeks}
+              onClick={() => setRangeWeeks(preset.weeks)}
+              className={`px-4 py-2 rounded-full text-sm font-semibold transition ${
+                rangeWeeks === preset.weeks
+                  ? 'bg-purple-500 text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 text-red-700 rounded-2xl">{error}</div>
+        )}
+
+        {!childId ? (
+          <div className="bg-white rounded-3xl shadow-xl p-12 text-center text-gray-500">
+            <p>Choose a child on the dashboard to see their progress</p>
+          </div>
+        ) : analytics && (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Sessions', value: analytics.totals.sessions },
+                { label: 'Things said', value: analytics.totals.utterances },
+                { label: 'New words', value: analytics.totals.newWords },
+                { label: 'Words known', value: analytics.totals.vocabularySize },
+              ].map((stat) => (
+                <div key={stat.label} className="bg-white rounded-3xl shadow-xl p-6 text-center">
+                  <p className="text-4xl font-bold text-purple-600">{stat.value}</p>
+                  <p className="text-sm text-gray-600 mt-1">{stat.label}</p>
+                </div>
+              ))}
+            </div>
+
+            {/* New words per week */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-white rounded-3xl shadow-xl p-6"
+            >
+              <h3 className="text-xl font-bold text-gray-800 mb-4">New Words per Week</h3>
+              <WeeklyBars
+                weeks={analytics.weeks}
+                value={(week) => (week.utterances > 0 ? week.newWords : null)}
+                format={(value) => `${value ?? 0} new words`}
+                color="bg-gradient-to-t from-purple-500 to-pink-400"
+              />
+              <WeekAxis weeks={analytics.weeks} />
+              {analytics.weeks.some((week) => week.newWordSample.length > 0) && (
+                <div className="mt-4 flex flex-wrap gap-2">
+                  {analytics.weeks
+                    .flatMap((week) => week.newWordSample)
+                    .slice(-20)
+                    .map((word) => (
+                      <span key={word} className="px-3 py-1 bg-purple-50 text-purple-700 rounded-full text-sm">
+                        {word}
+                      </span>
+                    ))}
+                </div>
+              )}
+            </motion.div>
+
+            {/* Complexity distribution */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 }}
+              className="bg-white rounded-3xl shadow-xl p-6"
+            >
+              <h3 className="text-xl font-bold text-gray-800 mb-4">Sentence Complexity</h3>
+              {complexityTotal === 0 ? (
+                <p className="text-gray-500">Nothing analyzed in this range yet</p>
+              ) : (
+                <>
+                  <div className="flex h-8 rounded-full overflow-hidden">
+                    {(['simple', 'moderate', 'advanced'] as const).map((level) => (
+                      <div
+                        key={level}
+                        className={COMPLEXITY_COLORS[level]}
+                        style={{ width: `${(analytics.complexity[level] / complexityTotal) * 100}%` }}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex gap-6 mt-3 text-sm text-gray-600">
+                    {(['simple', 'moderate', 'advanced'] as const).map((level) => (
+                      <span key={level} className="flex items-center gap-2">
+                        <span className={`w-3 h-3 rounded-full ${COMPLEXITY_COLORS[level]}`} />
+                        {level} ({Math.round((analytics.complexity[level] / complexityTotal) * 100)}%)
+                      </span>
+                    ))}
+                  </div>
+                </>
+              )}
+            </motion.div>
+
+            {/* Engagement and hesitation */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.2 }}
+                className="bg-white rounded-3xl shadow-xl p-6"
+              >
+                <h3 className="text-xl font-bold text-gray-800 mb-1">Engagement</h3>
+                <p className="text-sm text-gray-500 mb-4">Share of turns that showed interest or excitement</p>
+                <WeeklyBars
+                  weeks={analytics.weeks}
+                  value={(week) => week.engagementRate}
+                  format={percent}
+                  color="bg-green-400"
+                  max={1}
+                />
+                <WeekAxis weeks={analytics.weeks} />
+              </motion.div>
+
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.2 }}
+                className="bg-white rounded-3xl shadow-xl p-6"
+              >
+                <h3 className="text-xl font-bold text-gray-800 mb-1">Hesitation</h3>
+                <p className="text-sm text-gray-500 mb-4">Share of turns with a long pause or filler words</p>
+                <WeeklyBars
+                  weeks={analytics.weeks}
+                  value={(week) => week.hesitationRate}
+                  format={percent}
+                  color="bg-yellow-400"
+                  max={1}
+                />
+                <WeekAxis weeks={analytics.weeks} />
+              </motion.div>
+            </div>
+
+            {/* Session length */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.3 }}
+              className="bg-white rounded-3xl shadow-xl p-6"
+            >
+              <h3 className="text-xl font-bold text-gray-800 mb-4">Average Session Length</h3>
+              <WeeklyBars
+                weeks={analytics.weeks}
+                value={(week) => week.averageSessionMinutes}
+                format={(value) => (value === null ? 'No sessions' : `${value} min`)}
+                color="bg-blue-400"
+              />
+              <WeekAxis weeks={analytics.weeks} />
+            </motion.div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+
+interface Incident {
+  id: string;
+  sessionId: string;
+  source: string;
+  action: string;
+  originalText: string;
+  deliveredText: string | null;
+  ruleIds: string[];
+  explanation: string[];
+  reviewStatus: string;
+  reviewNote: string | null;
+  createdAt: string;
+}
+
+const STATUS_FILTERS = [
+  { value: 'pending', label: 'Needs review' },
+  { value: 'confirmed', label: 'Confirmed' },
+  { value: 'false_positive', label: 'False positives' },
+  { value: '', label: 'All' },
+];
+
+export default function GuardrailIncidentsPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [childId, setChildId] = useState<string | null>(null);
+  const [filter, setFilter] = useState('pending');
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    setChildId(new URLSearchParams(window.location.search).get('childId') || '');
+  }, []);
+
+  useEffect(() => {
+    if (status === 'authenticated' && childId !== null) {
+      loadIncidents();
+    }
+  }, [status, childId, filter]);
+
+  const query = (format?: string) => {
+    const params = new URLSearchParams();
+    if (childId) params.set('childId', childId);
+    if (filter) params.set('status', filter);
+    if (format) params.set('format', format);
+    return params.toString();
+  };
+
+  const loadIncidents = async () => {
+    try {
+      const response = await fetch(`/api/guardrails/incidents?${query()}`);
+      if (response.ok) {
+        const data = await response.json();
+        setIncidents(data.incidents);
+      }
+    } catch (error) {
+      console.error('Failed to load incidents:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReview = async (incidentId: string, reviewStatus: string) => {
+    try {
+      const response = await fetch(`/api/guardrails/incidents/${incidentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reviewStatus }),
+      });
+      if (response.ok) {
+        await loadIncidents();
+      }
+    } catch (error) {
+      console.error('Failed to review incident:', error);
+    }
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100 flex items-center justify-center">
+        <div className="text-2xl text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100">
+      {/* Header */}
+      <div className="bg-white shadow-md p-6">
+        <div className="max-w-5xl mx-auto flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">
+              Safety Review
+            </h1>
+            <p className="text-gray-600 mt-1">
+              Replies the guardrails blocked or rewrote before your child heard them
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <a
+              href={`/api/guardrails/incidents?${query('csv')}`}
+              className="px-6 py-2 bg-blue-500 text-white rounded-full font-semibold hover:bg-blue-600 transition"
+            >
+              Export CSV
+            </a>
+            <button
+              onClick={() => router.push('/parent-dashboard')}
+              className="px-6 py-2 bg-gray-600 text-white rounded-full font-semibold hover:bg-gray-700 transition"
+            >
+              Back
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto p-8 space-y-6">
+        <div className="flex gap-2">
+          {STATUS_FILTERS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setFilter(option.value)}
+              className={`px-4 py-2 rounded-full text-sm font-semibold transition ${
+                filter === option.value
+                  ? 'bg-purple-500 text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {incidents.length === 0 ? (
+          <div className="bg-white rounded-3xl shadow-xl p-12 text-center text-gray-500">
+            <p className="text-6xl mb-4">✅</p>
+            <p>Nothing to review here</p>
+          </div>
+        ) : (
+          incidents.map((incident) => (
+            <motion.div
+              key={incident.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-white rounded-3xl shadow-xl p-6"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <p className="text-sm text-gray-600">
+                  {new Date(incident.createdAt).toLocaleString()} • {incident.source} •{' '}
+                  <span className="font-semibold">{incident.action}</span>
+                </p>
+                <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
+                  incident.reviewStatus === 'confirmed'
+                    ? 'bg-red-100 text-red-700'
+                    : incident.reviewStatus === 'false_positive'
+                    ? 'bg-green-100 text-green-700'
+                    : 'bg-yellow-100 text-yellow-700'
+                }`}>
+                  {incident.reviewStatus.replace('_', ' ')}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div className="p-4 bg-red-50 rounded-2xl">
+                  <p className="text-xs font-semibold text-red-700 mb-1">Generated</p>
+                  <p className="text-gray-800">{incident.originalText}</p>
+                </div>
+                <div className="p-4 bg-green-50 rounded-2xl">
+                  <p className="text-xs font-semibold text-green-700 mb-1">Your child heard</p>
+                  <p className="text-gray-800">
+                    {incident.deliveredText ?? <span className="italic text-gray-500">Nothing (removed)</span>}
+                  </p>
+                </div>
+              </div>
+
+              <div className="text-sm text-gray-600 mb-4">
+                <p className="font-semibold mb-1">
+                  Rules: {incident.ruleIds.join(', ') || 'none'}
+                </p>
+                <ul className="list-disc list-inside space-y-1">
+                  {incident.explanation.map((line, i) => (
+                    <li key={i}>{line}</li>
+                  ))}
+                </ul>
+              </div>
+
+              <div className="flex gap-3">
+                <button
+                  onClick={() => handleReview(incident.id, 'confirmed')}
+                  disabled={incident.reviewStatus === 'confirmed'}
+                  className="px-4 py-2 bg-red-500 text-white rounded-xl text-sm font-semibold hover:bg-red-600 disabled:opacity-50"
+                >
+                  Right call
+                </button>
+                <button
+                  onClick={() => handleReview(incident.id, 'false_positive')}
+                  disabled={incident.reviewStatus === 'false_positive'}
+                  className="px-4 py-2 bg-gray-200 rounded-xl text-sm font-semibold hover:bg-gray-300 disabled:opacity-50"
+                >
+                  False positive
+                </button>
+              </div>
+            </motion.div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
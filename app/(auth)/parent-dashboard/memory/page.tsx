@@ -0,0 +1,272 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+
+interface ChildMemory {
+  favoriteTopics: string[];
+  characters: string[];
+  practiceWords: string[];
+  lastThinkingQuestion: string | null;
+  updatedAt: string | null;
+}
+
+type MemoryList = 'favoriteTopics' | 'characters' | 'practiceWords';
+
+const LISTS: { key: MemoryList; title: string; hint: string; limit: number }[] = [
+  { key: 'favoriteTopics', title: 'Favorite Topics', hint: 'e.g. dinosaurs', limit: 10 },
+  { key: 'characters', title: 'Characters', hint: 'pets, toys, friends', limit: 10 },
+  { key: 'practiceWords', title: 'Words Being Practiced', hint: 'e.g. enormous', limit: 15 },
+];
+
+export default function ChildMemoryPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [childId, setChildId] = useState<string | null>(null);
+  const [memory, setMemory] = useState<ChildMemory | null>(null);
+  const [drafts, setDrafts] = useState<Record<MemoryList, string>>({
+    favoriteTopics: '',
+    characters: '',
+    practiceWords: '',
+  });
+  const [isDirty, setIsDirty] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    setChildId(new URLSearchParams(window.location.search).get('childId') || '');
+  }, []);
+
+  useEffect(() => {
+    if (status === 'authenticated' && childId) {
+      loadMemory();
+    } else if (childId === '') {
+      setIsLoading(false);
+    }
+  }, [status, childId]);
+
+  const loadMemory = async () => {
+    try {
+      const response = await fetch(`/api/children/${childId}/memory`);
+      if (response.ok) {
+        const data = await response.json();
+        setMemory(data.memory);
+        setIsDirty(false);
+      }
+    } catch (error) {
+      console.error('Failed to load memory:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const edit = (changes: Partial<ChildMemory>) => {
+    setMemory((current) => current && { ...current, ...changes });
+    setIsDirty(true);
+  };
+
+  const handleAdd = (key: MemoryList) => {
+    const item = drafts[key].trim();
+    if (!memory || !item) return;
+    if (!memory[key].some((existing) => existing.toLowerCase() === item.toLowerCase())) {
+      edit({ [key]: [item, ...memory[key]] });
+    }
+    setDrafts((current) => ({ ...current, [key]: '' }));
+  };
+
+  const handleSave = async () => {
+    if (!memory) return;
+    setError('');
+    try {
+      const response = await fetch(`/api/children/${childId}/memory`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          favoriteTopics: memory.favoriteTopics,
+          characters: memory.characters,
+          practiceWords: memory.practiceWords,
+          lastThinkingQuestion: memory.lastThinkingQuestion,
+        }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setMemory(data.memory);
+        setIsDirty(false);
+      } else {
+        setError(data.details?.join(', ') || data.error);
+      }
+    } catch (error) {
+      console.error('Failed to save memory:', error);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Forget everything the companion remembers? Future sessions will start adding again.')) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/children/${childId}/memory`, { method: 'DELETE' });
+      if (response.ok) {
+        const data = await response.json();
+        setMemory(data.memory);
+        setIsDirty(false);
+      }
+    } catch (error) {
+      console.error('Failed to clear memory:', error);
+    }
+  };
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100 flex items-center justify-center">
+        <div className="text-2xl text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100">
+      {/* Header */}
+      <div className="bg-white shadow-md p-6">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">
+              Companion Memory
+            </h1>
+            <p className="text-gray-600 mt-1">
+              What the companion remembers between sessions, so conversations can build over days
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={handleClear}
+              className="px-6 py-2 bg-white border-2 border-red-400 text-red-600 rounded-full font-semibold hover:bg-red-50 transition"
+            >
+              Forget All
+            </button>
+            <button
+              onClick={() => router.push('/parent-dashboard')}
+              className="px-6 py-2 bg-gray-600 text-white rounded-full font-semibold hover:bg-gray-700 transition"
+            >
+              Back
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {!memory ? (
+        <div className="max-w-4xl mx-auto p-8 text-center text-gray-600">
+          Memory not available
+        </div>
+      ) : (
+        <div className="max-w-4xl mx-auto p-8 space-y-6">
+          {LISTS.map((list, index) => (
+            <motion.div
+              key={list.key}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.1 }}
+              className="bg-white rounded-3xl shadow-xl p-6"
+            >
+              <h3 className="text-xl font-bold text-gray-800 mb-4">{list.title}</h3>
+              {memory[list.key].length === 0 ? (
+                <p className="text-gray-500 mb-4">Nothing remembered yet</p>
+              ) : (
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {memory[list.key].map((item) => (
+                    <span
+                      key={item}
+                      className="flex items-center gap-2 px-3 py-1 bg-purple-50 text-purple-700 rounded-full"
+                    >
+                      {item}
+                      <button
+                        onClick={() => edit({ [list.key]: memory[list.key].filter((other) => other !== item) })}
+                        className="text-purple-400 hover:text-purple-700"
+                        aria-label={`Remove ${item}`}
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              {memory[list.key].length < list.limit && (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleAdd(list.key);
+                  }}
+                  className="flex gap-2"
+                >
+                  <input
+                    type="text"
+                    value={drafts[list.key]}
+                    onChange={(e) => setDrafts((current) => ({ ...current, [list.key]: e.target.value }))}
+                    placeholder={list.hint}
+                    maxLength={40}
+                    className="flex-1 px-4 py-2 border-2 rounded-xl focus:outline-none focus:border-purple-500"
+                  />
+                  <button
+                    type="submit"
+                    className="px-4 py-2 bg-purple-500 text-white rounded-xl font-semibold hover:bg-purple-600"
+                  >
+                    Add
+                  </button>
+                </form>
+              )}
+            </motion.div>
+          ))}
+
+          {/* Last thinking question */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            className="bg-white rounded-3xl shadow-xl p-6"
+          >
+            <h3 className="text-xl font-bold text-gray-800 mb-2">Last Session&apos;s Question</h3>
+            {memory.lastThinkingQuestion ? (
+              <div className="flex items-start justify-between gap-4">
+                <p className="text-gray-700">{memory.lastThinkingQuestion}</p>
+                <button
+                  onClick={() => edit({ lastThinkingQuestion: null })}
+                  className="text-sm font-semibold text-red-600 hover:text-red-700 shrink-0"
+                >
+                  Remove
+                </button>
+              </div>
+            ) : (
+              <p className="text-gray-500">None</p>
+            )}
+          </motion.div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              {memory.updatedAt
+                ? `Last updated ${new Date(memory.updatedAt).toLocaleString()}`
+                : 'Filled in automatically after each session'}
+            </p>
+            <div className="flex items-center gap-4">
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <button
+                onClick={handleSave}
+                disabled={!isDirty}
+                className="px-8 py-3 bg-green-500 text-white rounded-full font-semibold hover:bg-green-600 transition disabled:opacity-50"
+              >
+                Save Changes
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
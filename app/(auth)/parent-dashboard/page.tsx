@@ -14,6 +14,42 @@ interface Child {
   aiVoiceEnabled: boolean;
 }
 
+interface ScenarioOption {
+  id: string;
+  title: string;
+  emoji: string;
+  description: string;
+  goals: { id: string; description: string }[];
+}
+
+interface Notification {
+  id: string;
+  childId: string;
+  sessionId?: string;
+  category: string;
+  priority: 'high' | 'normal';
+  message: string;
+  excerpt?: string;
+  createdAt: string;
+}
+
+const LEVELS = ['beginner', 'intermediate', 'advanced'];
+
+interface VocabularyReport {
+  level: string;
+  measurement: {
+    sessions: number;
+    distinctWords: number;
+    estimatedLevel: string | null;
+  };
+  suggestion: {
+    id: string;
+    fromLevel: string;
+    toLevel: string;
+    evidence: { distinctWords: number; sessions: number; rareWordSample: string[] };
+  } | null;
+}
+
 interface Session {
   id: string;
   scenario: string;
@@ -29,6 +65,10 @@ export default function ParentDashboard() {
   const [children, setChildren] = useState<Child[]>([]);
   const [sessions, setSessions] = useState<Session[]>([]);
   const [selectedChild, setSelectedChild] = useState<string>('');
+  const [scenarios, setScenarios] = useState<ScenarioOption[]>([]);
+  const [selectedScenario, setSelectedScenario] = useState<string>('general-exploration');
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [vocabulary, setVocabulary] = useState<VocabularyReport | null>(null);
   const [showAddChild, setShowAddChild] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -46,24 +86,37 @@ export default function ParentDashboard() {
   useEffect(() => {
     if (status === 'authenticated') {
       loadChildren();
+      loadNotifications();
     }
   }, [status]);
 
   useEffect(() => {
     if (selectedChild) {
       loadSessions(selectedChild);
+      loadVocabulary(selectedChild);
     }
   }, [selectedChild]);
 
+  const selectedAge = children.find(c => c.id === selectedChild)?.age;
+
+  useEffect(() => {
+    if (selectedAge !== undefined) {
+      loadScenarios(selectedAge);
+    }
+  }, [selectedAge]);
+
   const loadChildren = async () => {
     try {
       const response = await fetch('/api/children');
       if (response.ok) {
         const data = await response.json();
         setChildren(data.children);
-        if (data.children.length > 0) {
-          setSelectedChild(data.children[0].id);
-        }
+        // Keep the current pick after a reload
+        setSelectedChild((current) =>
+          data.children.some((c: Child) => c.id === current)
+            ? current
+            : data.children[0]?.id || ''
+        );
       }
     } catch (error) {
       console.error('Failed to load children:', error);
@@ -72,6 +125,27 @@ export default function ParentDashboard() {
     }
   };
 
+  const loadNotifications = async () => {
+    try {
+      const response = await fetch('/api/notifications?unread=true');
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications);
+      }
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    }
+  };
+
+  const handleDismissNotification = async (notificationId: string) => {
+    try {
+      await fetch(`/api/notifications/${notificationId}`, { method: 'PATCH' });
+      await loadNotifications();
+    } catch (error) {
+      console.error('Failed to dismiss notification:', error);
+    }
+  };
+
   const loadSessions = async (childId: string) => {
     try {
       const response = await fetch(`/api/sessions?childId=${childId}`);
@@ -84,6 +158,51 @@ export default function ParentDashboard() {
     }
   };
 
+  const loadVocabulary = async (childId: string) => {
+    try {
+      const response = await fetch(`/api/children/${childId}/vocabulary`);
+      if (response.ok) {
+        setVocabulary(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to load vocabulary:', error);
+    }
+  };
+
+  const handleLevelDecision = async (suggestionId: string, decision: 'approve' | 'decline') => {
+    try {
+      await fetch(`/api/children/${selectedChild}/vocabulary`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ suggestionId, decision }),
+      });
+      await loadVocabulary(selectedChild);
+      if (decision === 'approve') {
+        await loadChildren();
+      }
+    } catch (error) {
+      console.error('Failed to decide on level:', error);
+    }
+  };
+
+  const loadScenarios = async (age: number) => {
+    try {
+      const response = await fetch(`/api/scenarios?age=${age}`);
+      if (response.ok) {
+        const data = await response.json();
+        setScenarios(data.scenarios);
+        // Keep the current pick if it still suits this child
+        setSelectedScenario((current) =>
+          data.scenarios.some((s: ScenarioOption) => s.id === current)
+            ? current
+            : data.scenarios[0]?.id || 'general-exploration'
+        );
+      }
+    } catch (error) {
+      console.error('Failed to load scenarios:', error);
+    }
+  };
+
   const handleAddChild = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -112,11 +231,10 @@ export default function ParentDashboard() {
 
   const handleToggleAI = async (childId: string, currentStatus: boolean) => {
     try {
-      await fetch('/api/children', {
+      await fetch(`/api/children/${childId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          childId,
           aiVoiceEnabled: !currentStatus,
         }),
       });
@@ -136,7 +254,7 @@ export default function ParentDashboard() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           childId: selectedChild,
-          scenario: 'general-exploration',
+          scenario: selectedScenario,
         }),
       });
 
@@ -147,6 +265,7 @@ export default function ParentDashboard() {
           childId: selectedChild,
           childName: child?.name,
           aiVoiceEnabled: child?.aiVoiceEnabled,
+          openingPrompt: data.openingPrompt,
         }));
         router.push(`/session/${data.session.id}`);
       }
@@ -164,6 +283,9 @@ export default function ParentDashboard() {
   }
 
   const currentChild = children.find(c => c.id === selectedChild);
+  const suggestion = vocabulary?.suggestion;
+  const suggestsLevelUp =
+    !!suggestion && LEVELS.indexOf(suggestion.toLevel) > LEVELS.indexOf(suggestion.fromLevel);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100">
@@ -188,6 +310,47 @@ export default function ParentDashboard() {
       </div>
 
       <div className="max-w-7xl mx-auto p-8">
+        {/* Safety Notifications */}
+        {notifications.length > 0 && (
+          <div className="space-y-3 mb-8">
+            {notifications.map((notification) => (
+              <motion.div
+                key={notification.id}
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className={`rounded-3xl shadow-xl p-6 flex items-start justify-between gap-4 ${
+                  notification.priority === 'high'
+                    ? 'bg-red-50 border-2 border-red-400'
+                    : 'bg-yellow-50 border-2 border-yellow-300'
+                }`}
+              >
+                <div>
+                  <p className={`font-bold ${
+                    notification.priority === 'high' ? 'text-red-700' : 'text-yellow-700'
+                  }`}>
+                    {notification.priority === 'high' ? '⚠️ Needs your attention' : '💛 Check in'}
+                  </p>
+                  <p className="text-gray-800 mt-1">{notification.message}</p>
+                  {notification.excerpt && (
+                    <p className="text-sm text-gray-600 mt-2 italic">
+                      &ldquo;{notification.excerpt}&rdquo;
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-2">
+                    {new Date(notification.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDismissNotification(notification.id)}
+                  className="px-4 py-2 bg-white rounded-full text-sm font-semibold text-gray-700 hover:bg-gray-100 shrink-0"
+                >
+                  Mark as read
+                </button>
+              </motion.div>
+            ))}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Children Management */}
           <div className="lg:col-span-1">
@@ -340,8 +503,69 @@ export default function ParentDashboard() {
                       />
                     </button>
                   </div>
+                  <div className="flex gap-6 mt-4">
+                    <button
+                      onClick={() => router.push(`/parent-dashboard/incidents?childId=${currentChild.id}`)}
+                      className="text-sm font-semibold text-purple-600 hover:text-purple-700"
+                    >
+                      Review safety incidents →
+                    </button>
+                    <button
+                      onClick={() => router.push(`/parent-dashboard/memory?childId=${currentChild.id}`)}
+                      className="text-sm font-semibold text-purple-600 hover:text-purple-700"
+                    >
+                      What the companion remembers →
+                    </button>
+                  </div>
                 </motion.div>
 
+                {/* Vocabulary Level */}
+                {vocabulary && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.05 }}
+                    className="bg-white rounded-3xl shadow-xl p-6"
+                  >
+                    <h3 className="text-xl font-bold text-gray-800 mb-2">
+                      Vocabulary Level: <span className="capitalize">{vocabulary.level}</span>
+                    </h3>
+                    <p className="text-gray-600">
+                      {vocabulary.measurement.estimatedLevel
+                        ? `${vocabulary.measurement.distinctWords} different words across ${vocabulary.measurement.sessions} recent sessions`
+                        : 'A few more sessions are needed before we can measure vocabulary'}
+                    </p>
+                    {suggestion && (
+                      <div className="mt-4 p-4 bg-purple-50 rounded-2xl">
+                        <p className="font-semibold text-purple-700">
+                          {suggestsLevelUp
+                            ? `${currentChild.name} seems ready for ${suggestion.toLevel} words`
+                            : `${currentChild.name} may be more comfortable with ${suggestion.toLevel} words for now`}
+                        </p>
+                        {suggestsLevelUp && suggestion.evidence.rareWordSample.length > 0 && (
+                          <p className="text-sm text-gray-600 mt-1">
+                            Recently used: {suggestion.evidence.rareWordSample.join(', ')}
+                          </p>
+                        )}
+                        <div className="flex gap-3 mt-3">
+                          <button
+                            onClick={() => handleLevelDecision(suggestion.id, 'approve')}
+                            className="px-4 py-2 bg-purple-500 text-white rounded-full text-sm font-semibold hover:bg-purple-600"
+                          >
+                            Change level
+                          </button>
+                          <button
+                            onClick={() => handleLevelDecision(suggestion.id, 'decline')}
+                            className="px-4 py-2 bg-white rounded-full text-sm font-semibold text-gray-700 hover:bg-gray-100"
+                          >
+                            Not now
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </motion.div>
+                )}
+
                 {/* Start Session */}
                 <motion.div
                   initial={{ opacity: 0, y: 20 }}
@@ -356,6 +580,32 @@ export default function ParentDashboard() {
                   <p className="mb-6 text-lg">
                     Start a new learning session with {currentChild.name}
                   </p>
+                  {scenarios.length > 0 && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6 text-left">
+                      {scenarios.map((scenario) => (
+                        <button
+                          key={scenario.id}
+                          type="button"
+                          onClick={() => setSelectedScenario(scenario.id)}
+                          className={`p-4 rounded-2xl transition ${
+                            selectedScenario === scenario.id
+                              ? 'bg-white text-purple-700 shadow-lg'
+                              : 'bg-white/20 hover:bg-white/30'
+                          }`}
+                        >
+                          <p className="font-bold">
+                            {scenario.emoji} {scenario.title}
+                          </p>
+                          <p className="text-sm opacity-80">{scenario.description}</p>
+                          {scenario.goals.length > 0 && (
+                            <p className="text-xs mt-2 opacity-70">
+                              {scenario.goals.length} learning goals
+                            </p>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                   <button
                     onClick={handleStartSession}
                     className="bg-white text-purple-600 px-12 py-4 rounded-full font-bold text-xl hover:bg-gray-100 transition shadow-lg"
@@ -371,9 +621,17 @@ export default function ParentDashboard() {
                   transition={{ delay: 0.2 }}
                   className="bg-white rounded-3xl shadow-xl p-6"
                 >
-                  <h3 className="text-2xl font-bold text-gray-800 mb-4">
-                    Recent Sessions
-                  </h3>
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-2xl font-bold text-gray-800">
+                      Recent Sessions
+                    </h3>
+                    <button
+                      onClick={() => router.push(`/parent-dashboard/analytics?childId=${currentChild.id}`)}
+                      className="text-sm font-semibold text-purple-600 hover:text-purple-700"
+                    >
+                      View progress →
+                    </button>
+                  </div>
                   {sessions.length === 0 ? (
                     <div className="text-center py-8 text-gray-500">
                       <p>No sessions yet</p>
@@ -385,7 +643,7 @@ export default function ParentDashboard() {
                         <div
                           key={session.id}
                           className="p-4 bg-gray-50 rounded-2xl hover:bg-gray-100 transition cursor-pointer"
-                          onClick={() => router.push(`/summary/${session.id}`)}
+                          onClick={() => router.push(`/parent-dashboard/summary/${session.id}`)}
                         >
                           <div className="flex items-center justify-between">
                             <div>
@@ -400,9 +658,11 @@ export default function ParentDashboard() {
                             <div className={`px-3 py-1 rounded-full text-sm font-semibold ${
                               session.status === 'completed'
                                 ? 'bg-green-100 text-green-700'
-                                : 'bg-yellow-100 text-yellow-700'
+                                : session.status === 'active' || session.status === 'paused'
+                                ? 'bg-yellow-100 text-yellow-700'
+                                : 'bg-gray-200 text-gray-600'
                             }`}>
-                              {session.status}
+                              {session.status.replace('_', ' ')}
                             </div>
                           </div>
                         </div>
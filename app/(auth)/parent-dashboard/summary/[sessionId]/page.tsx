@@ -0,0 +1,233 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { useSessionSummary } from '@/components/learning/useSessionSummary';
+
+interface ParentSummary {
+  overview: string;
+  wordsUsedWell: { word: string; utteranceIds: string[] }[];
+  thinkingMoments: { description: string; utteranceIds: string[] }[];
+  suggestions: string[];
+  stats: {
+    childTurns: number;
+    analyzedTurns: number;
+    hesitations: number;
+    complexity: Record<string, number>;
+  };
+}
+
+interface Evidence {
+  id: string;
+  text: string;
+  timestamp: string;
+}
+
+interface ParentSummaryPageProps {
+  params: {
+    sessionId: string;
+  };
+}
+
+/**
+ * What the child said that backs up a claim
+ */
+function EvidenceQuotes({ ids, evidence }: { ids: string[]; evidence: Map<string, Evidence> }) {
+  return (
+    <div className="mt-2 space-y-1">
+      {ids.map((id) => evidence.get(id)).filter(Boolean).map((utterance) => (
+        <p key={utterance!.id} className="text-sm text-gray-600 border-l-4 border-purple-200 pl-3 italic">
+          “{utterance!.text}”
+          <span className="not-italic text-xs text-gray-400 ml-2">
+            {new Date(utterance!.timestamp).toLocaleTimeString()}
+          </span>
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export default function ParentSummaryPage({ params }: ParentSummaryPageProps) {
+  const { status } = useSession();
+  const router = useRouter();
+  const { state, data, retry, regenerate } = useSessionSummary<{ summary: ParentSummary; evidence: Evidence[] }>(
+    params.sessionId,
+    'parent',
+    status === 'authenticated'
+  );
+  const summary = data?.summary ?? null;
+  const evidence = useMemo(
+    () => new Map((data?.evidence ?? []).map((utterance) => [utterance.id, utterance])),
+    [data]
+  );
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login');
+    }
+  }, [status, router]);
+
+  if (status === 'loading' || (!summary && (state === 'loading' || state === 'generating'))) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100 flex items-center justify-center">
+        <div className="text-2xl text-gray-600">Preparing the session report...</div>
+      </div>
+    );
+  }
+
+  if (!summary) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-2xl text-gray-600">Report not available</div>
+          {state === 'in-progress' && (
+            <div className="text-lg text-gray-500 mt-2">This session is still going. Its report is made when it ends.</div>
+          )}
+          {state === 'failed' && (
+            <button
+              onClick={retry}
+              className="mt-6 mr-3 px-6 py-3 bg-purple-500 text-white rounded-full font-semibold hover:bg-purple-600"
+            >
+              Try Again
+            </button>
+          )}
+          <button
+            onClick={() => router.push('/parent-dashboard')}
+            className="mt-6 px-6 py-3 bg-blue-500 text-white rounded-full font-semibold hover:bg-blue-600"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const complexity = Object.entries(summary.stats.complexity);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100">
+      {/* Header */}
+      <div className="bg-white shadow-md p-6">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">
+              Session Report
+            </h1>
+            <p className="text-gray-600 mt-1">
+              Every highlight links to what your child actually said
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={regenerate}
+              disabled={state === 'generating'}
+              className="px-6 py-2 bg-white border-2 border-purple-500 text-purple-600 rounded-full font-semibold hover:bg-purple-50 transition disabled:opacity-50"
+            >
+              {state === 'generating' ? 'Regenerating...' : 'Regenerate'}
+            </button>
+            <button
+              onClick={() => router.push(`/summary/${params.sessionId}`)}
+              className="px-6 py-2 bg-purple-500 text-white rounded-full font-semibold hover:bg-purple-600 transition"
+            >
+              Child's Summary
+            </button>
+            <button
+              onClick={() => router.push('/parent-dashboard')}
+              className="px-6 py-2 bg-gray-600 text-white rounded-full font-semibold hover:bg-gray-700 transition"
+            >
+              Back
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto p-8 space-y-6">
+        {/* Overview */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white rounded-3xl shadow-xl p-6"
+        >
+          <h3 className="text-xl font-bold text-gray-800 mb-2">Overview</h3>
+          <p className="text-gray-700 leading-relaxed">{summary.overview}</p>
+          <div className="flex flex-wrap gap-3 mt-4 text-sm">
+            <span className="px-3 py-1 bg-blue-50 text-blue-700 rounded-full">
+              {summary.stats.childTurns} turns
+            </span>
+            <span className="px-3 py-1 bg-yellow-50 text-yellow-700 rounded-full">
+              {summary.stats.hesitations} hesitations
+            </span>
+            {complexity.map(([level, count]) => (
+              <span key={level} className="px-3 py-1 bg-purple-50 text-purple-700 rounded-full">
+                {count} {level}
+              </span>
+            ))}
+          </div>
+        </motion.div>
+
+        {/* Words used well */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="bg-white rounded-3xl shadow-xl p-6"
+        >
+          <h3 className="text-xl font-bold text-gray-800 mb-4">Words Used Well</h3>
+          {summary.wordsUsedWell.length === 0 ? (
+            <p className="text-gray-500">No standout words this time</p>
+          ) : (
+            <div className="space-y-4">
+              {summary.wordsUsedWell.map((claim) => (
+                <div key={claim.word}>
+                  <p className="font-semibold text-gray-800">{claim.word}</p>
+                  <EvidenceQuotes ids={claim.utteranceIds} evidence={evidence} />
+                </div>
+              ))}
+            </div>
+          )}
+        </motion.div>
+
+        {/* Thinking moments */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="bg-white rounded-3xl shadow-xl p-6"
+        >
+          <h3 className="text-xl font-bold text-gray-800 mb-4">Critical Thinking Moments</h3>
+          {summary.thinkingMoments.length === 0 ? (
+            <p className="text-gray-500">None identified this time</p>
+          ) : (
+            <div className="space-y-4">
+              {summary.thinkingMoments.map((claim, index) => (
+                <div key={index}>
+                  <p className="font-semibold text-gray-800">{claim.description}</p>
+                  <EvidenceQuotes ids={claim.utteranceIds} evidence={evidence} />
+                </div>
+              ))}
+            </div>
+          )}
+        </motion.div>
+
+        {/* Suggestions */}
+        {summary.suggestions.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            className="bg-gray-100 rounded-3xl shadow-xl p-6"
+          >
+            <h3 className="text-xl font-bold text-gray-800 mb-2">Try at Home</h3>
+            <ul className="list-disc list-inside space-y-1 text-gray-700">
+              {summary.suggestions.map((suggestion, index) => (
+                <li key={index}>{suggestion}</li>
+              ))}
+            </ul>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,20 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import VoiceNarrator from '@/components/learning/VoiceNarrator';
+import VoiceNarrator, { SpokenNudge } from '@/components/learning/VoiceNarrator';
 import TranscriptSidebar from '@/components/learning/TranscriptSidebar';
+import VoiceRecorder from '@/components/learning/VoiceRecorder';
 import { motion } from 'framer-motion';
+import { useTurnTiming } from '@/components/learning/useTurnTiming';
+import { SessionEventMap } from '@/lib/sse/events';
+import type { UtteranceTiming } from '@/lib/ai/timingMetrics';
 
 interface Utterance {
   id: string;
   speaker: 'child' | 'ai_voice';
   text: string;
+  interrupted?: boolean;
   timestamp: Date;
 }
 
@@ -25,10 +30,14 @@ export default function SessionPage({ params }: SessionPageProps) {
   const [childName, setChildName] = useState<string>('');
   const [aiVoiceEnabled, setAiVoiceEnabled] = useState(false);
   const [mode, setMode] = useState<'observe' | 'speak'>('observe');
+  const [sessionStatus, setSessionStatus] = useState('active');
   const [inputText, setInputText] = useState('');
   const [utterances, setUtterances] = useState<Utterance[]>([]);
   const [lastUtterance, setLastUtterance] = useState('');
+  const [lastTiming, setLastTiming] = useState<UtteranceTiming>();
+  const [nudge, setNudge] = useState<SpokenNudge>();
   const [isLoading, setIsLoading] = useState(true);
+  const { markTurnStart, trackTyping, typedTiming, spokenTiming } = useTurnTiming();
 
   // Load session data
   useEffect(() => {
@@ -37,10 +46,15 @@ export default function SessionPage({ params }: SessionPageProps) {
         // Get session from localStorage (set during session creation)
         const sessionData = localStorage.getItem('currentSession');
         if (sessionData) {
-          const { childId, childName, aiVoiceEnabled } = JSON.parse(sessionData);
+          const { childId, childName, aiVoiceEnabled, openingPrompt } = JSON.parse(sessionData);
           setChildId(childId);
           setChildName(childName);
           setAiVoiceEnabled(aiVoiceEnabled);
+
+          // Show the scenario's opening prompt until the transcript loads
+          if (openingPrompt) {
+            setUtterances([openingPrompt]);
+          }
         }
 
         // Load existing utterances
@@ -50,6 +64,9 @@ export default function SessionPage({ params }: SessionPageProps) {
           if (data.session?.utterances) {
             setUtterances(data.session.utterances);
           }
+          if (data.session?.status) {
+            setSessionStatus(data.session.status);
+          }
         }
       } catch (error) {
         console.error('Failed to load session:', error);
@@ -61,24 +78,60 @@ export default function SessionPage({ params }: SessionPageProps) {
     loadSession();
   }, [params.sessionId]);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!inputText.trim()) return;
+  // A finished session (ended, abandoned or timed out) goes to its summary
+  useEffect(() => {
+    if (!['active', 'paused'].includes(sessionStatus)) {
+      router.replace(`/summary/${params.sessionId}`);
+    }
+  }, [sessionStatus, params.sessionId, router]);
+
+  // Listen for nudges the server sends on its own when the child goes quiet
+  useEffect(() => {
+    if (!aiVoiceEnabled || sessionStatus !== 'active') return;
+
+    const events = new EventSource(`/api/sessions/${params.sessionId}/events`);
+
+    events.addEventListener('nudge', (e) => {
+      const data: SessionEventMap['nudge'] = JSON.parse((e as MessageEvent).data);
+      setNudge({ id: data.utteranceId, text: data.text, speech: data.speech });
+      setUtterances((current) => [
+        ...current,
+        { id: data.utteranceId, speaker: 'ai_voice', text: data.text, timestamp: new Date() },
+      ]);
+    });
+
+    events.addEventListener('closed', () => events.close());
+
+    return () => events.close();
+  }, [params.sessionId, aiVoiceEnabled, sessionStatus]);
 
+  const sendUtterance = (text: string, timing: UtteranceTiming) => {
     // Add utterance to local state
     const newUtterance: Utterance = {
       id: Date.now().toString(),
       speaker: 'child',
-      text: inputText,
+      text,
       timestamp: new Date(),
     };
 
-    setUtterances([...utterances, newUtterance]);
-    setLastUtterance(inputText);
+    setUtterances((current) => [...current, newUtterance]);
+    setLastUtterance(text);
+    setLastTiming(timing);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inputText.trim()) return;
+
+    sendUtterance(inputText, typedTiming());
     setInputText('');
   };
 
-  const handleAIComplete = () => {
+  // Stable identity so VoiceNarrator's effects don't re-run on every render
+  const handleAIComplete = useCallback(() => {
+    // AI is done speaking - the child's turn (and its pause) starts now
+    markTurnStart();
+
     // Reload utterances to get AI response
     fetch(`/api/sessions/${params.sessionId}`)
       .then((res) => res.json())
@@ -86,14 +139,38 @@ export default function SessionPage({ params }: SessionPageProps) {
         if (data.session?.utterances) {
           setUtterances(data.session.utterances);
         }
+        if (data.session?.status) {
+          setSessionStatus(data.session.status);
+        }
       });
+  }, [params.sessionId, markTurnStart]);
+
+  const handlePauseToggle = async () => {
+    try {
+      const response = await fetch(`/api/sessions/${params.sessionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: sessionStatus === 'paused' ? 'resume' : 'pause',
+        }),
+      });
+
+      const data = await response.json();
+      // On 409 the server reports the status the session is really in
+      setSessionStatus(data.session?.status ?? data.status ?? sessionStatus);
+      if (response.ok) markTurnStart();
+    } catch (error) {
+      console.error('Failed to pause/resume session:', error);
+    }
   };
 
   const handleEndSession = async () => {
     try {
-      // Generate summary
-      await fetch(`/api/sessions/${params.sessionId}/summary`, {
-        method: 'POST',
+      // End the session, which queues its summary (returns right away)
+      await fetch(`/api/sessions/${params.sessionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'complete' }),
       });
 
       // Navigate to summary page
@@ -124,12 +201,20 @@ export default function SessionPage({ params }: SessionPageProps) {
               {aiVoiceEnabled ? '🎤 AI Voice Active' : '👁️ Observe Mode'}
             </p>
           </div>
-          <button
-            onClick={handleEndSession}
-            className="bg-red-500 hover:bg-red-600 text-white px-6 py-2 rounded-full font-semibold transition"
-          >
-            End Session
-          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={handlePauseToggle}
+              className="bg-yellow-400 hover:bg-yellow-500 text-gray-800 px-6 py-2 rounded-full font-semibold transition"
+            >
+              {sessionStatus === 'paused' ? '▶️ Resume' : '⏸️ Pause'}
+            </button>
+            <button
+              onClick={handleEndSession}
+              className="bg-red-500 hover:bg-red-600 text-white px-6 py-2 rounded-full font-semibold transition"
+            >
+              End Session
+            </button>
+          </div>
         </div>
       </div>
 
@@ -177,17 +262,37 @@ export default function SessionPage({ params }: SessionPageProps) {
           </button>
         </div>
 
+        {/* Paused */}
+        {sessionStatus === 'paused' && (
+          <div className="bg-white rounded-3xl shadow-xl p-8 text-center">
+            <div className="text-6xl mb-4">⏸️</div>
+            <p className="text-2xl font-bold text-gray-800">Taking a break!</p>
+            <p className="text-gray-600 mt-2">Press Resume when you're ready to play again.</p>
+          </div>
+        )}
+
         {/* Input area */}
-        {mode === 'speak' && (
+        {mode === 'speak' && sessionStatus === 'active' && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             className="bg-white rounded-3xl shadow-xl p-6"
           >
+            <div className="mb-6">
+              <VoiceRecorder
+                sessionId={params.sessionId}
+                onTranscript={(text, recordingStartedAt, words) =>
+                  sendUtterance(text, spokenTiming(recordingStartedAt, words))
+                }
+              />
+            </div>
             <form onSubmit={handleSubmit} className="space-y-4">
               <textarea
                 value={inputText}
-                onChange={(e) => setInputText(e.target.value)}
+                onChange={(e) => {
+                  trackTyping(inputText, e.target.value);
+                  setInputText(e.target.value);
+                }}
                 placeholder="Type what you want to say..."
                 className="w-full p-4 text-xl border-2 border-gray-200 rounded-2xl focus:border-purple-500 focus:outline-none resize-none"
                 rows={4}
@@ -205,12 +310,13 @@ export default function SessionPage({ params }: SessionPageProps) {
       </div>
 
       {/* Voice Narrator */}
-      {aiVoiceEnabled && lastUtterance && (
+      {aiVoiceEnabled && (lastUtterance || nudge) && (
         <VoiceNarrator
           sessionId={params.sessionId}
           childId={childId}
           utterance={lastUtterance}
-          parentOptIn={aiVoiceEnabled}
+          timing={lastTiming}
+          nudge={nudge}
           onComplete={handleAIComplete}
         />
       )}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+/**
+ * Start another session for the same child, in the same scenario as the
+ * session we came from (?from=sessionId), then hand over to it.
+ */
+export default function NewSessionPage() {
+  const router = useRouter();
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const startSession = async () => {
+      try {
+        const sessionData = localStorage.getItem('currentSession');
+        const previous = sessionData ? JSON.parse(sessionData) : null;
+        const from = new URLSearchParams(window.location.search).get('from');
+
+        if (!previous?.childId) {
+          router.replace('/parent-dashboard');
+          return;
+        }
+
+        // Reuse the previous session's scenario when we know it
+        let scenario = 'general-exploration';
+        if (from) {
+          const response = await fetch(`/api/sessions/${from}`);
+          if (response.ok) {
+            const data = await response.json();
+            scenario = data.session.scenario;
+          }
+        }
+
+        const response = await fetch('/api/sessions', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ childId: previous.childId, scenario }),
+        });
+
+        if (response.status === 401 || response.status === 403) {
+          // Starting a session needs the parent's login
+          router.replace('/parent-dashboard');
+          return;
+        }
+
+        if (!response.ok) {
+          setError('Could not start a new session.');
+          return;
+        }
+
+        const data = await response.json();
+        localStorage.setItem('currentSession', JSON.stringify({
+          ...previous,
+          openingPrompt: data.openingPrompt,
+        }));
+        router.replace(`/session/${data.session.id}`);
+      } catch (error) {
+        console.error('Failed to start session:', error);
+        setError('Could not start a new session.');
+      }
+    };
+
+    startSession();
+  }, [router]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100 flex items-center justify-center">
+      <div className="text-center">
+        <div className="text-6xl mb-4">{error ? '😕' : '🚀'}</div>
+        <div className="text-2xl text-gray-600">
+          {error || 'Getting a new session ready...'}
+        </div>
+        {error && (
+          <button
+            onClick={() => router.push('/parent-dashboard')}
+            className="mt-6 px-8 py-4 bg-blue-500 text-white rounded-full font-semibold text-lg hover:bg-blue-600 shadow-lg transition"
+          >
+            Back to Dashboard
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
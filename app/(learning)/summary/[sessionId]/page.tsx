@@ -1,14 +1,13 @@
 'use client';
 
-import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
+import { useSessionSummary } from '@/components/learning/useSessionSummary';
 
 interface Summary {
   whatWeTalkedAbout: string;
   wordsYouUsedWell: string[];
   thinkingQuestion: string;
-  parentNotes: string;
 }
 
 interface SummaryPageProps {
@@ -19,38 +18,10 @@ interface SummaryPageProps {
 
 export default function SummaryPage({ params }: SummaryPageProps) {
   const router = useRouter();
-  const [summary, setSummary] = useState<Summary | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const { state, data, retry } = useSessionSummary<{ summary: Summary }>(params.sessionId, 'child');
+  const summary = data?.summary ?? null;
 
-  useEffect(() => {
-    const loadSummary = async () => {
-      try {
-        const response = await fetch(`/api/sessions/${params.sessionId}/summary`);
-        if (response.ok) {
-          const data = await response.json();
-          setSummary(data.summary);
-        } else {
-          // Summary might not exist yet, try generating it
-          const generateResponse = await fetch(
-            `/api/sessions/${params.sessionId}/summary`,
-            { method: 'POST' }
-          );
-          if (generateResponse.ok) {
-            const data = await generateResponse.json();
-            setSummary(data.summary);
-          }
-        }
-      } catch (error) {
-        console.error('Failed to load summary:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadSummary();
-  }, [params.sessionId]);
-
-  if (isLoading) {
+  if (state === 'loading' || state === 'generating') {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100 flex items-center justify-center">
         <div className="text-center">
@@ -67,6 +38,17 @@ export default function SummaryPage({ params }: SummaryPageProps) {
         <div className="text-center">
           <div className="text-6xl mb-4">😕</div>
           <div className="text-2xl text-gray-600">Summary not available</div>
+          {state === 'in-progress' && (
+            <div className="text-lg text-gray-500 mt-2">This session is still going. Its summary is made when it ends.</div>
+          )}
+          {state === 'failed' && (
+            <button
+              onClick={retry}
+              className="mt-6 mr-3 px-6 py-3 bg-purple-500 text-white rounded-full font-semibold hover:bg-purple-600"
+            >
+              Try Again
+            </button>
+          )}
           <button
             onClick={() => router.push('/parent-dashboard')}
             className="mt-6 px-6 py-3 bg-blue-500 text-white rounded-full font-semibold hover:bg-blue-600"
@@ -160,24 +142,6 @@ export default function SummaryPage({ params }: SummaryPageProps) {
           </p>
         </motion.div>
 
-        {/* Parent Notes */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.5 }}
-          className="bg-gray-100 rounded-3xl shadow-xl p-8 mb-6"
-        >
-          <div className="flex items-center gap-3 mb-4">
-            <div className="text-4xl">📝</div>
-            <h2 className="text-2xl font-bold text-gray-800">
-              Notes for Parents
-            </h2>
-          </div>
-          <p className="text-lg text-gray-700 leading-relaxed">
-            {summary.parentNotes}
-          </p>
-        </motion.div>
-
         {/* Actions */}
         <div className="flex gap-4 justify-center">
           <button
@@ -187,7 +151,7 @@ export default function SummaryPage({ params }: SummaryPageProps) {
             Back to Dashboard
           </button>
           <button
-            onClick={() => router.push('/session/new')}
+            onClick={() => router.push(`/session/new?from=${params.sessionId}`)}
             className="px-8 py-4 bg-green-500 text-white rounded-full font-semibold text-lg hover:bg-green-600 shadow-lg transition"
           >
             Start New Session
@@ -3,31 +3,82 @@
  * 
  * This endpoint handles real-time AI voice streaming to the client.
  * It uses Server-Sent Events (SSE) for progressive word-by-word delivery.
+ * Frames are named, id'd events; a dropped client can resume the rest of
+ * an utterance by reconnecting with Last-Event-ID (see GET below).
  * 
  * Flow:
- * 1. Receive child's utterance
- * 2. Run covert reasoning analysis (server-side only)
- * 3. Decide if AI should speak or remain silent
- * 4. If speaking, generate safe, child-appropriate response
- * 5. Stream response word-by-word with natural pacing
+ * 1. Receive child's utterance and screen it: redact personal details,
+ *    notify the parent of safety disclosures, catch prompt injection
+ * 2. Start the model's reply speculatively - it answers the child and
+ *    scaffolds toward the scenario's next unmet learning goal - while the
+ *    covert reasoning analysis runs (server-side only; skipped for trivial
+ *    input)
+ * 3. Decide if AI should speak or remain silent; an unused reply is cancelled
+ * 4. Release each sentence word-by-word once it passes the rolling rule
+ *    guard and the AI safety review, with synthesized speech for the
+ *    sentence when the client wants audio
+ *
+ * A new utterance on the session interrupts the reply in flight, as does
+ * the client disconnecting without resuming; the AI turn is then saved as
+ * interrupted, with only the words that reached the client.
+ *
+ * Model replies are asked to stay inside the target lexicon for the
+ * child's vocabulary level, and checked for words above it afterwards;
+ * what the check found is stored on the AI utterance.
+ *
+ * Per-stage timings for each turn are stored on the child's utterance.
+ * After each turn the session's conversation memory is brought up to date;
+ * replies see it alongside the last few turns, and what the companion
+ * remembers about the child from earlier sessions.
  */
 
 import { NextRequest } from 'next/server';
-import OpenAI from 'openai';
+import { randomUUID } from 'crypto';
 import { prisma } from '@/lib/prisma';
-import { guardContent } from '@/lib/ai/guardrails';
+import { authorizeSession } from '@/lib/auth/authorization';
+import { acceptsUtterances, expireIfIdle } from '@/lib/sessions/lifecycle';
+import { guardStream, reviewStream } from '@/lib/ai/guardrails';
+import { fromEvaluation, fromReview, recordGuardrailIncident } from '@/lib/ai/guardrailIncidents';
+import { InputScreening, isFlagged, screenChildInput } from '@/lib/ai/inputScreening';
+import { getDisclosureResponse } from '@/lib/ai/safeResponses';
+import { notifyParentOfDisclosure } from '@/lib/children/notifications';
 import {
   analyzeUtterance,
   decideScaffolding,
-  updateChildState,
   logReasoningAnalysis,
-  ChildState,
+  precheckUtterance,
 } from '@/lib/ai/reasoningEngine';
-import { generateAnticipatorNudge } from '@/lib/ai/scaffolding';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { commitChildStateUpdate, loadChildState } from '@/lib/ai/learnerState';
+import { loadConversationMemory, updateConversationMemory } from '@/lib/ai/conversationMemory';
+import { describeChildMemory, getChildMemory } from '@/lib/children/memory';
+import { wordsAboveLevel } from '@/lib/ai/lexicon';
+import { computePauseMetrics, parseUtteranceTiming } from '@/lib/ai/timingMetrics';
+import { PipelineTimer, createPipelineTimer, recordPipelineTimings } from '@/lib/ai/pipelineTiming';
+import { prefetchDeltas } from '@/lib/ai/speculative';
+import {
+  generateAnticipatorNudge,
+  getTemplateNudge,
+} from '@/lib/ai/scaffolding';
+import { getScenario, Scenario } from '@/lib/scenarios/catalog';
+import { assessScenarioProgress, ScenarioProgress } from '@/lib/scenarios/progress';
+import { getLLMProvider } from '@/lib/ai/providers';
+import {
+  Provenance,
+  TEMPLATE_PROVENANCE,
+  provenanceFor,
+  renderPrompt,
+} from '@/lib/ai/prompts';
+import { getTextToSpeech, TextToSpeechBackend } from '@/lib/voice';
+import { AIStreamFrame } from '@/lib/sse/events';
+import {
+  InterruptReason,
+  ReplayWriter,
+  interruptReplayStreams,
+  openReplayStream,
+  resumeFromEventId,
+  sseResponse,
+  subscribeReplayStream,
+} from '@/lib/sse/server';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -36,8 +87,9 @@ interface StreamRequest {
   sessionId: string;
   childId: string;
   utterance: string;
-  parentOptIn: boolean;
   timestamp: string;
+  voice?: boolean; // Client can play audio - stream TTS alongside words
+  timing?: unknown; // Measured client-side; drives pause metrics once parsed
 }
 
 /**
@@ -45,83 +97,190 @@ interface StreamRequest {
  * Handles AI voice streaming with SSE
  */
 export async function POST(req: NextRequest) {
-  const encoder = new TextEncoder();
-  
   try {
     const body: StreamRequest = await req.json();
-    const { sessionId, childId, utterance, parentOptIn } = body;
-    
-    // Verify parent has opted in to AI voice
-    if (!parentOptIn) {
-      return new Response(
-        encoder.encode('data: {"type":"silent","reason":"AI voice not enabled"}\n\n'),
-        {
-          headers: {
-            'Content-Type': 'text/event-stream',
-            'Cache-Control': 'no-cache',
-            'Connection': 'keep-alive',
-          },
-        }
+    const { sessionId, utterance, voice } = body;
+    const timing = parseUtteranceTiming(body.timing);
+    
+    // Caller must own the session (parent) or hold its device token
+    const access = await authorizeSession(req, sessionId, { allowDevice: true });
+    
+    if (!access.ok) {
+      return sseResponse(
+        [{ event: 'error', data: { message: access.error } }],
+        { status: access.status }
       );
     }
     
-    // Get child and session data
-    const child = await prisma.child.findUnique({
-      where: { id: childId },
-    });
+    // Session and child come from the authorized session, never the body
+    const { session } = access;
+    const child = session.child;
+    
+    // BARGE-IN - the child speaking again cuts off the reply still playing
+    interruptReplayStreams(sessionId, 'barge-in');
+    
+    // SCREEN CHILD INPUT - before anything is stored or sent to a model
+    const screening = screenChildInput(utterance, { childName: child.name });
+    
+    // Disclosures reach the parent even when AI voice is off
+    if (screening.disclosure) {
+      await notifyParentOfDisclosure(child, sessionId, screening.disclosure, screening.text);
+    }
     
-    if (!child) {
-      throw new Error('Child not found');
+    // AI voice is the parent's setting on the child, never the caller's say
+    if (!child.aiVoiceEnabled) {
+      return sseResponse([
+        { event: 'silent', data: { reason: 'AI voice not enabled' } },
+      ]);
     }
     
-    const session = await prisma.session.findUnique({
-      where: { id: sessionId },
-      include: {
-        utterances: {
+    // Paused, finished or timed-out sessions don't take utterances
+    const status = await expireIfIdle(session);
+    
+    if (!acceptsUtterances(status)) {
+      return sseResponse(
+        [{ event: 'error', data: { message: `Session is ${status}` } }],
+        { status: 409 }
+      );
+    }
+    
+    const timer = createPipelineTimer();
+    const turnAt = new Date();
+    
+    // Deterministic pause/hesitation metrics from real client timing
+    const pauseMetrics = computePauseMetrics(utterance, timing);
+    
+    // Save the child's utterance (redacted) while loading history and state;
+    // history is read as of this turn so it never includes the new one
+    const [
+      recentUtterances,
+      savedUtterance,
+      childState,
+      earlierChildUtterances,
+      earlier,
+      childMemory,
+    ] = await timer.time(
+      'load',
+      Promise.all([
+        prisma.utterance.findMany({
+          where: { sessionId, timestamp: { lt: turnAt } },
           orderBy: { timestamp: 'desc' },
           take: 10,
-        },
-      },
-    });
+        }),
+        prisma.utterance.create({
+          data: {
+            sessionId,
+            speaker: 'child',
+            text: screening.text,
+            metadata: isFlagged(screening)
+              ? JSON.stringify({ screening: screeningMetadata(screening) })
+              : undefined,
+            timestamp: turnAt,
+          },
+        }),
+        loadChildState(sessionId, child),
+        prisma.utterance.findMany({
+          where: { sessionId, speaker: 'child', timestamp: { lt: turnAt } },
+          select: { text: true },
+        }),
+        loadConversationMemory(sessionId),
+        getChildMemory(child.id),
+      ])
+    );
     
-    if (!session) {
-      throw new Error('Session not found');
-    }
+    // A safety disclosure or an injection attempt gets a vetted reply,
+    // never a model one - and the text goes no further
+    const vettedReply =
+      screening.disclosure?.priority === 'high'
+        ? getDisclosureResponse(child.age)
+        : screening.injection.length > 0
+        ? getTemplateNudge('thinking', child.age)
+        : null;
     
-    // Save child's utterance
-    const savedUtterance = await prisma.utterance.create({
-      data: {
+    if (vettedReply) {
+      const writer = openReplayStream<AIStreamFrame>(randomUUID(), sessionId);
+      void produceAIUtterance(
+        writer,
+        { deltas: singleDelta(vettedReply), provenance: TEMPLATE_PROVENANCE },
         sessionId,
-        speaker: 'child',
-        text: utterance,
-        timestamp: new Date(),
-      },
-    });
+        child,
+        voice ? getTextToSpeech() : null
+      ).catch(error => {
+        console.error('Vetted reply error:', error);
+      });
+      return sseResponse(subscribeReplayStream(writer.streamId));
+    }
     
-    // Build child state from session history
-    const previousUtterances = session.utterances.map(u => u.text);
-    const childState: ChildState = {
-      vocabularyLevel: child.vocabularyLevel,
-      recentVocabulary: extractVocabulary(previousUtterances),
-      pauseDurations: [],
-      engagementScore: 70, // Default mid-range
-      hesitationCount: 0,
-      lastUtteranceTime: new Date(),
-      emotionalState: 'engaged',
+    // Where the child is against the scenario's learning goals
+    const previousUtterances = recentUtterances.map(u => u.text).reverse(); // Oldest first
+    const scenario = getScenario(session.scenario);
+    const progress = assessScenarioProgress(scenario, [
+      ...earlierChildUtterances.map(u => u.text),
+      screening.text,
+    ]);
+    
+    // The level's lexicon, plus the words this turn may use anyway: goal
+    // and practice words, and what the child has been saying
+    const allowedWords = [
+      ...(progress.activeGoal?.targetWords ?? []),
+      ...childMemory.practiceWords,
+    ];
+    const lexicon: LexiconCheck = {
+      level: child.vocabularyLevel,
+      allowed: [
+        ...allowedWords,
+        ...childState.recentVocabulary,
+        ...earlierChildUtterances.map(u => u.text),
+        screening.text,
+      ],
     };
     
+    // Trivial utterances (fillers, "yes") skip the model analysis entirely
+    const precheck = precheckUtterance(screening.text, pauseMetrics);
+    
+    // SPECULATIVE REPLY - start it now so its model call overlaps the
+    // analysis; cancelled below if the decision doesn't use it. The reply
+    // answers the child and, when a goal is open, scaffolds toward it.
+    // (Fillers alone are always observed, so nothing is started for them.)
+    const speculation = new AbortController();
+    const speculativeReply: ReplySource | null =
+      precheck && !precheck.shouldIntervene
+        ? null
+        : streamAIResponse(
+            screening.text,
+            previousUtterances,
+            child.age,
+            scenario,
+            progress,
+            {
+              earlier,
+              remembered: describeChildMemory(childMemory),
+              vocabularyLevel: child.vocabularyLevel,
+              allowedWords,
+            },
+            speculation.signal
+          );
+    
     // COVERT REASONING ANALYSIS (server-side only, never exposed)
-    const analysis = await analyzeUtterance(utterance, childState, {
-      sessionId,
-      childAge: child.age,
-      previousUtterances,
-    });
+    const analysis = precheck ?? await timer.time(
+      'analysis',
+      analyzeUtterance(screening.text, childState, {
+        sessionId,
+        childAge: child.age,
+        previousUtterances,
+        pauseMetrics,
+      })
+    );
     
-    // Log analysis for parent review (not shown to child)
-    await logReasoningAnalysis(sessionId, savedUtterance.id, analysis);
+    // Log analysis for parent review (not shown to child) - off the
+    // critical path, nothing below depends on it
+    const analysisLogged = logReasoningAnalysis(sessionId, savedUtterance.id, analysis);
     
-    // Update child state based on analysis
-    const updatedState = updateChildState(childState, analysis);
+    // Update and persist child state based on analysis
+    const updatedState = await timer.time(
+      'state',
+      commitChildStateUpdate(sessionId, child, analysis)
+    );
     
     // Decide if AI should intervene
     const scaffolding = await decideScaffolding(analysis, updatedState, {
@@ -129,157 +288,341 @@ export async function POST(req: NextRequest) {
       scenario: session.scenario,
     });
     
+    // Speaking toward an open goal, or with nothing better to say, uses the
+    // speculative reply; encouragement and the analysis' own suggestion
+    // replace it, and observing drops it
+    const useSpeculative =
+      speculativeReply !== null &&
+      scaffolding.action === 'speak' &&
+      (!!progress.activeGoal || !scaffolding.message);
+    
+    const reply: ReplySource | null = useSpeculative
+      ? speculativeReply
+      : scaffolding.action !== 'observe' && scaffolding.message
+      ? {
+          deltas: singleDelta(scaffolding.message),
+          provenance: scaffolding.provenance ?? TEMPLATE_PROVENANCE,
+        }
+      : null;
+    
+    if (!useSpeculative) {
+      speculation.abort();
+    }
+    
+    // Record timings, then fold older turns into the conversation memory
+    const finishTurn = (outcome: string) =>
+      analysisLogged
+        .then(() =>
+          recordPipelineTimings(
+            savedUtterance.id,
+            timer.snapshot({
+              outcome,
+              analysis: analysis.precheck ?? 'model',
+              speculation: speculativeReply === null ? 'none' : useSpeculative ? 'used' : 'cancelled',
+            })
+          )
+        )
+        .then(() => updateConversationMemory(sessionId, child.age));
+    
     // If no intervention needed, return silent
-    if (scaffolding.action === 'observe') {
-      const stream = new ReadableStream({
-        start(controller) {
-          controller.enqueue(
-            encoder.encode('data: {"type":"silent","reasoning":"observing"}\n\n')
-          );
-          controller.close();
-        },
+    if (!reply) {
+      void finishTurn('silent').catch(error => {
+        console.error('Turn bookkeeping error:', error);
       });
-      
-      return new Response(stream, {
-        headers: {
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
-        },
+      return sseResponse([
+        { event: 'silent', data: { reason: 'observing' } },
+      ]);
+    }
+    
+    // Produce into a replay buffer so a dropped client can resume
+    const writer = openReplayStream<AIStreamFrame>(randomUUID(), sessionId);
+    writer.signal.addEventListener('abort', () => speculation.abort(), { once: true });
+    void produceAIUtterance(writer, reply, sessionId, child, voice ? getTextToSpeech() : null, timer, lexicon)
+      .then(() => finishTurn(writer.signal.aborted ? 'interrupted' : 'reply'))
+      .catch(error => {
+        console.error('AI turn error:', error);
       });
+    
+    return sseResponse(subscribeReplayStream(writer.streamId));
+    
+  } catch (error) {
+    console.error('SSE streaming error:', error);
+    
+    return sseResponse(
+      [{ event: 'error', data: { message: 'Something went wrong. Please try again.' } }],
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/ai/stream
+ * Resume an interrupted AI utterance from the Last-Event-ID header
+ * (or ?lastEventId= for clients that can't set headers)
+ */
+export async function GET(req: NextRequest) {
+  const lastEventId =
+    req.headers.get('last-event-id') ||
+    req.nextUrl.searchParams.get('lastEventId');
+  
+  const resumed = resumeFromEventId(lastEventId);
+  
+  if (!resumed?.scope) {
+    // 204 tells EventSource clients to stop reconnecting
+    return new Response(null, { status: 204 });
+  }
+  
+  // Only the session's owner may pick the stream back up
+  const access = await authorizeSession(req, resumed.scope, { allowDevice: true });
+  
+  if (!access.ok) {
+    await resumed.frames.return(undefined);
+    return new Response(null, { status: access.status });
+  }
+  
+  return sseResponse(resumed.frames);
+}
+
+/**
+ * A reply on its way to the child and the prompt/model producing it
+ */
+interface ReplySource {
+  deltas: AsyncIterable<string>;
+  provenance: Provenance;
+}
+
+/**
+ * The child's vocabulary level, and words a reply may use regardless
+ */
+interface LexiconCheck {
+  level: string;
+  allowed: string[];
+}
+
+/**
+ * Run the guarded model stream and write word events into the replay buffer.
+ * Stops early when the writer is interrupted, keeping only what was heard.
+ * Model text that reaches the end is checked against the lexicon.
+ */
+async function produceAIUtterance(
+  writer: ReplayWriter<AIStreamFrame>,
+  { deltas, provenance }: ReplySource,
+  sessionId: string,
+  child: { id: string; age: number; vocabularyLevel: string },
+  tts: TextToSpeechBackend | null,
+  timer?: PipelineTimer,
+  lexicon?: LexiconCheck
+): Promise<void> {
+  const words: string[] = [];
+  const wordSeqs: number[] = []; // Frame sequence number of each word
+  const childAge = child.age;
+  const startedAt = new Date();
+  
+  const pushWord = (word: string) => {
+    timer?.mark('firstWord');
+    wordSeqs.push(writer.push({ event: 'word', data: { content: word, index: words.length } }));
+    words.push(word);
+  };
+  
+  // Speak a sentence: audio first, so playback and highlighting line up
+  const pushSentence = async (sentence: string) => {
+    if (tts) {
+      try {
+        const speech = await tts.synthesize(sentence);
+        if (writer.signal.aborted) return;
+        writer.push({
+          event: 'audio',
+          data: {
+            audio: speech.audio.toString('base64'),
+            mimeType: speech.mimeType,
+            startIndex: words.length,
+            durationMs: speech.durationMs,
+            timings: speech.words.map(({ startMs, endMs }) => ({ startMs, endMs })),
+          },
+        });
+      } catch (error) {
+        // Text still reaches the child if speech synthesis fails
+        console.error('Text-to-speech error:', error);
+      }
     }
+    sentence.split(/\s+/).filter(Boolean).forEach(pushWord);
+  };
+  
+  try {
+    writer.push({ event: 'start', data: { streamId: writer.streamId } });
     
-    // Generate AI response
-    let aiResponse = scaffolding.message || await generateAIResponse(
-      utterance,
-      previousUtterances,
-      child.age,
-      session.scenario
+    // SAFETY GUARDRAILS - rolling sentence-level rule filter on the live
+    // stream, then the AI review of each sentence the rules let through.
+    // Flagged sentences go to the incident log for parent review
+    const incident = { sessionId, childId: child.id, childAge, source: 'reply' as const };
+    const ruleChecked = guardStream(deltas, (span, evaluation) => {
+      void recordGuardrailIncident(incident, fromEvaluation(span, evaluation));
+    }, childAge);
+    const safeSentences = reviewStream(
+      ruleChecked,
+      { childAge, vocabularyLevel: child.vocabularyLevel },
+      (sentence, review) => {
+        void recordGuardrailIncident(incident, fromReview(sentence, review));
+      }
     );
     
-    // SAFETY GUARDRAILS - filter content
-    const guardResult = await guardContent(aiResponse, {
-      childAge: child.age,
-      vocabularyLevel: child.vocabularyLevel,
-    });
+    // Stream response word-by-word as each safe sentence is released
+    try {
+      for await (const sentence of safeSentences) {
+        if (writer.signal.aborted) break;
+        await pushSentence(sentence);
+      }
+    } catch (error) {
+      // An interruption cancels the model call - that isn't a failure
+      if (!writer.signal.aborted) {
+        console.error('AI response stream error:', error);
+      }
+    }
     
-    if (!guardResult.safe) {
-      console.warn('Content filtered:', guardResult.violations);
-      aiResponse = guardResult.sanitizedContent;
+    if (writer.signal.aborted) {
+      await recordInterruptedUtterance(writer, sessionId, words, wordSeqs, provenance, startedAt);
+      return;
     }
     
-    // Save AI response
+    // Nothing survived the guard (or the model failed) - use a safe fallback
+    const fallback = words.length === 0;
+    if (fallback) {
+      await pushSentence(getTemplateNudge('thinking', childAge));
+    }
+    const source = fallback ? TEMPLATE_PROVENANCE : provenance;
+    const text = words.join(' ');
+    
+    // POST-GENERATION CHECK - flag model words above the child's level
+    const checked = lexicon && source.promptVersion
+      ? { level: lexicon.level, aboveLevel: wordsAboveLevel(text, lexicon.level, lexicon.allowed) }
+      : null;
+    
+    // Save what the child actually heard, and what produced it
+    // (timestamped when the AI started speaking)
     await prisma.utterance.create({
       data: {
         sessionId,
         speaker: 'ai_voice',
-        text: aiResponse,
-        timestamp: new Date(),
-      },
-    });
-    
-    // Stream response word-by-word
-    const stream = new ReadableStream({
-      async start(controller) {
-        const words = aiResponse.split(' ');
-        
-        // Send start event
-        controller.enqueue(
-          encoder.encode('data: {"type":"start"}\n\n')
-        );
-        
-        // Stream each word with natural pacing
-        for (let i = 0; i < words.length; i++) {
-          await new Promise(resolve => setTimeout(resolve, 250)); // 250ms between words
-          
-          controller.enqueue(
-            encoder.encode(`data: {"type":"word","content":"${words[i]}","index":${i}}\n\n`)
-          );
-        }
-        
-        // Send end event
-        controller.enqueue(
-          encoder.encode('data: {"type":"end"}\n\n')
-        );
-        
-        controller.close();
-      },
-    });
-    
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
+        text,
+        promptVersion: source.promptVersion,
+        model: source.model,
+        metadata: checked ? JSON.stringify({ lexicon: checked }) : undefined,
+        timestamp: startedAt,
       },
     });
     
+    writer.push({ event: 'end', data: { wordCount: words.length } });
   } catch (error) {
-    console.error('SSE streaming error:', error);
-    
-    return new Response(
-      encoder.encode(`data: {"type":"error","message":"${error}"}\n\n`),
-      {
-        status: 500,
-        headers: {
-          'Content-Type': 'text/event-stream',
-        },
-      }
-    );
+    console.error('AI utterance producer error:', error);
+    writer.push({ event: 'error', data: { message: 'Something went wrong. Please try again.' } });
+  } finally {
+    writer.close();
   }
 }
 
 /**
- * Generate AI response using OpenAI
+ * Save an interrupted AI turn with only the words a client received.
+ * Its start time keeps it ahead of the utterance that cut it off.
+ * Nothing is saved if no words got out.
+ */
+async function recordInterruptedUtterance(
+  writer: ReplayWriter<AIStreamFrame>,
+  sessionId: string,
+  words: string[],
+  wordSeqs: number[],
+  provenance: Provenance,
+  startedAt: Date
+): Promise<void> {
+  const reached = writer.delivered();
+  const heard = words.filter((_, i) => wordSeqs[i] >= 0 && wordSeqs[i] < reached);
+  
+  writer.push({ event: 'interrupted', data: { wordCount: heard.length } });
+  
+  if (heard.length === 0) return;
+  
+  await prisma.utterance.create({
+    data: {
+      sessionId,
+      speaker: 'ai_voice',
+      text: heard.join(' '),
+      interrupted: true,
+      promptVersion: provenance.promptVersion,
+      model: provenance.model,
+      metadata: JSON.stringify({
+        interruption: {
+          reason: writer.signal.reason as InterruptReason,
+          wordsHeard: heard.length,
+          wordsGenerated: words.length,
+        },
+      }),
+      timestamp: startedAt,
+    },
+  });
+}
+
+/**
+ * Stream AI response deltas from the configured LLM provider
  */
-async function generateAIResponse(
+function streamAIResponse(
   childUtterance: string,
   previousUtterances: string[],
   childAge: number,
-  scenario: string
-): Promise<string> {
-  const conversationContext = previousUtterances.slice(-6).join('\n');
-  
-  const response = await openai.chat.completions.create({
-    model: process.env.OPENAI_MODEL || 'gpt-4',
-    messages: [
-      {
-        role: 'system',
-        content: `You are a warm, encouraging Sesame Street-style AI companion for a ${childAge}-year-old child.
-
-Scenario: ${scenario}
-
-Your responses must:
-- Be short (1-2 sentences max)
-- Use age-appropriate vocabulary
-- Be warm, curious, and encouraging
-- Ask open-ended questions when appropriate
-- NEVER expose internal reasoning or analysis
-- NEVER be negative or corrective
-- Build on what the child said
-
-Recent conversation:
-${conversationContext}`,
-      },
-      {
-        role: 'user',
-        content: childUtterance,
-      },
-    ],
-    max_tokens: 100,
-    temperature: 0.8,
+  scenario: Scenario,
+  progress: ScenarioProgress,
+  {
+    earlier,
+    remembered,
+    vocabularyLevel,
+    allowedWords,
+  }: { earlier?: string; remembered?: string; vocabularyLevel: string; allowedWords: string[] },
+  signal?: AbortSignal
+): ReplySource {
+  const prompt = renderPrompt('reply', {
+    childAge,
+    scenarioTitle: scenario.title,
+    scenarioDescription: scenario.description,
+    activeGoal: progress.activeGoal?.description,
+    targetWords: progress.activeGoal?.targetWords,
+    goalsComplete: progress.complete,
+    earlier,
+    remembered,
+    vocabularyLevel,
+    allowedWords,
+    conversation: previousUtterances,
+    utterance: childUtterance,
   });
   
-  return response.choices[0].message.content?.trim() || "Tell me more!";
+  // Pulled immediately, so generation runs while the analysis does
+  return {
+    deltas: prefetchDeltas(getLLMProvider().stream({
+      task: prompt.task,
+      messages: prompt.messages,
+      variables: prompt.variables,
+      maxTokens: 100,
+      temperature: 0.8,
+      signal,
+    })),
+    provenance: provenanceFor(prompt),
+  };
+}
+
+/**
+ * What screening found, for the utterance's metadata (no original text)
+ */
+function screeningMetadata(screening: InputScreening) {
+  return {
+    redactions: screening.redactions,
+    disclosure: screening.disclosure && {
+      category: screening.disclosure.category,
+      priority: screening.disclosure.priority,
+    },
+    injection: screening.injection.length > 0,
+  };
 }
 
 /**
- * Extract vocabulary from utterances
+ * Wrap already-complete text as a one-delta stream
  */
-function extractVocabulary(utterances: string[]): string[] {
-  const allWords = utterances.join(' ').toLowerCase().split(/\s+/);
-  const uniqueWords = Array.from(new Set(allWords));
-  return uniqueWords
-    .filter(word => word.length > 3) // Filter short words
-    .slice(0, 50); // Keep last 50
+async function* singleDelta(text: string): AsyncIterable<string> {
+  yield text;
 }
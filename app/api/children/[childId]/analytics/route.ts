@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accessDenied, authorizeChild } from '@/lib/auth/authorization';
+import { getChildAnalytics, parseAnalyticsRange } from '@/lib/children/analytics';
+
+/**
+ * GET /api/children/[childId]/analytics?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Weekly vocabulary growth, complexity, engagement, hesitation and session
+ * length for one child (defaults to the last 12 weeks)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { childId: string } }
+) {
+  try {
+    const access = await authorizeChild(req, params.childId);
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    const { searchParams } = new URL(req.url);
+    const parsed = parseAnalyticsRange(searchParams.get('from'), searchParams.get('to'));
+    
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    
+    const analytics = await getChildAnalytics(params.childId, parsed.range);
+    
+    return NextResponse.json({ analytics });
+    
+  } catch (error) {
+    console.error('Child analytics error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load analytics' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accessDenied, authorizeChild } from '@/lib/auth/authorization';
+import { getChildMemory, saveChildMemory } from '@/lib/children/memory';
+import { childMemorySchema, describeValidationError } from '@/lib/children/validation';
+
+/**
+ * GET /api/children/[childId]/memory
+ * What the companion remembers about the child across sessions
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { childId: string } }
+) {
+  try {
+    const access = await authorizeChild(req, params.childId);
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    return NextResponse.json({ memory: await getChildMemory(params.childId) });
+    
+  } catch (error) {
+    console.error('Child memory retrieval error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve memory' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/children/[childId]/memory
+ * Replace the memory with the parent's edited version
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { childId: string } }
+) {
+  try {
+    const access = await authorizeChild(req, params.childId);
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    const parsed = childMemorySchema.safeParse(await req.json());
+    
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid memory', details: describeValidationError(parsed.error) },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json({ memory: await saveChildMemory(params.childId, parsed.data) });
+    
+  } catch (error) {
+    console.error('Child memory update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update memory' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/children/[childId]/memory
+ * Forget everything remembered so far (later sessions start adding again)
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { childId: string } }
+) {
+  try {
+    const access = await authorizeChild(req, params.childId);
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    const memory = await saveChildMemory(params.childId, {
+      favoriteTopics: [],
+      characters: [],
+      practiceWords: [],
+      lastThinkingQuestion: null,
+    });
+    
+    return NextResponse.json({ memory });
+    
+  } catch (error) {
+    console.error('Child memory clear error:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear memory' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { accessDenied, authorizeChild } from '@/lib/auth/authorization';
+import { auditEntries } from '@/lib/children/audit';
+import { describeValidationError, updateChildSchema } from '@/lib/children/validation';
+
+const AUDIT_LOG_LIMIT = 50;
+
+/**
+ * GET /api/children/[childId]
+ * Get one child profile with its settings audit log
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { childId: string } }
+) {
+  try {
+    const access = await authorizeChild(req, params.childId);
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    const auditLog = await prisma.childAuditLog.findMany({
+      where: { childId: params.childId },
+      orderBy: { createdAt: 'desc' },
+      take: AUDIT_LOG_LIMIT,
+    });
+    
+    return NextResponse.json({ child: access.child, auditLog });
+    
+  } catch (error) {
+    console.error('Child retrieval error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve child' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/children/[childId]
+ * Update child settings (whitelisted fields only)
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { childId: string } }
+) {
+  try {
+    const access = await authorizeChild(req, params.childId);
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    const parsed = updateChildSchema.safeParse(await req.json());
+    
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid update', details: describeValidationError(parsed.error) },
+        { status: 400 }
+      );
+    }
+    
+    // Only the owning parent gets this far, so they are the actor
+    const { child } = access;
+    const actorId = child.parentId;
+    
+    // Apply the change and log consent/level changes atomically
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.child.update({
+        where: { id: child.id },
+        data: parsed.data,
+      });
+      
+      await tx.childAuditLog.createMany({
+        data: auditEntries(child.id, actorId, child, parsed.data),
+      });
+      
+      return result;
+    });
+    
+    return NextResponse.json({ child: updated });
+    
+  } catch (error) {
+    console.error('Child update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update child' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/children/[childId]
+ * Delete a child profile and all of its sessions
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { childId: string } }
+) {
+  try {
+    const access = await authorizeChild(req, params.childId);
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    const { child } = access;
+    const actorId = child.parentId;
+    
+    await prisma.$transaction([
+      prisma.child.delete({ where: { id: child.id } }),
+      prisma.childAuditLog.createMany({
+        data: auditEntries(child.id, actorId, child, null),
+      }),
+    ]);
+    
+    return NextResponse.json({ deleted: true });
+    
+  } catch (error) {
+    console.error('Child deletion error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete child' },
+      { status: 500 }
+    );
+  }
+}
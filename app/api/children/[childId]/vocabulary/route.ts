@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accessDenied, authorizeChild } from '@/lib/auth/authorization';
+import {
+  decideLevelSuggestion,
+  getPendingSuggestion,
+  measureVocabulary,
+  replyLexiconStats,
+  toSuggestionView,
+} from '@/lib/children/vocabulary';
+import { describeValidationError, levelDecisionSchema } from '@/lib/children/validation';
+
+/**
+ * GET /api/children/[childId]/vocabulary
+ * The child's level, their measured vocabulary, any level change waiting
+ * on the parent, and how recent replies fared against the level
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { childId: string } }
+) {
+  try {
+    const access = await authorizeChild(req, params.childId);
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    const { child } = access;
+    const [measurement, suggestion, replies] = await Promise.all([
+      measureVocabulary(child.id),
+      getPendingSuggestion(child),
+      replyLexiconStats(child.id),
+    ]);
+    
+    return NextResponse.json({
+      level: child.vocabularyLevel,
+      measurement,
+      suggestion: suggestion && toSuggestionView(suggestion),
+      replies,
+    });
+    
+  } catch (error) {
+    console.error('Vocabulary retrieval error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve vocabulary' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/children/[childId]/vocabulary
+ * Decide on a suggested level change: { suggestionId, decision: 'approve' | 'decline' }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { childId: string } }
+) {
+  try {
+    const access = await authorizeChild(req, params.childId);
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    const parsed = levelDecisionSchema.safeParse(await req.json());
+    
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid decision', details: describeValidationError(parsed.error) },
+        { status: 400 }
+      );
+    }
+    
+    // Only the owning parent gets this far, so they are the actor
+    const { child } = access;
+    const result = await decideLevelSuggestion(
+      child,
+      parsed.data.suggestionId,
+      parsed.data.decision,
+      child.parentId
+    );
+    
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+    
+    return NextResponse.json({
+      child: result.child,
+      suggestion: toSuggestionView(result.suggestion),
+    });
+    
+  } catch (error) {
+    console.error('Vocabulary level decision error:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply decision' },
+      { status: 500 }
+    );
+  }
+}
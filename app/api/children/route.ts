@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { prisma } from '@/lib/prisma';
+import { accessDenied, authorizeParent } from '@/lib/auth/authorization';
+import { auditEntries } from '@/lib/children/audit';
+import { createChildSchema, describeValidationError } from '@/lib/children/validation';
 
 /**
  * GET /api/children
@@ -9,17 +10,14 @@ import { prisma } from '@/lib/prisma';
  */
 export async function GET(req: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
+    const access = await authorizeParent(req);
     
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    if (!access.ok) {
+      return accessDenied(access);
     }
     
     const children = await prisma.child.findMany({
-      where: { parentId: session.user.id },
+      where: { parentId: access.parentId },
       orderBy: { createdAt: 'asc' },
     });
     
@@ -40,33 +38,35 @@ export async function GET(req: NextRequest) {
  */
 export async function POST(req: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
+    const access = await authorizeParent(req);
     
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    if (!access.ok) {
+      return accessDenied(access);
     }
     
-    const body = await req.json();
-    const { name, age, vocabularyLevel, aiVoiceEnabled } = body;
+    const parsed = createChildSchema.safeParse(await req.json());
     
-    if (!name || !age) {
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'Missing required fields' },
+        { error: 'Invalid child profile', details: describeValidationError(parsed.error) },
         { status: 400 }
       );
     }
     
-    const child = await prisma.child.create({
-      data: {
-        name,
-        age: parseInt(age),
-        vocabularyLevel: vocabularyLevel || 'beginner',
-        aiVoiceEnabled: aiVoiceEnabled || false,
-        parentId: session.user.id,
-      },
+    // Create the child and record the initial consent/level together
+    const child = await prisma.$transaction(async (tx) => {
+      const created = await tx.child.create({
+        data: {
+          ...parsed.data,
+          parentId: access.parentId,
+        },
+      });
+      
+      await tx.childAuditLog.createMany({
+        data: auditEntries(created.id, access.parentId, null, created),
+      });
+      
+      return created;
     });
     
     return NextResponse.json({ child });
@@ -79,52 +79,3 @@ export async function POST(req: NextRequest) {
     );
   }
 }
-
-/**
- * PATCH /api/children/[childId]
- * Update child settings
- */
-export async function PATCH(req: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-    
-    const body = await req.json();
-    const { childId, ...updates } = body;
-    
-    // Verify child belongs to parent
-    const child = await prisma.child.findFirst({
-      where: {
-        id: childId,
-        parentId: session.user.id,
-      },
-    });
-    
-    if (!child) {
-      return NextResponse.json(
-        { error: 'Child not found' },
-        { status: 404 }
-      );
-    }
-    
-    const updated = await prisma.child.update({
-      where: { id: childId },
-      data: updates,
-    });
-    
-    return NextResponse.json({ child: updated });
-    
-  } catch (error) {
-    console.error('Child update error:', error);
-    return NextResponse.json(
-      { error: 'Failed to update child' },
-      { status: 500 }
-    );
-  }
-}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import {
+  accessDenied,
+  authorizeChild,
+  authorizeParent,
+  isAdmin,
+} from '@/lib/auth/authorization';
+import { REVIEW_STATUSES, toIncidentView } from '@/lib/ai/guardrailIncidents';
+
+const reviewSchema = z.strictObject({
+  reviewStatus: z.enum(REVIEW_STATUSES),
+  reviewNote: z.string().trim().max(1000).optional(),
+});
+
+/**
+ * PATCH /api/guardrails/incidents/[incidentId]
+ * Review an incident: { reviewStatus: 'confirmed' | 'false_positive' | 'pending', reviewNote? }
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { incidentId: string } }
+) {
+  try {
+    const parentAccess = await authorizeParent(req);
+    
+    if (!parentAccess.ok) {
+      return accessDenied(parentAccess);
+    }
+    
+    const incident = await prisma.guardrailIncident.findUnique({
+      where: { id: params.incidentId },
+    });
+    
+    if (!incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+    }
+    
+    // Admins review anything; parents only their own children's incidents
+    if (!(await isAdmin(parentAccess.principal))) {
+      const access = await authorizeChild(req, incident.childId);
+      if (!access.ok) {
+        return NextResponse.json({ error: 'Incident not found' }, { status: 404 });
+      }
+    }
+    
+    const parsed = reviewSchema.safeParse(await req.json());
+    
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `reviewStatus must be one of ${REVIEW_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    const updated = await prisma.guardrailIncident.update({
+      where: { id: incident.id },
+      data: {
+        reviewStatus: parsed.data.reviewStatus,
+        reviewNote: parsed.data.reviewNote ?? incident.reviewNote,
+        reviewedBy: parentAccess.parentId,
+        reviewedAt: new Date(),
+      },
+    });
+    
+    return NextResponse.json({ incident: toIncidentView(updated) });
+    
+  } catch (error) {
+    console.error('Guardrail incident review error:', error);
+    return NextResponse.json(
+      { error: 'Failed to review incident' },
+      { status: 500 }
+    );
+  }
+}
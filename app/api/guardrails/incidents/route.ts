@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  accessDenied,
+  authorizeChild,
+  authorizeParent,
+  isAdmin,
+} from '@/lib/auth/authorization';
+import {
+  REVIEW_STATUSES,
+  ReviewStatus,
+  exportIncidentsCsv,
+  toIncidentView,
+} from '@/lib/ai/guardrailIncidents';
+
+const PAGE_LIMIT = 200;
+
+/**
+ * GET /api/guardrails/incidents?childId=xxx&status=pending&format=csv
+ * List blocked/rewritten outputs for review. Parents see their own child's
+ * incidents (childId required); admins may omit childId to see everything.
+ * The JSON list holds the newest PAGE_LIMIT incidents. format=csv downloads
+ * every matching incident as a spreadsheet; X-Total-Count says how many.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const childId = searchParams.get('childId');
+    const status = searchParams.get('status');
+    const format = searchParams.get('format') || 'json';
+    
+    const parentAccess = await authorizeParent(req);
+    
+    if (!parentAccess.ok) {
+      return accessDenied(parentAccess);
+    }
+    
+    const admin = await isAdmin(parentAccess.principal);
+    
+    if (childId && !admin) {
+      const access = await authorizeChild(req, childId);
+      if (!access.ok) {
+        return accessDenied(access);
+      }
+    } else if (!childId && !admin) {
+      return NextResponse.json(
+        { error: 'childId required' },
+        { status: 400 }
+      );
+    }
+    
+    if (status && !REVIEW_STATUSES.includes(status as ReviewStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of ${REVIEW_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    const where = {
+      ...(childId ? { childId } : {}),
+      ...(status ? { reviewStatus: status } : {}),
+    };
+    
+    if (format === 'csv') {
+      const total = await prisma.guardrailIncident.count({ where });
+      return new NextResponse(csvStream(exportIncidentsCsv(where)), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="guardrail-incidents${childId ? `-${childId}` : ''}.csv"`,
+          'X-Total-Count': String(total),
+        },
+      });
+    }
+    
+    const incidents = await prisma.guardrailIncident.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: PAGE_LIMIT,
+    });
+    const views = incidents.map(toIncidentView);
+    
+    return NextResponse.json({ incidents: views });
+    
+  } catch (error) {
+    console.error('Guardrail incident retrieval error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve incidents' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Byte stream for the CSV chunks, read as the client downloads
+ */
+function csvStream(chunks: AsyncGenerator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const result = await chunks.next();
+        if (result.done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(result.value));
+      } catch (error) {
+        console.error('Guardrail incident export error:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
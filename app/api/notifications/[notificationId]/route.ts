@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { accessDenied, authorizeParent } from '@/lib/auth/authorization';
+
+/**
+ * PATCH /api/notifications/[notificationId]
+ * Mark a notification as read
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { notificationId: string } }
+) {
+  try {
+    const access = await authorizeParent(req);
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    const { count } = await prisma.parentNotification.updateMany({
+      where: { id: params.notificationId, parentId: access.parentId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    
+    const notification = await prisma.parentNotification.findFirst({
+      where: { id: params.notificationId, parentId: access.parentId },
+    });
+    
+    if (!notification) {
+      return NextResponse.json({ error: 'Notification not found' }, { status: 404 });
+    }
+    
+    return NextResponse.json({ notification, updated: count > 0 });
+    
+  } catch (error) {
+    console.error('Notification update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notification' },
+      { status: 500 }
+    );
+  }
+}
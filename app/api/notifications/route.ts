@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { accessDenied, authorizeParent } from '@/lib/auth/authorization';
+
+/**
+ * GET /api/notifications?unread=true
+ * The signed-in parent's notifications, high priority first
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const access = await authorizeParent(req);
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    const unreadOnly = new URL(req.url).searchParams.get('unread') === 'true';
+    
+    const notifications = await prisma.parentNotification.findMany({
+      where: {
+        parentId: access.parentId,
+        ...(unreadOnly ? { readAt: null } : {}),
+      },
+      // 'high' sorts before 'normal'
+      orderBy: [{ priority: 'asc' }, { createdAt: 'desc' }],
+      take: 50,
+    });
+    
+    return NextResponse.json({ notifications });
+    
+  } catch (error) {
+    console.error('Notification retrieval error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve notifications' },
+      { status: 500 }
+    );
+  }
+}
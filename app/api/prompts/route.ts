@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { accessDenied, authorizeParent, isAdmin } from '@/lib/auth/authorization';
+import { listPrompts } from '@/lib/ai/prompts';
+import { getStructuredOutputStats } from '@/lib/ai/structuredOutput';
+
+/**
+ * GET /api/prompts
+ * Admins only: every prompt with its versions, the active one, and how
+ * much stored output each prompt version/model produced, and how often its
+ * JSON output needed repair or failed validation - for comparing behavior
+ * before and after a change
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const access = await authorizeParent(req);
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    if (!(await isAdmin(access.principal))) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+    
+    const [utterances, summaries, parentSummaries] = await Promise.all([
+      prisma.utterance.groupBy({
+        by: ['promptVersion', 'model', 'speaker'],
+        _count: { _all: true },
+        where: { promptVersion: { not: null } },
+      }),
+      prisma.session.groupBy({
+        by: ['summaryPromptVersion', 'summaryModel'],
+        _count: { _all: true },
+        where: { summaryPromptVersion: { not: null } },
+      }),
+      prisma.session.groupBy({
+        by: ['parentSummaryPromptVersion', 'parentSummaryModel'],
+        _count: { _all: true },
+        where: { parentSummaryPromptVersion: { not: null } },
+      }),
+    ]);
+    
+    return NextResponse.json({
+      prompts: listPrompts(),
+      usage: [
+        ...utterances.map(row => ({
+          promptVersion: row.promptVersion,
+          model: row.model,
+          output: row.speaker === 'child' ? 'analysis' : 'utterance',
+          count: row._count._all,
+        })),
+        ...summaries.map(row => ({
+          promptVersion: row.summaryPromptVersion,
+          model: row.summaryModel,
+          output: 'summary',
+          count: row._count._all,
+        })),
+        ...parentSummaries.map(row => ({
+          promptVersion: row.parentSummaryPromptVersion,
+          model: row.parentSummaryModel,
+          output: 'parent-summary',
+          count: row._count._all,
+        })),
+      ],
+      // Since this server process started
+      structuredOutput: getStructuredOutputStats(),
+    });
+    
+  } catch (error) {
+    console.error('Prompt registry retrieval error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve prompts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listScenarios } from '@/lib/scenarios/catalog';
+
+/**
+ * GET /api/scenarios?age=5
+ * List learning scenarios, optionally only those suited to a child's age
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const ageParam = searchParams.get('age');
+    const age = ageParam ? parseInt(ageParam) : undefined;
+    
+    if (age !== undefined && isNaN(age)) {
+      return NextResponse.json(
+        { error: 'age must be a number' },
+        { status: 400 }
+      );
+    }
+    
+    const scenarios = listScenarios(age).map(scenario => ({
+      id: scenario.id,
+      title: scenario.title,
+      emoji: scenario.emoji,
+      description: scenario.description,
+      ageRange: scenario.ageRange,
+      goals: scenario.goals.map(({ id, description }) => ({ id, description })),
+      targetVocabulary: scenario.targetVocabulary,
+    }));
+    
+    return NextResponse.json({ scenarios });
+    
+  } catch (error) {
+    console.error('Scenario listing error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list scenarios' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accessDenied, authorizeSession } from '@/lib/auth/authorization';
+import { MAX_UPLOAD_BYTES, appendAudioChunk, readBodyWithin } from '@/lib/voice/uploads';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/sessions/[sessionId]/audio?uploadId=xxx&index=n
+ * Upload one chunk of the child's recorded speech (raw audio body)
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const { sessionId } = params;
+    const uploadId = req.nextUrl.searchParams.get('uploadId');
+    const index = Number(req.nextUrl.searchParams.get('index'));
+    const mimeType = req.headers.get('content-type') || 'audio/webm';
+    
+    const access = await authorizeSession(req, sessionId, { allowDevice: true });
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    if (!uploadId || !Number.isInteger(index) || index < 0) {
+      return NextResponse.json(
+        { error: 'uploadId and index required' },
+        { status: 400 }
+      );
+    }
+    
+    // No chunk may be bigger than a whole upload; refuse before reading
+    const declared = Number(req.headers.get('content-length'));
+    const chunk = declared > MAX_UPLOAD_BYTES
+      ? null
+      : await readBodyWithin(req.body, MAX_UPLOAD_BYTES);
+    
+    if (!chunk) {
+      return NextResponse.json(
+        { error: 'Upload too large' },
+        { status: 413 }
+      );
+    }
+    
+    const result = appendAudioChunk(uploadId, sessionId, index, mimeType, chunk);
+    
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+    
+    return NextResponse.json({ received: { chunks: result.chunks, bytes: result.bytes } });
+    
+  } catch (error) {
+    console.error('Audio upload error:', error);
+    return NextResponse.json(
+      { error: 'Failed to store audio chunk' },
+      { status: 500 }
+    );
+  }
+}
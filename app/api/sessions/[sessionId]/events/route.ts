@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accessDenied, authorizeSession } from '@/lib/auth/authorization';
+import { subscribeSessionEvents } from '@/lib/sessions/silenceWatcher';
+import { sseResponse } from '@/lib/sse/server';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 15000;
+
+/**
+ * GET /api/sessions/[sessionId]/events
+ * Long-lived SSE channel for server-initiated events (silence nudges)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const { sessionId } = params;
+    
+    const access = await authorizeSession(req, sessionId, { allowDevice: true });
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    const { session } = access;
+    
+    if (session.status !== 'active') {
+      return sseResponse([{ event: 'closed', data: { status: session.status } }]);
+    }
+    
+    return sseResponse(subscribeSessionEvents(sessionId, req.signal), {
+      heartbeatMs: HEARTBEAT_MS,
+    });
+    
+  } catch (error) {
+    console.error('Session events error:', error);
+    return NextResponse.json(
+      { error: 'Failed to open session events' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { accessDenied, authorizeSession } from '@/lib/auth/authorization';
+import {
+  SessionStatus,
+  ensureIdleSweeper,
+  expireIfIdle,
+  transitionSession,
+} from '@/lib/sessions/lifecycle';
+import { requestSummary, toSummaryJobView } from '@/lib/sessions/summaryJobs';
+
+export const runtime = 'nodejs';
+
+const actionSchema = z.strictObject({
+  action: z.enum(['pause', 'resume', 'complete', 'abandon']),
+});
+
+// Lifecycle actions and the status each one moves the session to
+const ACTIONS: Record<z.infer<typeof actionSchema>['action'], SessionStatus> = {
+  pause: 'paused',
+  resume: 'active',
+  complete: 'completed',
+  abandon: 'abandoned',
+};
+
+/**
+ * GET /api/sessions/[sessionId]
+ * Get a session with its transcript
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    ensureIdleSweeper();
+    
+    const access = await authorizeSession(req, params.sessionId, { allowDevice: true });
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    const { session } = access;
+    const status = await expireIfIdle(session);
+    
+    // Transcript only - reasoning metadata never leaves the server
+    const utterances = await prisma.utterance.findMany({
+      where: { sessionId: session.id },
+      orderBy: { timestamp: 'asc' },
+      select: { id: true, speaker: true, text: true, interrupted: true, timestamp: true },
+    });
+    
+    return NextResponse.json({
+      session: {
+        id: session.id,
+        childId: session.childId,
+        scenario: session.scenario,
+        status,
+        startedAt: session.startedAt,
+        completedAt: session.completedAt,
+        child: {
+          id: session.child.id,
+          name: session.child.name,
+          aiVoiceEnabled: session.child.aiVoiceEnabled,
+        },
+        utterances,
+      },
+    });
+    
+  } catch (error) {
+    console.error('Session retrieval error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve session' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/sessions/[sessionId]
+ * Pause, resume, end or abandon a session:
+ * { action: 'pause' | 'resume' | 'complete' | 'abandon' }.
+ * Ending it ('complete') also queues its summaries.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const access = await authorizeSession(req, params.sessionId, { allowDevice: true });
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    const parsed = actionSchema.safeParse(await req.json());
+    
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'action must be one of pause, resume, complete, abandon' },
+        { status: 400 }
+      );
+    }
+    
+    // A stale session times out rather than being resumed
+    await expireIfIdle(access.session);
+    
+    const result = await transitionSession(params.sessionId, ACTIONS[parsed.data.action]);
+    
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: `Cannot ${parsed.data.action} a ${result.status} session`, status: result.status },
+        { status: 409 }
+      );
+    }
+    
+    const job = parsed.data.action === 'complete'
+      ? await requestSummary(params.sessionId)
+      : null;
+    
+    return NextResponse.json({
+      session: {
+        id: result.session.id,
+        status: result.session.status,
+        completedAt: result.session.completedAt,
+      },
+      job: job && toSummaryJobView(job),
+    });
+    
+  } catch (error) {
+    console.error('Session update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update session' },
+      { status: 500 }
+    );
+  }
+}
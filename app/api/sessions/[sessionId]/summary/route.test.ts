@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const { getServerSession, prisma } = vi.hoisted(() => ({
+  getServerSession: vi.fn(),
+  prisma: {
+    session: { findUnique: vi.fn(), updateMany: vi.fn() },
+    utterance: { findFirst: vi.fn() },
+    summaryJob: { findUnique: vi.fn(), create: vi.fn() },
+  },
+}));
+
+vi.mock('next-auth', () => ({ getServerSession }));
+vi.mock('@/app/api/auth/[...nextauth]/route', () => ({ authOptions: {} }));
+vi.mock('@/lib/prisma', () => ({ prisma }));
+
+import { GET, POST } from './route';
+
+const params = { params: { sessionId: 'session-a' } };
+
+function withStatus(status: string) {
+  prisma.session.findUnique.mockResolvedValue({
+    id: 'session-a',
+    childId: 'child-a',
+    status,
+    updatedAt: new Date(),
+    summary: null,
+    parentSummary: null,
+    child: { id: 'child-a', parentId: 'parent-a' },
+  });
+}
+
+const request = (method: string, url = 'http://localhost/api/sessions/session-a/summary') =>
+  new NextRequest(url, { method });
+
+describe('session summary route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getServerSession.mockResolvedValue({ user: { id: 'parent-a' } });
+    prisma.utterance.findFirst.mockResolvedValue(null);
+    prisma.summaryJob.findUnique.mockResolvedValue(null);
+  });
+
+  it('refuses to summarize a running session, and leaves it running', async () => {
+    withStatus('active');
+
+    const response = await POST(request('POST'), params);
+
+    expect(response.status).toBe(409);
+    expect(prisma.session.updateMany).not.toHaveBeenCalled();
+    expect(prisma.summaryJob.create).not.toHaveBeenCalled();
+  });
+
+  it('tells a reader that a running session has no summary yet', async () => {
+    withStatus('paused');
+
+    const response = await GET(request('GET'), params);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ finished: false });
+    expect(prisma.session.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('says a finished session can be summarized', async () => {
+    withStatus('abandoned');
+
+    const response = await GET(request('GET'), params);
+
+    expect(await response.json()).toMatchObject({ finished: true });
+  });
+});
@@ -1,14 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import OpenAI from 'openai';
+import { accessDenied, authorizeSession } from '@/lib/auth/authorization';
+import { SessionStatus, expireIfIdle, isFinal } from '@/lib/sessions/lifecycle';
+import { ParentSummary, readChildSummary } from '@/lib/ai/sessionSummary';
+import { getSummaryJob, requestSummary, toSummaryJobView } from '@/lib/sessions/summaryJobs';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+const requestSchema = z.strictObject({
+  regenerate: z.boolean().optional(),
 });
 
+type SummaryView = 'child' | 'parent';
+
+function summaryView(req: NextRequest): SummaryView {
+  return new URL(req.url).searchParams.get('view') === 'parent' ? 'parent' : 'child';
+}
+
+/**
+ * The parent report plus the utterances its claims cite
+ */
+async function withEvidence(parentSummary: ParentSummary) {
+  const ids = new Set([
+    ...parentSummary.wordsUsedWell.flatMap(claim => claim.utteranceIds),
+    ...parentSummary.thinkingMoments.flatMap(claim => claim.utteranceIds),
+  ]);
+  
+  const evidence = await prisma.utterance.findMany({
+    where: { id: { in: Array.from(ids) } },
+    orderBy: { timestamp: 'asc' },
+    select: { id: true, text: true, timestamp: true },
+  });
+  
+  return { summary: parentSummary, evidence };
+}
+
 /**
  * POST /api/sessions/[sessionId]/summary
- * Generate pedagogical summary after session ends
+ * Queue the summaries of a finished session (the child's summary and the
+ * parent's evidence-linked report); a running session is refused with 409 -
+ * end it first (PATCH ../ { action: 'complete' }). Safe to repeat: an
+ * existing job is returned as-is. { regenerate: true } (parents only) replaces finished
+ * summaries. Poll ./summary/status for progress.
  */
 export async function POST(
   req: NextRequest,
@@ -17,89 +49,58 @@ export async function POST(
   try {
     const { sessionId } = params;
     
-    const session = await prisma.session.findUnique({
-      where: { id: sessionId },
-      include: {
-        utterances: {
-          orderBy: { timestamp: 'asc' },
-        },
-        child: true,
-      },
-    });
-    
-    if (!session) {
-      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    const access = await authorizeSession(req, sessionId, { allowDevice: true });
+    
+    if (!access.ok) {
+      return accessDenied(access);
     }
     
-    // Extract conversation
-    const childUtterances = session.utterances
-      .filter(u => u.speaker === 'child')
-      .map(u => u.text);
-    
-    const aiUtterances = session.utterances
-      .filter(u => u.speaker === 'ai_voice')
-      .map(u => u.text);
-    
-    // Generate summary using AI
-    const response = await openai.chat.completions.create({
-      model: process.env.OPENAI_MODEL || 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `You are creating a warm, encouraging summary of a learning session for a ${session.child.age}-year-old child.
-
-Create a JSON summary with these sections:
-{
-  "whatWeTalkedAbout": "2-3 sentences about the main topics explored",
-  "wordsYouUsedWell": ["word1", "word2", "word3"],
-  "thinkingQuestion": "An open-ended question to extend learning",
-  "parentNotes": "Brief pedagogical insights for the parent"
-}
-
-Focus on:
-- Positive framing
-- Vocabulary growth
-- Critical thinking moments
-- Curiosity and engagement
-
-Child said: ${childUtterances.join(' | ')}
-AI said: ${aiUtterances.join(' | ')}`,
-        },
-        {
-          role: 'user',
-          content: 'Generate the session summary.',
-        },
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.7,
-    });
-    
-    const summary = JSON.parse(response.choices[0].message.content || '{}');
-    
-    // Update session with summary
-    await prisma.session.update({
-      where: { id: sessionId },
-      data: {
-        summary: JSON.stringify(summary),
-        status: 'completed',
-        completedAt: new Date(),
-      },
-    });
-    
-    return NextResponse.json({ summary });
+    // Body is optional
+    const parsed = requestSchema.safeParse(await req.json().catch(() => ({})));
+    
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+    }
+    
+    const { regenerate = false } = parsed.data;
+    
+    if (regenerate && access.principal.kind !== 'parent') {
+      return NextResponse.json(
+        { error: 'Only a parent can regenerate summaries' },
+        { status: 403 }
+      );
+    }
+    
+    // Asking for a summary never ends a session; a stale one times out here
+    const status = await expireIfIdle(access.session);
+    
+    if (!isFinal(status as SessionStatus)) {
+      return NextResponse.json(
+        { error: 'Session is still running', status },
+        { status: 409 }
+      );
+    }
+    
+    const job = await requestSummary(sessionId, { regenerate });
+    
+    return NextResponse.json({ job: toSummaryJobView(job) }, { status: 202 });
     
   } catch (error) {
-    console.error('Summary generation error:', error);
+    console.error('Summary request error:', error);
     return NextResponse.json(
-      { error: 'Failed to generate summary' },
+      { error: 'Failed to request summary' },
       { status: 500 }
     );
   }
 }
 
 /**
- * GET /api/sessions/[sessionId]/summary
- * Retrieve existing summary
+ * GET /api/sessions/[sessionId]/summary?view=child|parent
+ * Retrieve the child's summary, or (parents only) the parent report with
+ * the utterances it cites. While it is still being made: 202 with the job;
+ * if generation failed: 502 with the job (POST again to retry). A 404 says
+ * whether the session has finished (POST to make the summary) or is still
+ * running.
  */
 export async function GET(
   req: NextRequest,
@@ -107,26 +108,45 @@ export async function GET(
 ) {
   try {
     const { sessionId } = params;
+    const view = summaryView(req);
+    
+    const access = await authorizeSession(req, sessionId, { allowDevice: view === 'child' });
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
     
-    const session = await prisma.session.findUnique({
-      where: { id: sessionId },
-      select: {
-        summary: true,
-        status: true,
-      },
-    });
+    const { session } = access;
     
-    if (!session) {
-      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    if (view === 'parent' && session.parentSummary) {
+      return NextResponse.json(await withEvidence(JSON.parse(session.parentSummary)));
     }
     
-    if (!session.summary) {
-      return NextResponse.json({ error: 'Summary not yet generated' }, { status: 404 });
+    const summary = view === 'child' && session.summary ? readChildSummary(session.summary) : null;
+    
+    if (summary) {
+      return NextResponse.json({ summary });
+    }
+    
+    const job = await getSummaryJob(sessionId);
+    
+    if (job && (job.status === 'pending' || job.status === 'running')) {
+      return NextResponse.json({ job: toSummaryJobView(job) }, { status: 202 });
     }
     
-    const summary = JSON.parse(session.summary);
+    if (job?.status === 'failed') {
+      return NextResponse.json(
+        { error: 'Summary could not be generated. Please try again.', retryable: true, job: toSummaryJobView(job) },
+        { status: 502 }
+      );
+    }
+    
+    const status = await expireIfIdle(session);
     
-    return NextResponse.json({ summary });
+    return NextResponse.json(
+      { error: 'Summary not yet generated', finished: isFinal(status as SessionStatus) },
+      { status: 404 }
+    );
     
   } catch (error) {
     console.error('Summary retrieval error:', error);
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accessDenied, authorizeSession } from '@/lib/auth/authorization';
+import { getSummaryJob, toSummaryJobView } from '@/lib/sessions/summaryJobs';
+
+/**
+ * GET /api/sessions/[sessionId]/summary/status
+ * Where the session's summary job is: pending, running, done or failed
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const access = await authorizeSession(req, params.sessionId, { allowDevice: true });
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    const job = await getSummaryJob(params.sessionId);
+    
+    if (!job) {
+      return NextResponse.json({ error: 'No summary requested' }, { status: 404 });
+    }
+    
+    return NextResponse.json({ job: toSummaryJobView(job) });
+    
+  } catch (error) {
+    console.error('Summary status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve summary status' },
+      { status: 500 }
+    );
+  }
+}
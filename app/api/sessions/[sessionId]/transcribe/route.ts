@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accessDenied, authorizeSession } from '@/lib/auth/authorization';
+import { getSpeechToText } from '@/lib/voice';
+import { takeAudioUpload } from '@/lib/voice/uploads';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/sessions/[sessionId]/transcribe
+ * Finish a chunked upload and transcribe it
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const { sessionId } = params;
+    
+    const access = await authorizeSession(req, sessionId, { allowDevice: true });
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
+    const { uploadId } = await req.json();
+    
+    if (!uploadId) {
+      return NextResponse.json(
+        { error: 'uploadId required' },
+        { status: 400 }
+      );
+    }
+    
+    const upload = takeAudioUpload(uploadId, sessionId);
+    
+    if (!upload) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      );
+    }
+    
+    const transcription = await getSpeechToText().transcribe(upload.audio, upload.mimeType);
+    
+    return NextResponse.json({ transcription });
+    
+  } catch (error) {
+    console.error('Transcription error:', error);
+    return NextResponse.json(
+      { error: 'Failed to transcribe audio' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accessDenied, authorizeChild } from '@/lib/auth/authorization';
+import {
+  DEVICE_TOKEN_COOKIE,
+  DEVICE_TOKEN_TTL_SEC,
+  issueDeviceToken,
+} from '@/lib/auth/deviceToken';
+import { findScenario, getOpeningPrompt, Scenario } from '@/lib/scenarios/catalog';
+import { ensureIdleSweeper } from '@/lib/sessions/lifecycle';
+import { loadChildMemory } from '@/lib/children/memory';
+import { generateOpening } from '@/lib/ai/scaffolding';
+import { guardContent } from '@/lib/ai/guardrails';
+import { fromGuardResult, recordGuardrailIncident } from '@/lib/ai/guardrailIncidents';
+import { Provenance, TEMPLATE_PROVENANCE } from '@/lib/ai/prompts';
 
 /**
  * POST /api/sessions
@@ -7,6 +20,8 @@ import { prisma } from '@/lib/prisma';
  */
 export async function POST(req: NextRequest) {
   try {
+    ensureIdleSweeper();
+    
     const body = await req.json();
     const { childId, scenario } = body;
     
@@ -17,18 +32,22 @@ export async function POST(req: NextRequest) {
       );
     }
     
-    // Verify child exists
-    const child = await prisma.child.findUnique({
-      where: { id: childId },
-    });
+    const selectedScenario = findScenario(scenario);
     
-    if (!child) {
+    if (!selectedScenario) {
       return NextResponse.json(
-        { error: 'Child not found' },
-        { status: 404 }
+        { error: 'Unknown scenario' },
+        { status: 400 }
       );
     }
     
+    // Verify the signed-in parent owns this child
+    const access = await authorizeChild(req, childId);
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
     // Create new session
     const session = await prisma.session.create({
       data: {
@@ -38,7 +57,34 @@ export async function POST(req: NextRequest) {
       },
     });
     
-    return NextResponse.json({ session });
+    // The companion opens the conversation with the scenario's prompt,
+    // picking up on what it remembers from earlier sessions
+    const opening = await openingFor(session.id, selectedScenario, access.child);
+    const openingPrompt = await prisma.utterance.create({
+      data: {
+        sessionId: session.id,
+        speaker: 'ai_voice',
+        text: opening.text,
+        promptVersion: opening.provenance.promptVersion,
+        model: opening.provenance.model,
+        metadata: JSON.stringify({ kind: 'opening' }),
+        timestamp: new Date(),
+      },
+    });
+    
+    // Hand this device a credential for this session only, so the child
+    // can keep playing without the parent's login
+    const deviceToken = issueDeviceToken(session.id, childId);
+    const response = NextResponse.json({ session, openingPrompt, deviceToken });
+    response.cookies.set(DEVICE_TOKEN_COOKIE, deviceToken, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: DEVICE_TOKEN_TTL_SEC,
+    });
+    
+    return response;
     
   } catch (error) {
     console.error('Session creation error:', error);
@@ -55,6 +101,8 @@ export async function POST(req: NextRequest) {
  */
 export async function GET(req: NextRequest) {
   try {
+    ensureIdleSweeper();
+    
     const { searchParams } = new URL(req.url);
     const childId = searchParams.get('childId');
     
@@ -65,6 +113,12 @@ export async function GET(req: NextRequest) {
       );
     }
     
+    const access = await authorizeChild(req, childId);
+    
+    if (!access.ok) {
+      return accessDenied(access);
+    }
+    
     const sessions = await prisma.session.findMany({
       where: { childId },
       orderBy: { startedAt: 'desc' },
@@ -85,3 +139,38 @@ export async function GET(req: NextRequest) {
     );
   }
 }
+
+/**
+ * The session's first line. A personalized opening is checked like any
+ * other model text; if it can't be used as-is, the scenario's own opening
+ * is spoken instead (a vetted line wouldn't start the scenario).
+ */
+async function openingFor(
+  sessionId: string,
+  scenario: Scenario,
+  child: { id: string; age: number; vocabularyLevel: string }
+): Promise<{ text: string; provenance: Provenance }> {
+  const opening = await generateOpening(scenario, child.age, await loadChildMemory(child.id));
+  
+  if (!opening.provenance.promptVersion) {
+    return { text: opening.message, provenance: opening.provenance };
+  }
+  
+  const guarded = await guardContent(opening.message, {
+    childAge: child.age,
+    vocabularyLevel: child.vocabularyLevel,
+  });
+  
+  const result = guarded.fallback
+    ? { text: getOpeningPrompt(scenario), provenance: TEMPLATE_PROVENANCE }
+    : { text: guarded.sanitizedContent, provenance: opening.provenance };
+  
+  if (result.text !== opening.message) {
+    await recordGuardrailIncident(
+      { sessionId, childId: child.id, childAge: child.age, source: 'opening' },
+      { ...fromGuardResult(opening.message, guarded), deliveredText: result.text }
+    );
+  }
+  
+  return result;
+}
@@ -7,6 +7,7 @@ interface TranscriptEntry {
   id: string;
   speaker: 'child' | 'ai_voice';
   text: string;
+  interrupted?: boolean; // AI was cut off; text is what was said before that
   timestamp: Date;
 }
 
@@ -116,6 +117,9 @@ export default function TranscriptSidebar({ utterances }: TranscriptSidebarProps
                 </div>
                 <p className="text-gray-800 text-base leading-relaxed ml-10">
                   {entry.text}
+                  {entry.interrupted && (
+                    <span className="text-gray-400 italic"> … (interrupted)</span>
+                  )}
                 </p>
               </motion.div>
             ))
@@ -4,50 +4,163 @@
  * VOICE NARRATOR COMPONENT
  * 
  * Animated speech bubble that appears when AI is speaking.
- * Fetches SSE stream and displays text progressively (word by word).
+ * Fetches SSE stream and displays text progressively (word by word),
+ * playing the streamed speech audio and highlighting each word as it is said.
+ * Resumes a dropped stream with Last-Event-ID so no words are lost.
+ * A new utterance (barge-in) or leaving the page aborts the stream in
+ * flight; the server stops the reply and keeps only what was delivered.
+ * Also shows nudges the server pushes on its own during silences.
  * Only visible when AI has something to say.
  */
 
 import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import {
+  AIStreamEventMap,
+  AIStreamEventName,
+  SSE_RETRY_MS,
+  SessionEventMap,
+} from '@/lib/sse/events';
+import { ParsedSSEMessage, createSSEParser } from '@/lib/sse/parser';
+import { useSpeechPlayer } from './useSpeechPlayer';
+import type { UtteranceTiming } from '@/lib/ai/timingMetrics';
 
 interface VoiceNarratorProps {
   sessionId: string;
   childId: string;
   utterance: string;
-  parentOptIn: boolean;
+  timing?: UtteranceTiming; // Measured turn timing for the utterance
+  nudge?: SpokenNudge; // Server-initiated, already safe
   onComplete?: () => void;
 }
 
-interface StreamEvent {
-  type: 'start' | 'word' | 'end' | 'silent' | 'error';
-  content?: string;
-  index?: number;
-  reason?: string;
-  message?: string;
+export interface SpokenNudge {
+  id: string;
+  text: string;
+  speech?: SessionEventMap['nudge']['speech'];
+}
+
+// Reconnects allowed after a dropped connection before giving up
+const MAX_RESUME_ATTEMPTS = 3;
+
+// Wait before reconnecting, cut short if the stream is abandoned
+function waitToResume(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timeout = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      resolve();
+    }, { once: true });
+  });
 }
 
 export default function VoiceNarrator({
   sessionId,
   childId,
   utterance,
-  parentOptIn,
+  timing,
+  nudge,
   onComplete,
 }: VoiceNarratorProps) {
   const [isVisible, setIsVisible] = useState(false);
-  const [displayText, setDisplayText] = useState('');
+  const [displayWords, setDisplayWords] = useState<string[]>([]);
   const [isAnimating, setIsAnimating] = useState(false);
+  const { player, spokenIndex } = useSpeechPlayer();
 
   useEffect(() => {
     if (!utterance) return;
 
     // Reset state
-    setDisplayText('');
+    player.reset();
+    setDisplayWords([]);
     setIsVisible(false);
     setIsAnimating(true);
 
+    // Aborted when the child speaks again or the page goes away
+    const controller = new AbortController();
+    const { signal } = controller;
+    let hideTimeout: ReturnType<typeof setTimeout> | undefined;
+    signal.addEventListener('abort', () => clearTimeout(hideTimeout), { once: true });
+
     // Connect to SSE stream
     const fetchStream = async () => {
+      const words: string[] = [];
+      let lastEventId: string | undefined;
+      let retryMs = SSE_RETRY_MS;
+      let finished = false;
+
+      const handleMessage = (message: ParsedSSEMessage) => {
+        if (signal.aborted) return; // A newer utterance owns the bubble now
+        if (message.id) lastEventId = message.id;
+        if (message.retry !== undefined) retryMs = message.retry;
+
+        try {
+          const data = JSON.parse(message.data);
+
+          switch (message.event as AIStreamEventName) {
+            case 'start':
+              setIsVisible(true);
+              break;
+            case 'word': {
+              const { content, index } = data as AIStreamEventMap['word'];
+              words[index] = content;
+              setDisplayWords([...words]);
+              break;
+            }
+            case 'audio':
+              player.enqueue(data as AIStreamEventMap['audio']);
+              break;
+            case 'end':
+              finished = true;
+              setIsAnimating(false);
+              // Let the voice finish before the bubble goes away
+              player.whenIdle(() => {
+                if (signal.aborted) return;
+                hideTimeout = setTimeout(() => {
+                  setIsVisible(false);
+                  onComplete?.();
+                }, 3000); // Keep visible for 3s after completion
+              });
+              break;
+            case 'interrupted':
+              // Cut off by another utterance on this session
+              finished = true;
+              setIsAnimating(false);
+              onComplete?.();
+              break;
+            case 'silent':
+              // AI chose not to speak
+              finished = true;
+              setIsAnimating(false);
+              onComplete?.();
+              break;
+            case 'error':
+              console.error('Stream error:', (data as AIStreamEventMap['error']).message);
+              finished = true;
+              setIsAnimating(false);
+              setIsVisible(false);
+              onComplete?.();
+              break;
+          }
+        } catch (e) {
+          console.error('Failed to parse SSE event:', e);
+        }
+      };
+
+      const readStream = async (response: Response) => {
+        const reader = response.body?.getReader();
+        const decoder = new TextDecoder();
+        const parser = createSSEParser(handleMessage);
+
+        if (!reader) return;
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          parser.feed(decoder.decode(value, { stream: true }));
+        }
+      };
+
       try {
         const response = await fetch('/api/ai/stream', {
           method: 'POST',
@@ -58,65 +171,46 @@ export default function VoiceNarrator({
             sessionId,
             childId,
             utterance,
-            parentOptIn,
             timestamp: new Date().toISOString(),
+            timing,
+            voice: true,
           }),
+          signal,
         });
 
-        if (!response.ok) {
+        if (!response.ok || !response.body) {
           throw new Error('Stream failed');
         }
 
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-
-        if (!reader) return;
-
-        let buffer = '';
-        const words: string[] = [];
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
+        try {
+          await readStream(response);
+        } catch (error) {
+          if (!signal.aborted) console.warn('SSE connection dropped:', error);
+        }
 
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-              try {
-                const event: StreamEvent = JSON.parse(data);
-
-                if (event.type === 'start') {
-                  setIsVisible(true);
-                } else if (event.type === 'word' && event.content) {
-                  words.push(event.content);
-                  setDisplayText(words.join(' '));
-                } else if (event.type === 'end') {
-                  setIsAnimating(false);
-                  setTimeout(() => {
-                    setIsVisible(false);
-                    onComplete?.();
-                  }, 3000); // Keep visible for 3s after completion
-                } else if (event.type === 'silent') {
-                  // AI chose not to speak
-                  setIsAnimating(false);
-                  onComplete?.();
-                } else if (event.type === 'error') {
-                  console.error('Stream error:', event.message);
-                  setIsAnimating(false);
-                  setIsVisible(false);
-                  onComplete?.();
-                }
-              } catch (e) {
-                console.error('Failed to parse SSE event:', e);
-              }
-            }
+        // Connection dropped mid-utterance - resume from the last event we saw
+        for (let attempt = 0; !finished && lastEventId && attempt < MAX_RESUME_ATTEMPTS; attempt++) {
+          await waitToResume(retryMs, signal);
+          if (signal.aborted) return;
+          try {
+            const resumed = await fetch('/api/ai/stream', {
+              headers: { 'Last-Event-ID': lastEventId },
+              signal,
+            });
+            if (resumed.status === 204) break; // Nothing left to resume
+            if (resumed.ok) await readStream(resumed);
+          } catch (error) {
+            console.warn('SSE resume failed:', error);
           }
         }
+
+        if (signal.aborted) return;
+        if (!finished) {
+          throw new Error('Stream ended before completion');
+        }
       } catch (error) {
+        // Interrupted on purpose - nothing to clean up for the next turn
+        if (signal.aborted) return;
         console.error('SSE connection error:', error);
         setIsAnimating(false);
         setIsVisible(false);
@@ -125,7 +219,42 @@ export default function VoiceNarrator({
     };
 
     fetchStream();
-  }, [utterance, sessionId, childId, parentOptIn, onComplete]);
+
+    return () => {
+      controller.abort();
+      clearTimeout(hideTimeout);
+    };
+  }, [utterance, timing, sessionId, childId, onComplete, player]);
+
+  // Speak a nudge pushed by the server (no request needed)
+  useEffect(() => {
+    if (!nudge) return;
+
+    player.reset();
+    setDisplayWords(nudge.text.split(' '));
+    setIsVisible(true);
+    setIsAnimating(false);
+
+    if (nudge.speech) {
+      player.enqueue({ ...nudge.speech, startIndex: 0 });
+    }
+
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    player.whenIdle(() => {
+      // The voice may go idle after this nudge was replaced or unmounted
+      if (cancelled) return;
+      timeout = setTimeout(() => {
+        setIsVisible(false);
+        onComplete?.();
+      }, 4000); // Keep visible long enough to read
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [nudge, onComplete, player]);
 
   return (
     <AnimatePresence>
@@ -162,7 +291,18 @@ export default function VoiceNarrator({
 
             {/* Text content */}
             <div className="text-white text-2xl font-medium leading-relaxed min-h-[3rem] flex items-center">
-              {displayText}
+              <span>
+                {displayWords.map((word, index) => (
+                  <span
+                    key={index}
+                    className={`transition-colors ${
+                      index === spokenIndex ? 'text-yellow-200' : ''
+                    }`}
+                  >
+                    {word}{' '}
+                  </span>
+                ))}
+              </span>
               {isAnimating && (
                 <motion.span
                   animate={{ opacity: [0, 1, 0] }}
@@ -0,0 +1,124 @@
+'use client';
+
+/**
+ * VOICE RECORDER COMPONENT
+ *
+ * Big microphone button for the child. Records with MediaRecorder and
+ * uploads audio in chunks while they talk, then asks the server to
+ * transcribe once they stop.
+ */
+
+import { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { WordTiming } from '@/lib/voice/types';
+
+interface VoiceRecorderProps {
+  sessionId: string;
+  disabled?: boolean;
+  onTranscript: (text: string, recordingStartedAt: number, words: WordTiming[]) => void;
+}
+
+const CHUNK_MS = 1000; // Upload a chunk every second while recording
+
+export default function VoiceRecorder({
+  sessionId,
+  disabled,
+  onTranscript,
+}: VoiceRecorderProps) {
+  const [status, setStatus] = useState<'idle' | 'recording' | 'transcribing'>('idle');
+  const recorderRef = useRef<MediaRecorder | null>(null);
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const uploadId = crypto.randomUUID();
+      const recordingStartedAt = Date.now();
+      let index = 0;
+      let uploads = Promise.resolve();
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size === 0) return;
+        const chunkIndex = index++;
+        // Upload in order, one chunk at a time
+        uploads = uploads.then(async () => {
+          await fetch(
+            `/api/sessions/${sessionId}/audio?uploadId=${uploadId}&index=${chunkIndex}`,
+            {
+              method: 'POST',
+              headers: { 'Content-Type': recorder.mimeType || 'audio/webm' },
+              body: event.data,
+            }
+          );
+        });
+      };
+
+      recorder.onstop = async () => {
+        stream.getTracks().forEach((track) => track.stop());
+        setStatus('transcribing');
+
+        try {
+          await uploads;
+          const response = await fetch(`/api/sessions/${sessionId}/transcribe`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ uploadId }),
+          });
+
+          if (response.ok) {
+            const data = await response.json();
+            if (data.transcription?.text) {
+              onTranscript(
+                data.transcription.text,
+                recordingStartedAt,
+                data.transcription.words || []
+              );
+            }
+          }
+        } catch (error) {
+          console.error('Transcription failed:', error);
+        } finally {
+          setStatus('idle');
+        }
+      };
+
+      recorder.start(CHUNK_MS);
+      recorderRef.current = recorder;
+      setStatus('recording');
+    } catch (error) {
+      console.error('Microphone unavailable:', error);
+      setStatus('idle');
+    }
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <motion.button
+        type="button"
+        onClick={status === 'recording' ? stopRecording : startRecording}
+        disabled={disabled || status === 'transcribing'}
+        animate={status === 'recording' ? { scale: [1, 1.08, 1] } : {}}
+        transition={{ repeat: Infinity, duration: 1.2 }}
+        className={`w-24 h-24 rounded-full text-5xl shadow-xl transition disabled:opacity-50 disabled:cursor-not-allowed ${
+          status === 'recording'
+            ? 'bg-red-500 hover:bg-red-600'
+            : 'bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600'
+        }`}
+      >
+        {status === 'recording' ? '⏹️' : '🎤'}
+      </motion.button>
+      <p className="text-gray-600">
+        {status === 'recording'
+          ? "I'm listening... tap to stop"
+          : status === 'transcribing'
+          ? 'Thinking about what you said...'
+          : 'Tap to talk'}
+      </p>
+    </div>
+  );
+}
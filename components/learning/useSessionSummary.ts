@@ -0,0 +1,114 @@
+'use client';
+
+/**
+ * SESSION SUMMARY HOOK
+ *
+ * Loads a session's summary (child view or parent report). Summaries are
+ * generated by a background job on the server, so this asks for one if a
+ * finished session has none, then polls the job's status until it is done
+ * or failed. A session that is still running is left alone - ending it is
+ * the session page's job. Asking again is harmless - the server never runs
+ * two jobs per session.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+
+export type SummaryState = 'loading' | 'generating' | 'ready' | 'in-progress' | 'failed';
+
+const POLL_INTERVAL_MS = 2000;
+
+export function useSessionSummary<T>(sessionId: string, view: 'child' | 'parent', enabled = true) {
+  const [state, setState] = useState<SummaryState>('loading');
+  const [data, setData] = useState<T | null>(null);
+  const active = useRef(false);
+  const poller = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const summaryUrl = `/api/sessions/${sessionId}/summary`;
+
+  const load = async (): Promise<void> => {
+    const response = await fetch(`${summaryUrl}?view=${view}`);
+    if (!active.current) return;
+
+    if (response.status === 202) {
+      setState('generating');
+      poll();
+    } else if (response.ok) {
+      setData(await response.json());
+      setState('ready');
+    } else if (response.status === 404) {
+      const { finished } = await response.json();
+      if (!active.current) return;
+
+      if (finished) {
+        await request(false);
+      } else {
+        setState('in-progress');
+      }
+    } else {
+      setState('failed');
+    }
+  };
+
+  // Wait for the job to finish, then fetch the result
+  const poll = () => {
+    clearTimeout(poller.current);
+    poller.current = setTimeout(async () => {
+      try {
+        const response = await fetch(`${summaryUrl}/status`);
+        if (!active.current) return;
+        const { job } = await response.json();
+
+        if (job?.status === 'done') {
+          await load();
+        } else if (!response.ok || job?.status === 'failed') {
+          setState('failed');
+        } else {
+          poll();
+        }
+      } catch (error) {
+        console.error('Failed to check summary status:', error);
+        setState('failed');
+      }
+    }, POLL_INTERVAL_MS);
+  };
+
+  const request = async (regenerate: boolean): Promise<void> => {
+    const response = await fetch(summaryUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(regenerate ? { regenerate } : {}),
+    });
+    if (!active.current) return;
+
+    if (response.ok) {
+      setState('generating');
+      poll();
+    } else {
+      setState('failed');
+    }
+  };
+
+  useEffect(() => {
+    if (!enabled) return;
+    active.current = true;
+
+    load().catch(error => {
+      console.error('Failed to load summary:', error);
+      setState('failed');
+    });
+
+    return () => {
+      active.current = false;
+      clearTimeout(poller.current);
+    };
+  }, [enabled, sessionId, view]);
+
+  return {
+    state,
+    data,
+    // Retry a failed job (only missing documents are generated)
+    retry: () => request(false),
+    // Replace finished summaries (parents only)
+    regenerate: () => request(true),
+  };
+}
@@ -0,0 +1,128 @@
+'use client';
+
+/**
+ * SPEECH PLAYER HOOK
+ *
+ * Plays the narrator's audio clips back to back and reports which word is
+ * being spoken, so the speech bubble can highlight along with the voice.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+
+export interface SpeechClip {
+  audio: string; // base64
+  mimeType: string;
+  startIndex: number; // Index of the clip's first word in the utterance
+  timings: { startMs: number; endMs: number }[];
+}
+
+function base64ToBlob(base64: string, mimeType: string): Blob {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+function createSpeechPlayer(onWord: (index: number) => void) {
+  const queue: SpeechClip[] = [];
+  let idleCallbacks: (() => void)[] = [];
+  let audio: HTMLAudioElement | null = null;
+  let frame: number | undefined;
+  let playing = false;
+
+  const stopTracking = () => {
+    if (frame !== undefined) cancelAnimationFrame(frame);
+    frame = undefined;
+  };
+
+  const playNext = () => {
+    stopTracking();
+    const clip = queue.shift();
+
+    if (!clip) {
+      playing = false;
+      onWord(-1);
+      const callbacks = idleCallbacks;
+      idleCallbacks = [];
+      callbacks.forEach(callback => callback());
+      return;
+    }
+
+    playing = true;
+    audio = audio ?? new Audio();
+    const current = audio;
+    const url = URL.createObjectURL(base64ToBlob(clip.audio, clip.mimeType));
+
+    // Follow playback position and map it onto the clip's word timings
+    const track = () => {
+      const ms = current.currentTime * 1000;
+      let word = 0;
+      while (word + 1 < clip.timings.length && clip.timings[word + 1].startMs <= ms) word++;
+      onWord(clip.startIndex + word);
+      frame = requestAnimationFrame(track);
+    };
+
+    const finish = () => {
+      current.onended = null;
+      current.onerror = null;
+      URL.revokeObjectURL(url);
+      playNext();
+    };
+
+    current.onended = finish;
+    current.onerror = finish;
+    current.src = url;
+    current
+      .play()
+      .then(() => {
+        frame = requestAnimationFrame(track);
+      })
+      .catch(finish); // Autoplay blocked - fall back to text only
+  };
+
+  return {
+    enqueue(clip: SpeechClip) {
+      queue.push(clip);
+      if (!playing) playNext();
+    },
+
+    /**
+     * Run a callback once everything queued has finished playing
+     */
+    whenIdle(callback: () => void) {
+      if (!playing && queue.length === 0) {
+        callback();
+      } else {
+        idleCallbacks.push(callback);
+      }
+    },
+
+    reset() {
+      stopTracking();
+      queue.length = 0;
+      idleCallbacks = [];
+      playing = false;
+      if (audio) {
+        audio.onended = null;
+        audio.onerror = null;
+        audio.pause();
+      }
+      onWord(-1);
+    },
+  };
+}
+
+/**
+ * Hook wrapper: returns the player and the index of the word being spoken
+ * (-1 when nothing is playing)
+ */
+export function useSpeechPlayer() {
+  const [spokenIndex, setSpokenIndex] = useState(-1);
+  const player = useMemo(() => createSpeechPlayer(setSpokenIndex), []);
+
+  useEffect(() => () => player.reset(), [player]);
+
+  return { player, spokenIndex };
+}
@@ -0,0 +1,86 @@
+'use client';
+
+/**
+ * TURN TIMING HOOK
+ *
+ * Captures real timing for the child's turn so the server can measure
+ * pauses and hesitation instead of guessing: when the AI finished speaking,
+ * when the child started (first keystroke or first spoken word), and the
+ * gaps between their words.
+ */
+
+import { useCallback, useRef } from 'react';
+import type { UtteranceTiming } from '@/lib/ai/timingMetrics';
+import type { WordTiming } from '@/lib/voice/types';
+
+export function useTurnTiming() {
+  const turnStartedAt = useRef(Date.now());
+  const onsetAt = useRef<number | null>(null);
+  const lastKeyAt = useRef<number | null>(null);
+  const wordGaps = useRef<number[]>([]);
+
+  const reset = () => {
+    onsetAt.current = null;
+    lastKeyAt.current = null;
+    wordGaps.current = [];
+  };
+
+  /**
+   * The child's turn begins now (AI finished speaking, or the page opened)
+   */
+  const markTurnStart = useCallback(() => {
+    turnStartedAt.current = Date.now();
+  }, []);
+
+  /**
+   * Record a keystroke; a new word starting after whitespace closes a gap
+   */
+  const trackTyping = useCallback((previous: string, next: string) => {
+    const now = Date.now();
+
+    if (next.length > previous.length) {
+      if (onsetAt.current === null && next.trim()) onsetAt.current = now;
+
+      const startsWord = /\s\S$/.test(next);
+      if (startsWord && lastKeyAt.current !== null) {
+        wordGaps.current.push(now - lastKeyAt.current);
+      }
+    }
+
+    lastKeyAt.current = now;
+  }, []);
+
+  /**
+   * Timing for a typed utterance being submitted now
+   */
+  const typedTiming = useCallback((): UtteranceTiming => {
+    const timing: UtteranceTiming = {
+      inputMode: 'typed',
+      promptEndedAt: new Date(turnStartedAt.current).toISOString(),
+      onsetAt: onsetAt.current !== null ? new Date(onsetAt.current).toISOString() : undefined,
+      submittedAt: new Date().toISOString(),
+      wordGapsMs: wordGaps.current,
+    };
+    reset();
+    return timing;
+  }, []);
+
+  /**
+   * Timing for a spoken utterance, from recording start and STT word timings
+   */
+  const spokenTiming = useCallback((recordingStartedAt: number, words: WordTiming[]): UtteranceTiming => {
+    const gaps = words.slice(1).map((word, i) => Math.max(0, word.startMs - words[i].endMs));
+    const onset = recordingStartedAt + (words[0]?.startMs ?? 0);
+
+    reset();
+    return {
+      inputMode: 'spoken',
+      promptEndedAt: new Date(turnStartedAt.current).toISOString(),
+      onsetAt: new Date(onset).toISOString(),
+      submittedAt: new Date().toISOString(),
+      wordGapsMs: gaps,
+    };
+  }, []);
+
+  return { markTurnStart, trackTyping, typedTiming, spokenTiming };
+}
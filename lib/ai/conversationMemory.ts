@@ -0,0 +1,301 @@
+/**
+ * CONVERSATION MEMORY
+ *
+ * SERVER-SIDE ONLY. A rolling, hierarchical summary of a session, so long
+ * conversations stay coherent without sending the whole transcript to a
+ * model:
+ *
+ *   digest   - one condensed summary of everything older than the chunks
+ *   chunks   - a short summary per stretch of CHUNK_SIZE utterances
+ *   (recent) - the last RECENT_WINDOW utterances, always read verbatim
+ *
+ * It is updated after each turn, off the critical path: once enough
+ * utterances have scrolled past the recent window they are summarized into
+ * a chunk, and when there are too many chunks the oldest are folded into
+ * the digest. Live replies read it as "earlier in this session"; final
+ * summaries use it when the transcript is over budget.
+ *
+ * Like the learner state, writes use an optimistic version check; a failed
+ * model call leaves the memory as it was, to be retried on the next turn.
+ */
+
+import { Utterance } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getLLMProvider } from '@/lib/ai/providers';
+import {
+  Provenance,
+  RenderedPrompt,
+  TranscriptTurn,
+  provenanceFor,
+  renderPrompt,
+} from '@/lib/ai/prompts';
+
+export interface MemoryChunk {
+  summary: string;
+  utteranceCount: number;
+  from: string; // Timestamp of the first utterance covered (ISO)
+  to: string; // Timestamp of the last utterance covered (ISO)
+  provenance: Provenance;
+}
+
+export interface ConversationMemory {
+  digest: { summary: string; chunkCount: number; provenance: Provenance } | null;
+  chunks: MemoryChunk[]; // Oldest first
+  coveredThrough: string | null; // Timestamp of the last utterance summarized (ISO)
+  coveredCount: number;
+}
+
+/**
+ * What the final summaries get for a session too long to send whole:
+ * the memory, and where in the transcript the verbatim turns start
+ */
+export interface SummaryContext {
+  earlier?: string; // Missing only if the memory couldn't be built
+  recentFrom: number; // Index of the first utterance to send verbatim
+}
+
+type MemoryUtterance = Pick<Utterance, 'speaker' | 'text' | 'timestamp'>;
+
+const CHUNK_SIZE = 12; // Utterances per chunk summary
+const RECENT_WINDOW = 6; // Matches the turns a reply sees verbatim
+const MAX_CHUNKS = 6; // Beyond this, the oldest are folded into the digest
+const CHUNKS_KEPT_AFTER_FOLD = 3;
+const MAX_CHUNKS_PER_UPDATE = 2; // Per turn; a lagging memory catches up over a few turns
+
+// Rough transcript size the final summaries will send as-is
+export const SUMMARY_TRANSCRIPT_BUDGET_TOKENS = 4000;
+
+const globalForMemory = globalThis as unknown as {
+  memoryUpdates: Set<string> | undefined
+};
+
+// Sessions with an update running in this process
+const updating = globalForMemory.memoryUpdates ?? new Set<string>();
+globalForMemory.memoryUpdates = updating;
+
+/**
+ * Close enough for budgeting: about four characters per token in English
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function emptyMemory(): ConversationMemory {
+  return { digest: null, chunks: [], coveredThrough: null, coveredCount: 0 };
+}
+
+async function readMemory(sessionId: string): Promise<{ memory: ConversationMemory; version: number | null }> {
+  const row = await prisma.sessionMemory.findUnique({ where: { sessionId } });
+  return row
+    ? { memory: JSON.parse(row.state), version: row.version }
+    : { memory: emptyMemory(), version: null };
+}
+
+/**
+ * Write only if nobody else has since; false when the write lost
+ */
+async function writeMemory(
+  sessionId: string,
+  version: number | null,
+  memory: ConversationMemory
+): Promise<boolean> {
+  const state = JSON.stringify(memory);
+
+  if (version === null) {
+    try {
+      await prisma.sessionMemory.create({ data: { sessionId, state } });
+      return true;
+    } catch {
+      return false; // Another update created it first
+    }
+  }
+
+  const written = await prisma.sessionMemory.updateMany({
+    where: { sessionId, version },
+    data: { state, version: { increment: 1 } },
+  });
+  return written.count > 0;
+}
+
+/**
+ * The memory as prompt text (digest first, then chunks), or undefined
+ * while there is nothing summarized yet
+ */
+export function renderMemory(memory: ConversationMemory): string | undefined {
+  const parts = [
+    ...(memory.digest ? [memory.digest.summary] : []),
+    ...memory.chunks.map(chunk => chunk.summary),
+  ];
+  return parts.length > 0 ? parts.join('\n') : undefined;
+}
+
+/**
+ * The session's memory as prompt text, for the live reply
+ */
+export async function loadConversationMemory(sessionId: string): Promise<string | undefined> {
+  const { memory } = await readMemory(sessionId);
+  return renderMemory(memory);
+}
+
+async function completeMemory(
+  prompt: RenderedPrompt,
+  maxTokens: number
+): Promise<{ summary: string; provenance: Provenance } | null> {
+  try {
+    const response = await getLLMProvider().complete({
+      task: prompt.task,
+      messages: prompt.messages,
+      variables: prompt.variables,
+      maxTokens,
+      temperature: 0.3,
+    });
+
+    const summary = response.trim();
+    return summary ? { summary, provenance: provenanceFor(prompt) } : null;
+  } catch (error) {
+    console.error('Conversation memory error:', error);
+    return null;
+  }
+}
+
+/**
+ * Summarize one stretch of utterances; refs continue the session's count
+ */
+async function summarizeChunk(
+  utterances: MemoryUtterance[],
+  firstRef: number,
+  childAge: number
+): Promise<MemoryChunk | null> {
+  const turns: TranscriptTurn[] = utterances.map((utterance, i) => ({
+    ref: firstRef + i,
+    speaker: utterance.speaker === 'child' ? 'child' : 'ai_voice',
+    text: utterance.text,
+  }));
+  const result = await completeMemory(renderPrompt('memory', { childAge, turns }), 120);
+
+  return result && {
+    ...result,
+    utteranceCount: utterances.length,
+    from: utterances[0].timestamp.toISOString(),
+    to: utterances[utterances.length - 1].timestamp.toISOString(),
+  };
+}
+
+/**
+ * Fold the oldest chunks into the digest. On failure the chunks are kept
+ * as they are (the memory just stays a little longer for now).
+ */
+async function foldChunks(memory: ConversationMemory, childAge: number): Promise<ConversationMemory> {
+  const folded = memory.chunks.slice(0, memory.chunks.length - CHUNKS_KEPT_AFTER_FOLD);
+  const result = await completeMemory(
+    renderPrompt('memory-digest', {
+      childAge,
+      digest: memory.digest?.summary,
+      summaries: folded.map(chunk => chunk.summary),
+    }),
+    200
+  );
+
+  if (!result) return memory;
+
+  return {
+    ...memory,
+    digest: {
+      ...result,
+      chunkCount: (memory.digest?.chunkCount ?? 0) + folded.length,
+    },
+    chunks: memory.chunks.slice(folded.length),
+  };
+}
+
+/**
+ * Summarize whatever has scrolled past the recent window, a chunk at a
+ * time. Never throws; does nothing if an update for the session is
+ * already running here, or if another server's update wins the write.
+ */
+export async function updateConversationMemory(
+  sessionId: string,
+  childAge: number,
+  { maxChunks = MAX_CHUNKS_PER_UPDATE }: { maxChunks?: number } = {}
+): Promise<void> {
+  if (updating.has(sessionId)) return;
+  updating.add(sessionId);
+
+  try {
+    for (let step = 0; step < maxChunks; step++) {
+      const { memory, version } = await readMemory(sessionId);
+
+      const pending = await prisma.utterance.findMany({
+        where: {
+          sessionId,
+          ...(memory.coveredThrough ? { timestamp: { gt: new Date(memory.coveredThrough) } } : {}),
+        },
+        orderBy: { timestamp: 'asc' },
+        take: CHUNK_SIZE + RECENT_WINDOW,
+        select: { speaker: true, text: true, timestamp: true },
+      });
+
+      if (pending.length < CHUNK_SIZE + RECENT_WINDOW) return;
+
+      const chunk = await summarizeChunk(
+        pending.slice(0, CHUNK_SIZE),
+        memory.coveredCount + 1,
+        childAge
+      );
+      if (!chunk) return;
+
+      let next: ConversationMemory = {
+        ...memory,
+        chunks: [...memory.chunks, chunk],
+        coveredThrough: chunk.to,
+        coveredCount: memory.coveredCount + chunk.utteranceCount,
+      };
+      if (next.chunks.length > MAX_CHUNKS) {
+        next = await foldChunks(next, childAge);
+      }
+
+      if (!(await writeMemory(sessionId, version, next))) return;
+    }
+  } catch (error) {
+    console.error('Conversation memory update error:', error);
+  } finally {
+    updating.delete(sessionId);
+  }
+}
+
+/**
+ * For the final summaries: null when the whole transcript fits the budget.
+ * Otherwise the memory is brought up to date and the summaries get it plus
+ * the turns after it - trimmed to the budget from the front, in case the
+ * memory is still behind.
+ */
+export async function summaryContext(
+  sessionId: string,
+  utterances: Pick<Utterance, 'text' | 'timestamp'>[],
+  childAge: number
+): Promise<SummaryContext | null> {
+  // Each line also carries a speaker label and turn number
+  const tokens = utterances.map(utterance => estimateTokens(utterance.text) + 4);
+  const total = tokens.reduce((sum, count) => sum + count, 0);
+
+  if (total <= SUMMARY_TRANSCRIPT_BUDGET_TOKENS) return null;
+
+  await updateConversationMemory(sessionId, childAge, { maxChunks: Infinity });
+  const { memory } = await readMemory(sessionId);
+  const earlier = renderMemory(memory);
+
+  const coveredThrough = memory.coveredThrough ? new Date(memory.coveredThrough) : null;
+  const firstUncovered = coveredThrough
+    ? utterances.findIndex(utterance => utterance.timestamp > coveredThrough)
+    : 0;
+  const recentFrom = firstUncovered === -1 ? utterances.length : firstUncovered;
+
+  let remaining = SUMMARY_TRANSCRIPT_BUDGET_TOKENS - (earlier ? estimateTokens(earlier) : 0);
+  let start = utterances.length;
+  while (start > recentFrom && tokens[start - 1] <= remaining) {
+    remaining -= tokens[start - 1];
+    start--;
+  }
+
+  return { earlier, recentFrom: start };
+}
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GuardrailIncident } from '@prisma/client';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: { guardrailIncident: { findMany: vi.fn() } },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+
+import { exportIncidentsCsv, incidentsToCsv, toIncidentView } from './guardrailIncidents';
+
+function incident(id: string, originalText = 'Let me show you a gun.'): GuardrailIncident {
+  return {
+    id,
+    createdAt: new Date('2026-01-02T03:04:05.000Z'),
+    sessionId: 'session-a',
+    childId: 'child-a',
+    childAge: 5,
+    source: 'reply',
+    action: 'block',
+    originalText,
+    deliveredText: null,
+    violations: JSON.stringify(['gun']),
+    ruleIds: JSON.stringify(['violence']),
+    explanation: JSON.stringify(['Violent content']),
+    reviewStatus: 'pending',
+    reviewNote: null,
+    reviewedBy: null,
+    reviewedAt: null,
+  };
+}
+
+async function collect(chunks: AsyncIterable<string>): Promise<string> {
+  let csv = '';
+  for await (const chunk of chunks) csv += chunk;
+  return csv;
+}
+
+describe('incidentsToCsv', () => {
+  it.each([
+    ['=HYPERLINK("http://x")', `"'=HYPERLINK(""http://x"")"`],
+    ['+1 more', "'+1 more"],
+    ['-2', "'-2"],
+    ['@SUM(A1)', "'@SUM(A1)"],
+    ['a normal sentence', 'a normal sentence'],
+  ])('writes %s as %s', (text, cell) => {
+    const [, row] = incidentsToCsv([toIncidentView(incident('i1', text))]).split('\n');
+
+    expect(row.split(',')).toContain(cell);
+  });
+});
+
+describe('exportIncidentsCsv', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('pages through every matching incident', async () => {
+    const first = Array.from({ length: 500 }, (_, i) => incident(`a${i}`));
+    prisma.guardrailIncident.findMany
+      .mockResolvedValueOnce(first)
+      .mockResolvedValueOnce([incident('b0')]);
+
+    const lines = (await collect(exportIncidentsCsv({ childId: 'child-a' }))).trim().split('\n');
+
+    expect(lines).toHaveLength(502);
+    expect(lines[0]).toMatch(/^id,createdAt,/);
+    expect(lines[501]).toMatch(/^b0,/);
+    expect(prisma.guardrailIncident.findMany).toHaveBeenLastCalledWith(expect.objectContaining({
+      where: { childId: 'child-a' },
+      cursor: { id: 'a499' },
+      skip: 1,
+    }));
+  });
+
+  it('writes just the header when nothing matches', async () => {
+    prisma.guardrailIncident.findMany.mockResolvedValueOnce([]);
+
+    expect(await collect(exportIncidentsCsv({}))).toMatch(/^id,createdAt,[^\n]*\n$/);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * GUARDRAIL INCIDENT LOG
+ *
+ * SERVER-SIDE ONLY. Every child-facing output the guardrails blocked or
+ * rewrote is persisted with the original text, what the child heard
+ * instead, and which rules fired - so parents can review it and the team
+ * can tune the rules and the AI reviewer prompt from real data.
+ */
+
+import { GuardrailIncident, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { GuardEvaluation } from './guardrailRules';
+import { GuardrailResult } from './guardrails';
+
+export type IncidentSource = 'reply' | 'nudge' | 'opening';
+export type IncidentAction = 'rewrite' | 'block' | 'fallback';
+
+export const REVIEW_STATUSES = ['pending', 'confirmed', 'false_positive'] as const;
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+interface IncidentContext {
+  sessionId: string;
+  childId: string;
+  childAge: number;
+  source: IncidentSource;
+}
+
+interface IncidentDetails {
+  action: IncidentAction;
+  originalText: string;
+  deliveredText: string | null;
+  violations: string[];
+  ruleIds: string[];
+  explanation: string[];
+}
+
+export type IncidentView = Omit<GuardrailIncident, 'violations' | 'ruleIds' | 'explanation'> & {
+  violations: string[];
+  ruleIds: string[];
+  explanation: string[];
+};
+
+/**
+ * Incident details for a sentence flagged by the stream guard
+ */
+export function fromEvaluation(originalText: string, evaluation: GuardEvaluation): IncidentDetails {
+  const flagged = evaluation.matches.filter(m => m.outcome !== 'allowed');
+  return {
+    action: evaluation.action === 'rewrite' ? 'rewrite' : 'block',
+    originalText,
+    deliveredText: evaluation.action === 'rewrite' ? evaluation.text : null,
+    violations: flagged.map(m => m.text),
+    ruleIds: Array.from(new Set(flagged.map(m => m.ruleId))),
+    explanation: evaluation.explanation,
+  };
+}
+
+/**
+ * Incident details for a full guardContent check
+ */
+export function fromGuardResult(originalText: string, result: GuardrailResult): IncidentDetails {
+  return {
+    action: result.fallback ? 'fallback' : 'rewrite',
+    originalText,
+    deliveredText: result.sanitizedContent,
+    violations: result.violations,
+    ruleIds: result.ruleIds ?? [],
+    explanation: result.explanation ?? [],
+  };
+}
+
+/**
+ * Incident details for a streamed sentence the AI safety review held back
+ */
+export function fromReview(
+  originalText: string,
+  review: GuardrailResult & { reviewFailed: boolean }
+): IncidentDetails {
+  return {
+    action: 'block',
+    originalText,
+    deliveredText: null,
+    violations: review.violations,
+    ruleIds: [review.reviewFailed ? 'ai-review-failed' : 'ai-review'],
+    explanation: [review.reviewFailed ? 'AI safety review failed, sentence held back' : 'held back by the AI safety review'],
+  };
+}
+
+/**
+ * Persist an incident. Never throws - logging must not break delivery.
+ */
+export async function recordGuardrailIncident(
+  context: IncidentContext,
+  details: IncidentDetails
+): Promise<void> {
+  try {
+    await prisma.guardrailIncident.create({
+      data: {
+        ...context,
+        action: details.action,
+        originalText: details.originalText,
+        deliveredText: details.deliveredText,
+        violations: JSON.stringify(details.violations),
+        ruleIds: JSON.stringify(details.ruleIds),
+        explanation: JSON.stringify(details.explanation),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to record guardrail incident:', error);
+  }
+}
+
+export function toIncidentView(incident: GuardrailIncident): IncidentView {
+  return {
+    ...incident,
+    violations: JSON.parse(incident.violations),
+    ruleIds: JSON.parse(incident.ruleIds),
+    explanation: JSON.parse(incident.explanation),
+  };
+}
+
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined
+    ? ''
+    : Array.isArray(value) ? value.join('; ') : String(value instanceof Date ? value.toISOString() : value);
+  // Spreadsheets run cells that start like a formula - quote them as text
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS: (keyof IncidentView)[] = [
+  'id', 'createdAt', 'childId', 'childAge', 'sessionId', 'source', 'action',
+  'originalText', 'deliveredText', 'violations', 'ruleIds', 'explanation',
+  'reviewStatus', 'reviewNote', 'reviewedAt',
+];
+
+const EXPORT_BATCH = 500;
+
+/**
+ * Export incidents as CSV (one row per incident)
+ */
+export function incidentsToCsv(incidents: IncidentView[], header = true): string {
+  const rows = incidents.map(incident => CSV_COLUMNS.map(column => csvCell(incident[column])).join(','));
+  return (header ? [CSV_COLUMNS.join(','), ...rows] : rows).map(row => `${row}\n`).join('');
+}
+
+/**
+ * Every matching incident as CSV, newest first. Rows are read a batch at
+ * a time so a large export is never held in memory at once.
+ */
+export async function* exportIncidentsCsv(
+  where: Prisma.GuardrailIncidentWhereInput
+): AsyncGenerator<string> {
+  yield incidentsToCsv([]);
+
+  let cursor: string | undefined;
+  while (true) {
+    const batch = await prisma.guardrailIncident.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: EXPORT_BATCH,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (batch.length > 0) yield incidentsToCsv(batch.map(toIncidentView), false);
+    if (batch.length < EXPORT_BATCH) return;
+
+    cursor = batch[batch.length - 1].id;
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateContent } from './guardrailRules';
+
+// Sentences a child may safely hear, including near misses of the rules
+const SAFE = [
+  'The horse sleeps in the stable.',
+  'Look, a shooting star!',
+  'The plant grows new shoots.',
+  'A killer whale swims fast.',
+  'We can make it a secret handshake.',
+  'Shall we find the secret garden?',
+  "You can't stop smiling!",
+  "You can't wait to see the zoo, can you?",
+  'Your dog has amazing skills.',
+  'What a bloomin’ lovely flower!',
+  'Let’s count the stars together.',
+  'Dinosaurs lived a long time ago.',
+  'Can you draw a big red apple?',
+  'That tower is so tall!',
+  "Let's give it a shot!",
+  'You can have a shot at the puzzle next.',
+  'The doctor gave the puppy a shot so it would not get sick.',
+  'The door has a threshold you step over.',
+  'Pirates shoot the cannon at the sea monster!',
+];
+
+// Sentences that must not reach the child as they are
+const UNSAFE = [
+  'The man killed the bird.',
+  'He wants to shoot the dog.',
+  'There was blood everywhere.',
+  'Let me show you a gun.',
+  'This is our little secret.',
+  "It's a secret, so keep it secret.",
+  "Don't tell your mom about this.",
+  "What's your home address?",
+  'My analysis says you are doing well.',
+  'I check my confidence threshold first.',
+  'I ask the API what to say.',
+  "You're stupid at this.",
+  'The killers stabbed someone.',
+];
+
+// Rewrites: what was said, and what the child hears instead
+const REWRITES: Array<[string, string]> = [
+  ["You can't read that yet.", "You're learning to read that yet."],
+  ["You can't do it alone.", "You're learning to do it alone."],
+  ["That's wrong, try again.", "Let's try another way, try again."],
+  ["You're confused about the shapes.", "You're thinking carefully about the shapes."],
+];
+
+describe('guardrail rule corpus', () => {
+  it.each(SAFE)('allows "%s"', sentence => {
+    const evaluation = evaluateContent(sentence);
+
+    expect(evaluation.explanation).toEqual([]);
+    expect(evaluation.action).toBe('allow');
+  });
+
+  it.each(UNSAFE)('blocks "%s"', sentence => {
+    expect(evaluateContent(sentence).action).toBe('block');
+  });
+
+  it.each(REWRITES)('rewrites "%s"', (sentence, heard) => {
+    const evaluation = evaluateContent(sentence);
+
+    expect(evaluation.action).toBe('rewrite');
+    expect(evaluation.text).toBe(heard);
+  });
+
+  it('still blocks a violent word beside a benign phrase', () => {
+    expect(evaluateContent('The killer whale saw a gun.').action).toBe('block');
+  });
+
+  it('still blocks shooting that is not a jab or a try', () => {
+    expect(evaluateContent('The doctor shot the bird.').action).toBe('block');
+    expect(evaluateContent('He took a shot at the dog.').action).toBe('block');
+  });
+
+  it('applies death rules by age', () => {
+    expect(evaluateContent('The dinosaurs died long ago.', 5).action).toBe('block');
+    expect(evaluateContent('The dinosaurs died long ago.', 8).action).toBe('allow');
+    expect(evaluateContent('Someone died.', 8).action).toBe('block');
+  });
+});
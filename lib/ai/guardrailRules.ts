@@ -0,0 +1,371 @@
+/**
+ * GUARDRAIL RULE ENGINE
+ *
+ * Context-aware replacement for a flat list of forbidden substrings.
+ * Every rule matches whole words or phrases (never fragments of other
+ * words), belongs to a category, and carries a severity:
+ *
+ * - block:            the sentence must not reach the child
+ * - rewrite:          the phrase is swapped for a vetted alternative
+ * - allow-in-context: blocked unless the sentence shows a benign use
+ *                     ("dinosaurs are dead" vs. threats)
+ *
+ * A rule can also list benign uses: phrases in which its terms are harmless
+ * ("shooting star", "killer whale"). A match inside one is ignored.
+ *
+ * Rules can be limited to an age band, so younger children get a stricter
+ * set. Every decision is explainable: the result lists which rule fired,
+ * on what text, and why.
+ */
+
+export type GuardCategory =
+  | 'internal-reasoning'
+  | 'technical'
+  | 'negative-framing'
+  | 'personal-info'
+  | 'unsafe';
+
+export type GuardSeverity = 'block' | 'rewrite' | 'allow-in-context';
+
+export interface GuardRule {
+  id: string;
+  category: GuardCategory;
+  severity: GuardSeverity;
+  terms: string[]; // Words or phrases, each inflection listed
+  benign?: string[]; // Phrases in which a term is harmless
+  replacement?: string; // rewrite rules only
+  allowedContexts?: RegExp[]; // allow-in-context rules only
+  ages?: { min?: number; max?: number };
+  reason: string;
+}
+
+export interface RuleMatch {
+  ruleId: string;
+  category: GuardCategory;
+  severity: GuardSeverity;
+  text: string; // What matched
+  outcome: 'blocked' | 'rewritten' | 'allowed';
+  reason: string;
+}
+
+export interface GuardEvaluation {
+  action: 'allow' | 'rewrite' | 'block';
+  text: string; // Original, or the rewritten sentence when action is 'rewrite'
+  matches: RuleMatch[];
+  explanation: string[];
+}
+
+const YOU = "(?:you|you're|you are|you seem|you look|you seem to be|you're being)";
+
+// Verbs that make "you can't ..." a statement about the child's ability
+const SKILLS = [
+  'do it', 'read', 'write', 'spell', 'count', 'add', 'draw', 'speak', 'pronounce',
+  'remember', 'understand', 'figure', 'solve', 'learn',
+  'catch', 'climb', 'tie', 'swim', 'ride', 'sing', 'jump', 'throw', 'kick',
+].join('|');
+
+const RULES: GuardRule[] = [
+  // Internal reasoning exposure
+  {
+    id: 'pedagogy-jargon',
+    category: 'internal-reasoning',
+    severity: 'block',
+    terms: ['covert', 'scaffold\\w*', 'intervention\\w*', 'intervene', 'assessment\\w*', 'pedagog\\w*', 'engagement score'],
+    reason: 'Exposes the internal teaching analysis',
+  },
+  {
+    id: 'reasoning-about-child',
+    category: 'internal-reasoning',
+    severity: 'block',
+    terms: [
+      'my (?:analysis|reasoning|evaluation|internal \\w+)',
+      '(?:analy[sz]\\w*|evaluat\\w*|assess\\w*) (?:you|your)',
+      '(?:track\\w*|monitor\\w*|detect\\w*|measur\\w*) (?:you|your)',
+      "i (?:noticed|detected|can tell) (?:that )?you(?:'re| are) (?:struggling|confused|frustrated|hesitat\\w*)",
+    ],
+    reason: 'Tells the child they are being observed or analysed',
+  },
+  {
+    id: 'struggle-label',
+    category: 'internal-reasoning',
+    severity: 'rewrite',
+    terms: [`${YOU} (?:so |a bit |a little )?(?:struggling|having (?:a hard time|difficulty|trouble))`],
+    replacement: "you're working really hard",
+    reason: 'Labels the child as struggling',
+  },
+  {
+    id: 'confusion-label',
+    category: 'internal-reasoning',
+    severity: 'rewrite',
+    terms: [`${YOU} (?:so |a bit |a little )?confused`],
+    replacement: "you're thinking carefully",
+    reason: 'Labels the child as confused',
+  },
+
+  // Technical terms about the system itself
+  {
+    id: 'system-internals',
+    category: 'technical',
+    severity: 'block',
+    terms: [
+      'utterance\\w*', 'metadata', 'confidence (?:score|level|threshold)',
+      'the api', 'gpt\\w*', 'openai', 'llm',
+      '(?:language|ai|large language|machine learning) models?',
+      '(?:system|my) (?:prompt|instructions)', 'prompt injection',
+    ],
+    reason: 'Technical detail about how the companion works',
+  },
+
+  // Negative framing
+  {
+    id: 'wrong-answer',
+    category: 'negative-framing',
+    severity: 'rewrite',
+    terms: [
+      "(?:that's|that is|it's|it is|you're|you are) (?:wrong|incorrect|not right)",
+      '(?:wrong|incorrect|bad) answer',
+    ],
+    replacement: "let's try another way",
+    reason: 'Corrects the child negatively',
+  },
+  {
+    id: 'you-cant',
+    category: 'negative-framing',
+    severity: 'rewrite',
+    // Only statements about a skill - "you can't stop smiling" is praise
+    terms: [
+      `you (?:can't|cannot|can not)(?= (?:${SKILLS})\\b)`,
+      "you (?:are unable to|aren't able to)",
+    ],
+    replacement: "you're learning to",
+    reason: "Tells the child what they can't do",
+  },
+  {
+    id: 'you-failed',
+    category: 'negative-framing',
+    severity: 'rewrite',
+    terms: ['you (?:failed|messed up|got it wrong)'],
+    replacement: 'you tried',
+    reason: 'Frames an attempt as failure',
+  },
+  {
+    id: 'put-down',
+    category: 'negative-framing',
+    severity: 'block',
+    terms: [
+      `${YOU} (?:bad|poor|weak|slow|stupid|dumb|lazy) at`,
+      `${YOU} (?:stupid|dumb|lazy|silly for)`,
+      'bad job', 'not good enough', 'try harder', 'what a failure',
+    ],
+    reason: 'Criticises or belittles the child',
+  },
+  {
+    id: 'problem-with-child',
+    category: 'negative-framing',
+    severity: 'block',
+    terms: [
+      "(?:what's|what is|something(?: is|'s)?) wrong with you",
+      '(?:the|your) (?:problem|issue) (?:is|with) you',
+      'you (?:have|have got|got) (?:a|an) (?:problem|issue)',
+    ],
+    reason: 'Tells the child something is wrong with them',
+  },
+
+  // Personal information
+  {
+    id: 'credentials',
+    category: 'personal-info',
+    severity: 'block',
+    terms: ['password\\w*', 'credit card\\w*', 'ssn', 'social security', 'pin number', 'bank account'],
+    reason: 'Sensitive personal or financial information',
+  },
+  {
+    id: 'asks-identifying-details',
+    category: 'personal-info',
+    severity: 'block',
+    terms: [
+      "(?:what's|what is|tell me|where is|where's) your (?:home |house |street )?(?:address|phone number|last name|full name|surname|school|email)",
+      'where do you live',
+      'what school do you go to',
+      "(?:are|is) your (?:mom|mum|dad|parents?) (?:home|there|around|away)",
+      "(?:don't|do not) tell your (?:mom|mum|dad|parents?|teacher)",
+      'our (?:little )?secrets?',
+      "(?:it's|it is|this is|that's|that is) (?:a|our) (?:little )?secret",
+      'keep (?:it |this |that )?(?:a |our )?(?:little )?secrets?',
+      'send (?:me )?a (?:photo|picture)',
+    ],
+    benign: ['secret (?:handshakes?|codes?|recipes?|gardens?|ingredients?|passages?|doors?|tunnels?|hideouts?|clubs?|maps?|messages?)'],
+    reason: 'Asks for identifying details or encourages secrecy',
+  },
+
+  // Unsafe content
+  {
+    id: 'violence',
+    category: 'unsafe',
+    severity: 'block',
+    terms: [
+      'kill', 'kills', 'killed', 'killing', 'killers?',
+      'guns?', 'weapons?', 'knife', 'knives',
+      'shoot', 'shoots', 'shooting', 'shot', 'stab', 'stabs', 'stabbed', 'stabbing',
+      'blood', 'bloody', 'murder', 'murders', 'murdered', 'murderers?',
+    ],
+    benign: [
+      'killer whales?',
+      'shooting stars?',
+      '(?:grows?|growing|new|green|young|tiny|little|bamboo|bean) shoots',
+      'shoots? (?:a|the) (?:ball|hoop|basket|goal)',
+      'shoots? (?:the |a |their |our )?cannons?',
+      '(?:give|gives|gave|giving) (?:it|this|that) a shot',
+      '(?:have|has|had|get|gets|got) a shot at',
+      '(?:doctors?|vets?|nurses?)\\b[^.!?]*\\b(?:a|the|its|their|his|her) shots?',
+    ],
+    reason: 'Violent content',
+  },
+  {
+    id: 'death-young',
+    category: 'unsafe',
+    severity: 'block',
+    terms: ['die', 'died', 'dies', 'dying', 'dead', 'death'],
+    ages: { max: 6 },
+    reason: 'Death is too heavy for young children without a parent present',
+  },
+  {
+    id: 'death-older',
+    category: 'unsafe',
+    severity: 'allow-in-context',
+    terms: ['die', 'died', 'dies', 'dying', 'dead', 'death'],
+    ages: { min: 7 },
+    allowedContexts: [
+      /\b(?:dinosaurs?|extinct|fossils?|leaves|plants?|flowers?|trees?|battery|batteries|dead end|life cycle)\b/i,
+    ],
+    reason: 'Talk of death outside a nature or science context',
+  },
+  {
+    id: 'self-harm-and-adult',
+    category: 'unsafe',
+    severity: 'block',
+    terms: ['hurt yourself', 'suicide', 'drugs?', 'alcohol', 'beer', 'wine', 'cigarettes?', 'sexy?', 'naked'],
+    reason: 'Self-harm or adult content',
+  },
+];
+
+function compileTerm(term: string): RegExp {
+  return new RegExp(`\\b${term.replace(/ /g, '\\s+')}\\b`, 'gi');
+}
+
+const COMPILED = RULES.map(rule => ({
+  rule,
+  patterns: rule.terms.map(compileTerm),
+  benign: (rule.benign ?? []).map(compileTerm),
+}));
+
+function appliesToAge(rule: GuardRule, childAge?: number): boolean {
+  // Without an age, apply every rule (strictest set)
+  if (childAge === undefined || !rule.ages) return true;
+  return childAge >= (rule.ages.min ?? 0) && childAge <= (rule.ages.max ?? Infinity);
+}
+
+/**
+ * The rule set for a child's age
+ */
+export function rulesForAge(childAge?: number): GuardRule[] {
+  return RULES.filter(rule => appliesToAge(rule, childAge));
+}
+
+/**
+ * Character spans of the text covered by a rule's benign phrases
+ */
+function benignSpans(text: string, benign: RegExp[]): Array<[number, number]> {
+  return benign.flatMap(pattern =>
+    Array.from(text.matchAll(pattern), (found): [number, number] => [found.index!, found.index! + found[0].length])
+  );
+}
+
+function findMatches(text: string, childAge?: number): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+
+  for (const { rule, patterns, benign } of COMPILED) {
+    if (!appliesToAge(rule, childAge)) continue;
+    const harmless = benignSpans(text, benign);
+
+    for (const pattern of patterns) {
+      for (const found of text.matchAll(pattern)) {
+        const start = found.index!;
+        const end = start + found[0].length;
+        if (harmless.some(([from, to]) => start < to && end > from)) continue;
+
+        const allowed =
+          rule.severity === 'allow-in-context' &&
+          (rule.allowedContexts ?? []).some(context => context.test(text));
+
+        matches.push({
+          ruleId: rule.id,
+          category: rule.category,
+          severity: rule.severity,
+          text: found[0],
+          outcome: allowed ? 'allowed' : rule.severity === 'rewrite' ? 'rewritten' : 'blocked',
+          reason: rule.reason,
+        });
+      }
+    }
+  }
+
+  return matches;
+}
+
+// Keep sentence-initial capitals when swapping a phrase
+function matchCase(original: string, replacement: string): string {
+  return /^[A-Z]/.test(original)
+    ? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+    : replacement;
+}
+
+function applyRewrites(text: string, childAge?: number): string {
+  let rewritten = text;
+
+  for (const { rule, patterns } of COMPILED) {
+    if (rule.severity !== 'rewrite' || !appliesToAge(rule, childAge)) continue;
+
+    for (const pattern of patterns) {
+      rewritten = rewritten.replace(pattern, found => matchCase(found, rule.replacement!));
+    }
+  }
+
+  return rewritten;
+}
+
+function explain(match: RuleMatch): string {
+  return `${match.outcome} "${match.text}" (${match.category}/${match.ruleId}): ${match.reason}`;
+}
+
+/**
+ * Evaluate child-facing text against the rule set for the child's age.
+ * Rewrites are re-checked: a sentence is only 'rewrite' if the rewritten
+ * text passes cleanly, otherwise it is blocked.
+ */
+export function evaluateContent(text: string, childAge?: number): GuardEvaluation {
+  const matches = findMatches(text, childAge);
+  const explanation = matches.map(explain);
+
+  if (matches.some(m => m.outcome === 'blocked')) {
+    return { action: 'block', text, matches, explanation };
+  }
+
+  if (!matches.some(m => m.outcome === 'rewritten')) {
+    return { action: 'allow', text, matches, explanation };
+  }
+
+  const rewritten = applyRewrites(text, childAge);
+  const recheck = findMatches(rewritten, childAge).filter(m => m.outcome !== 'allowed');
+
+  if (recheck.length > 0) {
+    return {
+      action: 'block',
+      text,
+      matches,
+      explanation: [...explanation, ...recheck.map(m => `after rewrite, ${explain(m)}`)],
+    };
+  }
+
+  return { action: 'rewrite', text: rewritten, matches, explanation };
+}
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { guardContent, reviewStream } from './guardrails';
+import { setLLMProvider } from './providers';
+import { createScriptedProvider } from './providers/scripted';
+import { SAFE_RESPONSES } from './safeResponses';
+
+async function* sentences(...items: string[]): AsyncGenerator<string> {
+  yield* items;
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const released: string[] = [];
+  for await (const sentence of stream) released.push(sentence);
+  return released;
+}
+
+describe('reviewStream', () => {
+  afterEach(() => setLLMProvider(undefined));
+
+  it('holds back sentences the AI review flags', async () => {
+    setLLMProvider(createScriptedProvider({
+      'safety-review': [
+        JSON.stringify({ safe: true, violations: [] }),
+        JSON.stringify({ safe: false, violations: ['scary'] }),
+      ],
+    }));
+    const flagged: string[] = [];
+
+    const released = await collect(reviewStream(
+      sentences('What a big tree!', 'Something scary lives there.'),
+      { childAge: 5, vocabularyLevel: 'beginner' },
+      sentence => flagged.push(sentence)
+    ));
+
+    expect(released).toEqual(['What a big tree!']);
+    expect(flagged).toEqual(['Something scary lives there.']);
+  });
+
+  it('fails closed when the review has no verdict', async () => {
+    setLLMProvider(createScriptedProvider({ 'safety-review': ['not json at all'] }));
+
+    const released = await collect(reviewStream(
+      sentences('What a big tree!'),
+      { childAge: 5, vocabularyLevel: 'beginner' }
+    ));
+
+    expect(released).toEqual([]);
+  });
+});
+
+describe('guardContent', () => {
+  const context = { childAge: 4, vocabularyLevel: 'beginner', fallbackType: 'encouragement' as const };
+  const library = SAFE_RESPONSES.early.encouragement;
+
+  afterEach(() => setLLMProvider(undefined));
+
+  it('falls back to the library when a rule blocks', async () => {
+    setLLMProvider(createScriptedProvider({
+      'safety-review': [JSON.stringify({ safe: true, violations: [] })],
+    }));
+
+    const result = await guardContent('Let me show you a gun.', context);
+
+    expect(result.fallback).toBe(true);
+    expect(library).toContain(result.sanitizedContent);
+    expect(result.ruleIds).toEqual(['violence']);
+  });
+
+  it('falls back to the library when the review fails', async () => {
+    setLLMProvider(createScriptedProvider({ 'safety-review': ['not json at all'] }));
+
+    const result = await guardContent('What a big tree!', context);
+
+    expect(result.fallback).toBe(true);
+    expect(library).toContain(result.sanitizedContent);
+    expect(result.ruleIds).toContain('ai-review-failed');
+  });
+
+  it("falls back to the library when the reviewer's suggestion breaks a rule", async () => {
+    setLLMProvider(createScriptedProvider({
+      'safety-review': [JSON.stringify({
+        safe: false,
+        violations: ['scary'],
+        suggestion: 'Let me show you a gun.',
+      })],
+    }));
+
+    const result = await guardContent('Something scary lives there.', context);
+
+    expect(result.fallback).toBe(true);
+    expect(library).toContain(result.sanitizedContent);
+    expect(result.ruleIds).toEqual(['ai-review']);
+  });
+
+  it('passes a safe verdict through unchanged', async () => {
+    setLLMProvider(createScriptedProvider({
+      'safety-review': [JSON.stringify({ safe: true, violations: [] })],
+    }));
+
+    const result = await guardContent('What a big tree!', context);
+
+    expect(result).toMatchObject({ safe: true, sanitizedContent: 'What a big tree!', violations: [] });
+    expect(result.fallback).toBeUndefined();
+  });
+});
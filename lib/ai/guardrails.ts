@@ -8,179 +8,236 @@
  * - Personal information
  * - Unsafe or inappropriate content
  * 
- * All AI outputs pass through multiple layers of protection.
+ * All AI outputs pass through multiple layers of protection, and every
+ * path fails closed to the vetted safe-response library.
  */
 
-import OpenAI from 'openai';
+import { renderPrompt } from '@/lib/ai/prompts';
+import { safetyVerdictSchema } from '@/lib/ai/outputSchemas';
+import { completeStructured } from '@/lib/ai/structuredOutput';
+import { GuardEvaluation, evaluateContent } from './guardrailRules';
+import { getSafeResponse } from './safeResponses';
+import type { NudgeType } from './scaffolding';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-interface GuardrailResult {
+export interface GuardrailResult {
   safe: boolean;
   sanitizedContent: string;
   violations: string[];
+  explanation?: string[]; // Which rules fired and why
+  ruleIds?: string[]; // Rule engine ids, plus 'ai-review' / 'ai-review-failed'
   suggestion?: string;
+  fallback?: boolean; // sanitizedContent came from the safe-response library
 }
 
-// Patterns that should NEVER appear in child-facing content
-const FORBIDDEN_PATTERNS = [
-  // Internal reasoning exposure
-  /reasoning|analysis|internal|covert|scaffold|intervention/gi,
-  /struggle|struggling|difficulty|problem|issue|confused/gi,
-  /assessment|evaluate|track|monitor|detect/gi,
-  
-  // Negative framing
-  /wrong|incorrect|bad|poor|weak|failure/gi,
-  /can't|cannot|unable|failed/gi,
-  
-  // Metadata/technical terms
-  /utterance|metadata|confidence|threshold/gi,
-  /API|prompt|model|GPT/gi,
-  
-  // Personal information patterns
-  /password|credit card|ssn|social security/gi,
-];
-
-// Positive alternative phrasings
-const POSITIVE_ALTERNATIVES: Record<string, string> = {
-  'struggling': 'learning',
-  'wrong': 'let\'s try another way',
-  'incorrect': 'interesting idea',
-  'problem': 'challenge',
-  'confused': 'thinking carefully',
-  'can\'t': 'learning how to',
-  'failed': 'tried',
-};
-
 /**
- * Primary content filter - checks for forbidden patterns
+ * Primary content filter - runs the context-aware rule engine
+ * (see guardrailRules.ts) for the child's age
  */
-export function checkForbiddenPatterns(content: string): {
+export function checkForbiddenPatterns(content: string, childAge?: number): {
   hasForbidden: boolean;
   violations: string[];
+  evaluation: GuardEvaluation;
 } {
-  const violations: string[] = [];
-  
-  for (const pattern of FORBIDDEN_PATTERNS) {
-    const matches = content.match(pattern);
-    if (matches) {
-      violations.push(...matches);
-    }
-  }
+  const evaluation = evaluateContent(content, childAge);
+  const violations = evaluation.matches
+    .filter(match => match.outcome !== 'allowed')
+    .map(match => match.text);
   
   return {
-    hasForbidden: violations.length > 0,
+    hasForbidden: evaluation.action !== 'allow',
     violations: Array.from(new Set(violations)), // Remove duplicates
+    evaluation,
   };
 }
 
 /**
- * Sanitize content by replacing negative terms with positive alternatives
+ * Sanitize content by rewriting negative phrases with vetted alternatives
+ * Content that can't be rewritten safely is returned unchanged - check
+ * the evaluation before using it.
  */
-export function sanitizeContent(content: string): string {
-  let sanitized = content;
-  
-  for (const [negative, positive] of Object.entries(POSITIVE_ALTERNATIVES)) {
-    const regex = new RegExp(negative, 'gi');
-    sanitized = sanitized.replace(regex, positive);
-  }
-  
-  return sanitized;
+export function sanitizeContent(content: string, childAge?: number): string {
+  return evaluateContent(content, childAge).text;
 }
 
 /**
  * AI-powered secondary safety review
- * Uses GPT to detect subtle issues that pattern matching might miss
+ * Uses the model to detect subtle issues that rule matching might miss.
+ * Only a schema-valid verdict of `"safe": true` passes; anything else -
+ * including a failed call or output that can't be repaired - is unsafe.
  */
 export async function aiSafetyReview(
   content: string,
   context: { childAge: number; vocabularyLevel: string }
-): Promise<GuardrailResult> {
+): Promise<GuardrailResult & { reviewFailed: boolean }> {
   try {
-    const response = await openai.chat.completions.create({
-      model: process.env.OPENAI_MODEL || 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `You are a safety reviewer for educational content shown to children (age ${context.childAge}).
-Your job is to:
-1. Identify any unsafe, inappropriate, or negative content
-2. Check if the content is age-appropriate
-3. Ensure the tone is warm, encouraging, and positive
-4. Verify no internal reasoning or technical jargon is exposed
-
-Respond with JSON:
-{
-  "safe": boolean,
-  "violations": string[],
-  "suggestion": "alternative phrasing if unsafe"
-}`,
-        },
-        {
-          role: 'user',
-          content: `Review this content for a child:\n\n"${content}"`,
-        },
-      ],
-      response_format: { type: 'json_object' },
+    const prompt = renderPrompt('safety-review', { childAge: context.childAge, content });
+    const result = await completeStructured(prompt, safetyVerdictSchema, {
       temperature: 0.3,
     });
-
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    
+    if (!result.ok) {
+      throw new Error(`Safety review returned no valid verdict: ${result.error}`);
+    }
     
     return {
-      safe: result.safe ?? true,
-      sanitizedContent: result.safe ? content : (result.suggestion || content),
-      violations: result.violations || [],
-      suggestion: result.suggestion,
+      safe: result.data.safe,
+      sanitizedContent: content,
+      violations: result.data.violations,
+      suggestion: result.data.suggestion ?? undefined,
+      reviewFailed: false,
     };
   } catch (error) {
     console.error('AI safety review failed:', error);
-    // Fail-safe: if review fails, assume unsafe and sanitize
+    // Fail closed: an unreviewed sentence is an unsafe sentence
     return {
       safe: false,
-      sanitizedContent: sanitizeContent(content),
-      violations: ['AI review failed - applied default sanitization'],
+      sanitizedContent: content,
+      violations: ['AI review failed'],
+      reviewFailed: true,
     };
   }
 }
 
 /**
- * Comprehensive guardrail check - combines pattern matching and AI review
+ * Comprehensive guardrail check - combines rule matching and AI review
+ *
+ * Fails closed: `sanitizedContent` is always safe to speak. It is the
+ * original text, a rule-checked rewrite, or - when review fails or nothing
+ * checked can be salvaged - a vetted line from the safe-response library.
  */
 export async function guardContent(
   content: string,
-  context: { childAge: number; vocabularyLevel: string }
+  context: { childAge: number; vocabularyLevel: string; fallbackType?: NudgeType }
 ): Promise<GuardrailResult> {
-  // Step 1: Pattern-based filtering
-  const patternCheck = checkForbiddenPatterns(content);
+  // Step 1: Rule-based filtering
+  const { evaluation, violations } = checkForbiddenPatterns(content, context.childAge);
+  const ruleIds = Array.from(new Set(
+    evaluation.matches.filter(m => m.outcome !== 'allowed').map(m => m.ruleId)
+  ));
   
-  if (patternCheck.hasForbidden) {
-    // Content has forbidden patterns - sanitize immediately
-    const sanitized = sanitizeContent(content);
-    
+  const fallback = (extraViolations: string[], extraRuleIds: string[]): GuardrailResult => ({
+    safe: false,
+    sanitizedContent: getSafeResponse(context.fallbackType ?? 'thinking', context.childAge),
+    violations: [...violations, ...extraViolations],
+    explanation: [...evaluation.explanation, 'replaced with a vetted safe response'],
+    ruleIds: [...ruleIds, ...extraRuleIds],
+    fallback: true,
+  });
+  
+  if (evaluation.action === 'block') {
+    return fallback([], []);
+  }
+  
+  // Step 2: AI-powered safety review (for subtle issues) of what we'd say
+  const candidate = evaluation.text;
+  const aiReview = await aiSafetyReview(candidate, context);
+  
+  if (aiReview.reviewFailed) {
+    return fallback(aiReview.violations, ['ai-review-failed']);
+  }
+  
+  if (aiReview.safe) {
     return {
-      safe: false,
-      sanitizedContent: sanitized,
-      violations: patternCheck.violations,
-      suggestion: sanitized,
+      safe: evaluation.action === 'allow',
+      sanitizedContent: candidate,
+      violations,
+      explanation: evaluation.explanation,
+      ruleIds,
     };
   }
   
-  // Step 2: AI-powered safety review (for subtle issues)
-  const aiReview = await aiSafetyReview(content, context);
+  // The reviewer's own suggestion is only used if it passes the rules cleanly
+  const suggestion = aiReview.suggestion?.trim();
+  if (suggestion && quickGuard(suggestion, context.childAge)) {
+    return {
+      safe: false,
+      sanitizedContent: suggestion,
+      violations: [...violations, ...aiReview.violations],
+      explanation: [...evaluation.explanation, 'replaced with the reviewer suggestion'],
+      ruleIds: [...ruleIds, 'ai-review'],
+      suggestion,
+    };
+  }
   
-  return aiReview;
+  return fallback(aiReview.violations, ['ai-review']);
 }
 
 /**
  * Quick validation for real-time streaming
- * Only uses pattern matching (faster, no API calls)
+ * Only uses the rule engine (faster, no API calls)
+ */
+export function quickGuard(content: string, childAge?: number): boolean {
+  return evaluateContent(content, childAge).action === 'allow';
+}
+
+/**
+ * Rolling sentence-level guard for streamed model output
+ * Buffers deltas until a sentence completes, then releases it only if the
+ * rule engine allows it (or a vetted rewrite of it). Blocked spans are held
+ * back and never reach the child; blocked and rewritten spans are both
+ * reported to onFlagged.
  */
-export function quickGuard(content: string): boolean {
-  const { hasForbidden } = checkForbiddenPatterns(content);
-  return !hasForbidden;
+export async function* guardStream(
+  deltas: AsyncIterable<string>,
+  onFlagged?: (span: string, evaluation: GuardEvaluation) => void,
+  childAge?: number
+): AsyncGenerator<string> {
+  let buffer = '';
+
+  const release = (sentence: string): string | null => {
+    const evaluation = evaluateContent(sentence, childAge);
+    if (evaluation.action !== 'allow') onFlagged?.(sentence, evaluation);
+
+    return evaluation.action === 'block' ? null : evaluation.text;
+  };
+
+  for await (const delta of deltas) {
+    buffer += delta;
+
+    // Release every complete sentence in the buffer
+    let boundary = buffer.search(/[.!?]+(\s|$)/);
+    while (boundary !== -1) {
+      const end = buffer.slice(boundary).search(/\s|$/) + boundary;
+      if (end >= buffer.length) break; // Sentence may still be growing ("!!", "?!")
+
+      const sentence = buffer.slice(0, end).trim();
+      buffer = buffer.slice(end);
+
+      const safe = sentence ? release(sentence) : null;
+      if (safe) yield safe;
+
+      boundary = buffer.search(/[.!?]+(\s|$)/);
+    }
+  }
+
+  // Flush whatever is left when the model finishes
+  const rest = buffer.trim();
+  if (rest) {
+    const safe = release(rest);
+    if (safe) yield safe;
+  }
+}
+
+/**
+ * AI review stage for the sentences guardStream releases
+ * Each sentence is only passed on once the AI safety review calls it safe.
+ * Unsafe sentences, and sentences whose review failed, are held back and
+ * reported to onFlagged - live text is never released unchecked.
+ */
+export async function* reviewStream(
+  sentences: AsyncIterable<string>,
+  context: { childAge: number; vocabularyLevel: string },
+  onFlagged?: (sentence: string, review: GuardrailResult & { reviewFailed: boolean }) => void
+): AsyncGenerator<string> {
+  for await (const sentence of sentences) {
+    const review = await aiSafetyReview(sentence, context);
+
+    if (review.safe) {
+      yield sentence;
+    } else {
+      onFlagged?.(sentence, review);
+    }
+  }
 }
 
 /**
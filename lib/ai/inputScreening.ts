@@ -0,0 +1,325 @@
+/**
+ * CHILD INPUT SCREENING
+ *
+ * SERVER-SIDE ONLY. Runs on every child utterance before it is stored or
+ * sent to a model - the guardrails only ever see what the AI says back.
+ *
+ * - Personal information (phone numbers, emails, addresses, full names,
+ *   schools) is redacted to placeholders like "[phone number]"
+ * - Safety disclosures (self-harm, abuse, danger) and strong distress are
+ *   detected so the parent can be told, instead of the child getting an
+ *   ordinary chatty reply
+ * - Prompt-injection attempts are detected, and the whole utterance is
+ *   replaced by "[instructions removed]" so the text never reaches a model -
+ *   not on this turn, and not later from the stored history
+ *
+ * Patterns are deliberately first-person and specific: "pretend you're a
+ * dinosaur" is play, "ignore your instructions" is not. Addresses need a
+ * house number and a street word, names need a word that isn't everyday
+ * English, and the child's own first name is never redacted. Disclosures
+ * skip phrases that only sound alarming ("lost in thought"), and play
+ * ("a pillow fight") lowers one to normal priority.
+ */
+
+import { wordBand } from '@/lib/ai/lexicon';
+
+export type PIIKind = 'phone' | 'email' | 'address' | 'name' | 'school';
+
+export type DisclosureCategory = 'self-harm' | 'abuse' | 'danger' | 'distress';
+
+export type DisclosurePriority = 'high' | 'normal';
+
+export interface Redaction {
+  kind: PIIKind;
+  count: number;
+}
+
+export interface Disclosure {
+  category: DisclosureCategory;
+  priority: DisclosurePriority;
+  matched: string[];
+}
+
+export interface InputScreening {
+  text: string; // Redacted - the only version that may be stored or sent to a model
+  redactions: Redaction[];
+  disclosure: Disclosure | null;
+  injection: string[]; // Matched injection phrases
+}
+
+interface RedactionRule {
+  kind: PIIKind;
+  pattern: RegExp;
+  redact: (found: string, ...groups: string[]) => string;
+  keep?: (groups: string[], childName?: string) => boolean; // Leave this match as it is
+}
+
+// Name-shaped words (speech-to-text capitalizes names)
+const NAME = "[A-Z][a-z]+(?:[-'][A-Z]?[a-z]+)?";
+
+// Words between a house number and the street word: never small words,
+// so "3 ducks in the way" isn't an address
+const STREET_NAME_WORD = '(?!(?:the|a|an|in|on|at|to|of|by|and|or|up|down|over|across|along|near|my|our)\\b)[A-Za-z]+';
+const STREET = 'street|st|avenue|ave|road|rd|lane|ln|drive|dr|court|ct|boulevard|blvd|way|place|pl|circle|terrace';
+
+// Family words that follow "I live with/in" and aren't places
+const FAMILY = 'Mom|Mum|Mommy|Mummy|Dad|Daddy|Grandma|Grandpa|Granny|Nana|Papa|Auntie|Uncle';
+
+/**
+ * Capitalized words that are all everyday English ("Happy Today") are
+ * speech-to-text capitals, not a name
+ */
+function everydayWords(text: string): boolean {
+  return text.trim().split(/\s+/).every(word => wordBand(word) === 1);
+}
+
+function isFirstName(text: string, childName?: string): boolean {
+  const first = childName?.trim().split(/\s+/)[0];
+  return !!first && text.trim().toLowerCase() === first.toLowerCase();
+}
+
+const REDACTIONS: RedactionRule[] = [
+  {
+    kind: 'email',
+    pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+    redact: () => '[email]',
+  },
+  {
+    kind: 'phone',
+    pattern: /(?:\+?\d{1,3}[\s.-]?)?(?:\(\d{3}\)|\b\d{3})[\s.-]?\d{3}[\s.-]?\d{4}\b|\b\d{3}[\s.-]?\d{4}\b/g,
+    redact: () => '[phone number]',
+  },
+  {
+    kind: 'address',
+    pattern: new RegExp(`\\b\\d{1,5}[A-Za-z]?\\s+(?:${STREET_NAME_WORD}\\s+){1,3}(?:${STREET})\\b\\.?`, 'gi'),
+    redact: () => '[address]',
+  },
+  {
+    kind: 'address',
+    pattern: /\b(I live at|my (?:home |house |street )?address is)\s+[^.!?,[]+/gi,
+    redact: (_found, lead) => `${lead} [address]`,
+  },
+  {
+    // "I live on Maple Street", "I live in Springfield" - a place name, not "a big house"
+    kind: 'address',
+    pattern: new RegExp(`\\b([Ii] live (?:on|in))\\s+(?!(?:${FAMILY})\\b)${NAME}(?:\\s+${NAME})*`, 'g'),
+    redact: (_found, lead) => `${lead} [address]`,
+  },
+  {
+    kind: 'name',
+    pattern: new RegExp(`\\b((?:[Mm]y|[Hh]is|[Hh]er|[Oo]ur|[Tt]heir) (?:full |real |last |whole )?name(?:'s| is))\\s+(${NAME}(?:\\s+${NAME})*)`, 'g'),
+    redact: (_found, lead) => `${lead} [name]`,
+    keep: ([, names], childName) => isFirstName(names, childName) || everydayWords(names),
+  },
+  {
+    kind: 'name',
+    pattern: new RegExp(`\\b(I'm|I am)\\s+(${NAME}\\s+${NAME})\\b`, 'g'),
+    redact: (_found, lead) => `${lead} [name]`,
+    keep: ([, names]) => everydayWords(names),
+  },
+  {
+    kind: 'school',
+    pattern: new RegExp(`\\b((?:I go to|my school is))\\s+(?:${NAME}\\s+)+(?:Elementary|Primary|Middle|Public)?\\s*School\\b`, 'gi'),
+    redact: (_found, lead) => `${lead} [school]`,
+  },
+];
+
+interface DisclosureRule {
+  category: DisclosureCategory;
+  priority: DisclosurePriority;
+  terms: string[];
+  benign?: string[]; // Phrases in which a term means something harmless
+  play?: string[]; // Play the child may be describing - lowers the priority to normal
+}
+
+const DISCLOSURES: DisclosureRule[] = [
+  {
+    category: 'self-harm',
+    priority: 'high',
+    terms: [
+      '(?:kill|hurt|cut) myself',
+      "i (?:want|wanna|wish i could) (?:to )?die",
+      'i wish i (?:was|were) (?:dead|never born)',
+      "i (?:don't|do not) want to (?:live|be alive)",
+      'i hate myself',
+    ],
+  },
+  {
+    category: 'abuse',
+    priority: 'high',
+    terms: [
+      '(?:someone|somebody|a grown ?up|an adult|he|she|they|my (?:mom|mum|dad|step\\w*|uncle|aunt|teacher|coach|babysitter|parents?)) (?:always )?(?:hits|hit|hurts|hurt|beats|beat|kicks|kicked|chokes|choked|touches|touched) me',
+      '(?:touched|touch|touches) my private',
+      'private parts',
+      "told me (?:not to tell|to keep (?:it )?(?:a )?secret)",
+      "i'm (?:scared|afraid) (?:to go home|of my (?:mom|mum|dad|step\\w*|uncle|parents?))",
+    ],
+    play: [
+      '(?:pillow|snowball|water|foam|tickle|pretend|play) fights?',
+      'with (?:a|the|his|her|my) (?:pillow|ball|balloon|snowball|water balloon|foam \\w+|toy \\w+)',
+      'by accident', 'accidentally', 'by mistake',
+      '(?:playing|played|play) (?:tag|football|soccer|basketball|dodgeball|catch|a game)',
+    ],
+  },
+  {
+    category: 'danger',
+    priority: 'high',
+    terms: [
+      '(?:a |some )?(?:stranger|man|lady|person) (?:is |was )?(?:following|grabbed|took) me',
+      '(?:someone|somebody) (?:is|was) following me',
+      "i'm (?:lost|home alone and scared)",
+      'i am lost',
+      "(?:there's|there is) a fire",
+      "i can't breathe",
+    ],
+    benign: [
+      '(?:lost|lost myself) in (?:thought|thoughts|my thoughts|a book|the book|a story|the story|a game|the game|a daydream|the music|a song|the maze|the puzzle)',
+      "(?:i'm|i am) lost (?:for words|at this game|at this)",
+    ],
+  },
+  {
+    category: 'distress',
+    priority: 'normal',
+    terms: [
+      '(?:nobody|no one|no-one) (?:loves|likes|cares about) me',
+      'everyone hates me',
+      'i want to run away',
+      "i'm always (?:alone|sad)",
+    ],
+  },
+];
+
+// Stands in for an utterance that tried to give the model instructions
+export const INJECTION_PLACEHOLDER = '[instructions removed]';
+
+const INJECTIONS = [
+  '(?:ignore|forget|disregard) (?:all |any |your |the |my )?(?:previous |earlier |above |prior |old )?(?:instructions|rules|prompts?|directions)',
+  '(?:system|developer) (?:prompt|message|mode)',
+  'new instructions',
+  '(?:reveal|show|print|repeat) (?:me )?your (?:instructions|prompt|rules)',
+  "you(?:'re| are) (?:now )?(?:no longer|not) (?:an? )?(?:ai|assistant|companion)",
+  'jailbreak\\w*',
+  'do anything now',
+  '^(?:system|assistant)\\s*:',
+  '</?(?:system|assistant|instructions?)>',
+];
+
+const PRIORITY_ORDER: DisclosureCategory[] = ['self-harm', 'abuse', 'danger', 'distress'];
+
+function compileTerm(term: string): RegExp {
+  return new RegExp(`(?<!\\w)${term.replace(/ /g, '\\s+')}(?!\\w)`, 'gim');
+}
+
+const COMPILED_DISCLOSURES = DISCLOSURES.map(rule => ({
+  rule,
+  patterns: rule.terms.map(compileTerm),
+  benign: (rule.benign ?? []).map(compileTerm),
+  play: (rule.play ?? []).map(compileTerm),
+}));
+
+const COMPILED_INJECTIONS = INJECTIONS.map(compileTerm);
+
+function findAll(text: string, patterns: RegExp[]): string[] {
+  return patterns.flatMap(pattern => Array.from(text.matchAll(pattern), found => found[0].trim()));
+}
+
+function redact(text: string, childName?: string): { text: string; redactions: Redaction[] } {
+  const counts = new Map<PIIKind, number>();
+  const count = (kind: PIIKind) => counts.set(kind, (counts.get(kind) ?? 0) + 1);
+
+  let redacted = text;
+
+  for (const rule of REDACTIONS) {
+    redacted = redacted.replace(rule.pattern, (found: string, ...groups: string[]) => {
+      if (rule.keep?.(groups, childName)) return found;
+      count(rule.kind);
+      return rule.redact(found, ...groups);
+    });
+  }
+
+  // The child's own first name is fine; their surname is not
+  if (childName) {
+    const first = childName.trim().split(/\s+/)[0].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const withSurname = new RegExp(`\\b(${first})\\s+${NAME}\\b`, 'g');
+    redacted = redacted.replace(withSurname, (found: string, name: string) => {
+      if (everydayWords(found.slice(name.length))) return found;
+      count('name');
+      return `${name} [name]`;
+    });
+  }
+
+  return {
+    text: redacted,
+    redactions: Array.from(counts, ([kind, n]) => ({ kind, count: n })),
+  };
+}
+
+/**
+ * Matches that don't fall inside one of the benign phrases
+ */
+function findOutside(text: string, patterns: RegExp[], benign: RegExp[]): string[] {
+  const harmless = benign.flatMap(pattern =>
+    Array.from(text.matchAll(pattern), (found): [number, number] => [found.index!, found.index! + found[0].length])
+  );
+
+  return patterns.flatMap(pattern =>
+    Array.from(text.matchAll(pattern))
+      .filter(found => !harmless.some(([from, to]) => found.index! < to && found.index! + found[0].length > from))
+      .map(found => found[0].trim())
+  );
+}
+
+function detectDisclosure(text: string): Disclosure | null {
+  const found = COMPILED_DISCLOSURES
+    .map(({ rule, patterns, benign, play }) => ({
+      category: rule.category,
+      priority: findAll(text, play).length > 0 ? 'normal' as const : rule.priority,
+      matched: findOutside(text, patterns, benign),
+    }))
+    .filter(({ matched }) => matched.length > 0)
+    .sort((a, b) =>
+      (a.priority === b.priority ? 0 : a.priority === 'high' ? -1 : 1) ||
+      PRIORITY_ORDER.indexOf(a.category) - PRIORITY_ORDER.indexOf(b.category)
+    );
+
+  if (found.length === 0) return null;
+
+  const [top] = found;
+  return {
+    category: top.category,
+    priority: top.priority,
+    matched: found.flatMap(({ matched }) => matched),
+  };
+}
+
+/**
+ * Screen a child's utterance before it is stored or sent to any model.
+ * Disclosures are detected on the original words; everything downstream
+ * should use the redacted text, which is only a placeholder after an
+ * injection attempt.
+ */
+export function screenChildInput(
+  text: string,
+  options: { childName?: string } = {}
+): InputScreening {
+  const { text: redacted, redactions } = redact(text, options.childName);
+  const injection = findAll(text, COMPILED_INJECTIONS);
+
+  return {
+    text: injection.length > 0 ? INJECTION_PLACEHOLDER : redacted,
+    redactions,
+    disclosure: detectDisclosure(text),
+    injection,
+  };
+}
+
+/**
+ * Whether the screening changed or flagged anything worth recording
+ */
+export function isFlagged(screening: InputScreening): boolean {
+  return (
+    screening.redactions.length > 0 ||
+    screening.disclosure !== null ||
+    screening.injection.length > 0
+  );
+}
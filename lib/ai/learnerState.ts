@@ -0,0 +1,205 @@
+/**
+ * LEARNER STATE STORE
+ *
+ * SERVER-SIDE ONLY. Persists the covert ChildState between utterances so
+ * engagement, emotional state, hesitation and vocabulary carry across turns
+ * (per session) and across sessions (rolled up per child).
+ *
+ * Writes use an optimistic version check inside a transaction, so two
+ * utterances processed at once can't silently overwrite each other.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ChildState, ReasoningAnalysis, updateChildState } from './reasoningEngine';
+
+export interface LearnerProfile {
+  emotionalState: ChildState['emotionalState'];
+  engagementScore: number; // Latest, 0-100
+  engagementTrend: { sessionId: string; score: number }[]; // Oldest first
+  vocabulary: string[]; // Most recent last
+  hesitationCount: number;
+  lastSeenAt: string | null;
+}
+
+type StoredChildState = Omit<ChildState, 'lastUtteranceTime'> & {
+  lastUtteranceTime: string;
+};
+
+const DEFAULT_ENGAGEMENT = 70; // Mid-range until we know the child
+const PROFILE_VOCABULARY_LIMIT = 200;
+const SESSION_VOCABULARY_LIMIT = 50;
+const TREND_LIMIT = 20;
+const MAX_WRITE_ATTEMPTS = 3;
+
+class LearnerStateConflictError extends Error {
+  constructor(sessionId: string) {
+    super(`Learner state for session ${sessionId} changed concurrently`);
+    this.name = 'LearnerStateConflictError';
+  }
+}
+
+function serializeState(state: ChildState): string {
+  const stored: StoredChildState = {
+    ...state,
+    lastUtteranceTime: state.lastUtteranceTime.toISOString(),
+  };
+  return JSON.stringify(stored);
+}
+
+function deserializeState(json: string): ChildState {
+  const stored: StoredChildState = JSON.parse(json);
+  return {
+    ...stored,
+    lastUtteranceTime: new Date(stored.lastUtteranceTime),
+  };
+}
+
+function emptyProfile(): LearnerProfile {
+  return {
+    emotionalState: 'engaged',
+    engagementScore: DEFAULT_ENGAGEMENT,
+    engagementTrend: [],
+    vocabulary: [],
+    hesitationCount: 0,
+    lastSeenAt: null,
+  };
+}
+
+/**
+ * Seed a new session's state from what we already know about the child
+ */
+function seedSessionState(profile: LearnerProfile, vocabularyLevel: string): ChildState {
+  return {
+    vocabularyLevel,
+    recentVocabulary: profile.vocabulary.slice(-SESSION_VOCABULARY_LIMIT),
+    pauseDurations: [],
+    engagementScore: profile.engagementScore,
+    hesitationCount: 0,
+    lastUtteranceTime: new Date(),
+    emotionalState: profile.emotionalState,
+  };
+}
+
+/**
+ * Fold a session's latest state into the child's long-term profile
+ */
+function rollUpProfile(
+  profile: LearnerProfile,
+  sessionId: string,
+  previous: ChildState,
+  next: ChildState
+): LearnerProfile {
+  const trend = profile.engagementTrend.filter(point => point.sessionId !== sessionId);
+  trend.push({ sessionId, score: next.engagementScore });
+
+  const vocabulary = [
+    ...profile.vocabulary.filter(word => !next.recentVocabulary.includes(word)),
+    ...next.recentVocabulary,
+  ].slice(-PROFILE_VOCABULARY_LIMIT);
+
+  return {
+    emotionalState: next.emotionalState,
+    engagementScore: next.engagementScore,
+    engagementTrend: trend.slice(-TREND_LIMIT),
+    vocabulary,
+    hesitationCount: profile.hesitationCount + (next.hesitationCount - previous.hesitationCount),
+    lastSeenAt: next.lastUtteranceTime.toISOString(),
+  };
+}
+
+async function readProfile(
+  tx: Prisma.TransactionClient,
+  childId: string
+): Promise<{ profile: LearnerProfile; version: number | null }> {
+  const row = await tx.childLearnerProfile.findUnique({ where: { childId } });
+  return row
+    ? { profile: { ...emptyProfile(), ...JSON.parse(row.state) }, version: row.version }
+    : { profile: emptyProfile(), version: null };
+}
+
+/**
+ * Get the child's rolled-up learner profile
+ */
+export async function getLearnerProfile(childId: string): Promise<LearnerProfile> {
+  const { profile } = await readProfile(prisma, childId);
+  return profile;
+}
+
+/**
+ * Load the persisted state for a session, creating it from the child's
+ * profile the first time the session is seen
+ */
+export async function loadChildState(
+  sessionId: string,
+  child: { id: string; vocabularyLevel: string }
+): Promise<ChildState> {
+  const existing = await prisma.sessionLearnerState.findUnique({ where: { sessionId } });
+  if (existing) return deserializeState(existing.state);
+
+  const profile = await getLearnerProfile(child.id);
+  const seeded = seedSessionState(profile, child.vocabularyLevel);
+
+  // Another request may have created it first; keep whichever won
+  const row = await prisma.sessionLearnerState.upsert({
+    where: { sessionId },
+    create: { sessionId, state: serializeState(seeded) },
+    update: {},
+  });
+
+  return deserializeState(row.state);
+}
+
+/**
+ * Apply an analysis to the session's persisted state and roll it up to the
+ * child profile, atomically. Retries on concurrent modification.
+ */
+export async function commitChildStateUpdate(
+  sessionId: string,
+  child: { id: string; vocabularyLevel: string },
+  analysis: ReasoningAnalysis
+): Promise<ChildState> {
+  await loadChildState(sessionId, child); // Ensure the row exists
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    try {
+      return await prisma.$transaction(async tx => {
+        const row = await tx.sessionLearnerState.findUniqueOrThrow({ where: { sessionId } });
+        const previous = deserializeState(row.state);
+        const next = updateChildState(previous, analysis);
+
+        const written = await tx.sessionLearnerState.updateMany({
+          where: { sessionId, version: row.version },
+          data: { state: serializeState(next), version: { increment: 1 } },
+        });
+        if (written.count === 0) throw new LearnerStateConflictError(sessionId);
+
+        const { profile, version } = await readProfile(tx, child.id);
+        const rolledUp = JSON.stringify(rollUpProfile(profile, sessionId, previous, next));
+
+        if (version === null) {
+          await tx.childLearnerProfile.create({ data: { childId: child.id, state: rolledUp } });
+        } else {
+          const profileWritten = await tx.childLearnerProfile.updateMany({
+            where: { childId: child.id, version },
+            data: { state: rolledUp, version: { increment: 1 } },
+          });
+          if (profileWritten.count === 0) throw new LearnerStateConflictError(sessionId);
+        }
+
+        return next;
+      });
+    } catch (error) {
+      const conflict =
+        error instanceof LearnerStateConflictError ||
+        // Two first-ever writes raced to create the profile
+        (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002');
+
+      if (!conflict || attempt === MAX_WRITE_ATTEMPTS - 1) {
+        throw error;
+      }
+    }
+  }
+
+  throw new LearnerStateConflictError(sessionId);
+}
@@ -0,0 +1,165 @@
+/**
+ * TARGET LEXICON
+ *
+ * Word frequency bands for young children's speech and early reading,
+ * and the lexicon each vocabulary level allows:
+ *
+ * - band 1: the few hundred words children hear and say most (beginner)
+ * - band 2: common words of early school years (intermediate)
+ * - band 3: everything else (advanced)
+ *
+ * Inflected forms ("jumped", "puppies", "biggest") count as their base
+ * word. Used to measure a child's productive vocabulary and to check
+ * model replies for words above the child's level.
+ */
+
+import { VOCABULARY_LEVELS } from '@/lib/children/validation';
+
+export type VocabularyLevel = (typeof VOCABULARY_LEVELS)[number];
+export type FrequencyBand = 1 | 2 | 3;
+
+const BAND_1 = `
+a about after again all always am an and any are around as ask at away
+baby back bad ball be bear because bed been before best big bird black blue
+boat book both box boy bring brother brown bug but buy by
+cake call came can can't car carry cat chair child clean cold come cookie cow cry cup cut
+dad daddy day did didn't do does dog doll don't done door down draw drink duck
+each eat egg eight eye
+face fall far fast fat feet find fine first fish five fly for found four friend frog from fun funny
+game gave get girl give go goes going good got grandma grandpa grass green grow
+had hair hand happy has hat have he head hear help her here hers hi him his hold home hop horse hot house how hug hurt
+i i'm if in into is it it's its
+jump just
+keep kind kitty know
+laugh let let's light like little live long look lot love
+made make man many may me milk mine mom mommy more morning most mouse much must my myself
+name need never new nice night nine no not now
+of off oh ok okay old on once one only open or orange our out over own
+paint park pick pig pink place play please pretty pull purple push put
+ran read red ride right round run
+sad said same saw say school see seven shall she shoe show sing sister sit six sleep small so some soon start stop sun sure
+table take talk tell ten than thank thanks that that's the their them then there these they thing think this those three to today together too toy tree try two
+under up upon us use
+very
+walk want warm was wash water way we well went were wet what what's when where which white who why will wish with work would wow write
+yellow yes you you're your
+zoo
+`;
+
+const BAND_2 = `
+above across add afraid afternoon against ago air almost alone along already also angry animal another answer ant anything apple arm art asleep aunt awake
+bake balloon banana bank bark basket bath beach bean beautiful bee began begin behind believe bell below belt beside between bicycle bike bite blanket block blow board body bone boot bottle bottom bounce bowl branch brave bread break breakfast breathe bridge bright broke brush bubble build built bunny burn bus busy butter butterfly button
+calm camp candy cap card care careful carrot castle catch caught cave center cheese chicken chocolate choose circle city class climb clock close cloth cloud clown coat color corn corner could count cousin cover crayon cream crown cupcake curly
+dance danger dark dear deep desk different dig dinner dinosaur dirt dirty dish doctor dollar dolphin dot dragon dream dress drop drum dry during
+ear early earth easy edge eleven elephant else empty end enough even evening ever every everyone everything excited
+fairy family farm farmer father favorite fear feel feeling fence few field fight fill finger finish fire floor flower follow food foot forest forget fork forgot fox free fresh fruit full
+garden gentle ghost giant gift giraffe glad glass glove glue goat gold gone goodbye grape gray great ground group guess
+half hall hammer hard heart heavy hello hen hide high hill hit hole honey hope hour hundred hungry hurry
+ice idea important inside instead island
+jacket jar job joke juice
+kick kid king kiss kitchen kite knee knife
+lady lake lamp land large last late later lay lead leaf learn leave left leg lemon less letter lie life lift line lion listen lunch
+mad magic mail map mark maybe mean meet middle might minute miss mix money monkey monster moon mother mountain mouth move music
+near neck nest next noise noisy nose note nothing number nurse
+ocean octopus oops outside owl
+page pair pan pants paper parent part party pass past pat path pay peach pen pencil penguin people pet phone picture pie piece pillow pizza plane plant plate point police pond pool poor present prince princess problem proud puppy puzzle
+queen question quick quiet quite
+rabbit race rain rainbow raise reach ready real really remember rest rice rich ring river road robot rock rocket roll roof room rope rose rub rule
+safe sail salt sand sandwich save scared scary sea season seat second secret seed sell send shape share sharp sheep shell shine shiny ship shirt shop short should shout side sign silly sink size skip sky slide slow smell smile snack snake snow soap sock soft something sometimes song sorry sound soup space speak special spider spoon spot spring square stair stand star stay step stick still stone store storm story straight strange street strong such sugar summer supper surprise swim swing
+tail tall taste teacher teeth through throw tiger time tiny tired toe tomato tomorrow tonight took tooth top touch towel town track train treat triangle trip truck true turn turtle
+ugly uncle until upside
+visit voice
+wagon wait wake wall watch wave weather week whale wheel while whisper whole wide wild win wind window wing winter wolf wonder wood word world worm worried wrong
+yard year yesterday yet young yummy
+zebra zero zip
+twelve twenty thirty forty fifty
+monday tuesday wednesday thursday friday saturday sunday
+`;
+
+const BANDS: Map<string, FrequencyBand> = new Map([
+  ...BAND_2.split(/\s+/).filter(Boolean).map(word => [word, 2] as const),
+  ...BAND_1.split(/\s+/).filter(Boolean).map(word => [word, 1] as const),
+]);
+
+// The highest band each level's lexicon reaches
+const LEVEL_BANDS: Record<VocabularyLevel, FrequencyBand> = {
+  beginner: 1,
+  intermediate: 2,
+  advanced: 3,
+};
+
+/**
+ * Lowercase words in a text, apostrophes kept ("let's"), numbers dropped
+ */
+export function wordsOf(text: string): string[] {
+  return (text.toLowerCase().replace(/[’‘]/g, "'").match(/[a-z]+(?:'[a-z]+)*/g) || []);
+}
+
+/**
+ * The word itself, then the base forms its ending could come from
+ */
+function baseForms(word: string): string[] {
+  const forms = [word];
+  const strip = (suffix: string, ...replacements: string[]) => {
+    if (word.length <= suffix.length + 2 || !word.endsWith(suffix)) return;
+    const stem = word.slice(0, -suffix.length);
+    forms.push(stem, ...replacements.map(replacement => stem + replacement));
+    // Doubled final consonant: "hopped", "biggest", "running"
+    if (/([^aeiou])\1$/.test(stem)) forms.push(stem.slice(0, -1));
+  };
+
+  strip("'s");
+  strip('ies', 'y');
+  strip('es');
+  strip('s');
+  strip('ied', 'y');
+  strip('ed', 'e');
+  strip('ing', 'e');
+  strip('ier', 'y');
+  strip('iest', 'y');
+  strip('er', 'e');
+  strip('est', 'e');
+  strip('ily', 'y');
+  strip('ly');
+  return forms;
+}
+
+/**
+ * The frequency band of a word, by its most common known form
+ */
+export function wordBand(word: string): FrequencyBand {
+  let band: FrequencyBand = 3;
+  for (const form of baseForms(word.toLowerCase())) {
+    const known = BANDS.get(form);
+    if (known && known < band) band = known;
+  }
+  return band;
+}
+
+/**
+ * The highest frequency band a vocabulary level allows
+ */
+export function levelBand(level: string): FrequencyBand {
+  return LEVEL_BANDS[level as VocabularyLevel] ?? 1;
+}
+
+/**
+ * Words in a text above the level's lexicon, once each. Words in `allowed`
+ * (goal words, the child's own words, what was just said) are never above
+ * the level, in any inflection.
+ */
+export function wordsAboveLevel(text: string, level: string, allowed: string[] = []): string[] {
+  const ceiling = levelBand(level);
+  if (ceiling === 3) return [];
+
+  const permitted = new Set(allowed.flatMap(word => wordsOf(word)).flatMap(baseForms));
+  const above = new Set<string>();
+
+  for (const word of wordsOf(text)) {
+    if (word.length < 3 || above.has(word)) continue;
+    if (baseForms(word).some(form => permitted.has(form))) continue;
+    if (wordBand(word) > ceiling) above.add(word);
+  }
+
+  return Array.from(above);
+}
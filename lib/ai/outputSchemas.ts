@@ -0,0 +1,73 @@
+/**
+ * MODEL OUTPUT SCHEMAS
+ *
+ * Zod schemas for every JSON shape a model is asked to produce. Output is
+ * only used once it validates; missing or mistyped fields are a failure to
+ * repair or retry, never something to quietly fill in.
+ */
+
+import { z } from 'zod';
+
+const words = z.array(z.string());
+
+/**
+ * The model's half of a ReasoningAnalysis (timing is measured, not asked for)
+ */
+export const analysisOutputSchema = z.object({
+  vocabularyUsed: words,
+  newWords: words,
+  complexityLevel: z.enum(['simple', 'moderate', 'advanced']),
+  engagementIndicators: words,
+  strugglingIndicators: words,
+  emotionalTone: z.enum(['excited', 'neutral', 'frustrated', 'confused']),
+  shouldIntervene: z.boolean(),
+  interventionReason: z.string().nullish(),
+  suggestedNudge: z.string().nullish(),
+  confidenceScore: z.number().min(0).max(1),
+});
+
+/**
+ * The AI safety reviewer's verdict on one piece of child-facing text
+ */
+export const safetyVerdictSchema = z.object({
+  safe: z.boolean(),
+  violations: words,
+  suggestion: z.string().nullish(),
+});
+
+/**
+ * The end-of-session summary shown to the child
+ */
+export const childSummarySchema = z.object({
+  whatWeTalkedAbout: z.string().min(1),
+  wordsYouUsedWell: words,
+  thinkingQuestion: z.string().min(1),
+});
+
+// Transcript turn numbers a claim is based on
+const evidence = z.array(z.number().int().positive()).min(1);
+
+/**
+ * The parent's session report; claims cite transcript turns
+ */
+export const parentSummaryOutputSchema = z.object({
+  overview: z.string().min(1),
+  wordsUsedWell: z.array(z.object({ word: z.string().min(1), evidence })),
+  thinkingMoments: z.array(z.object({ description: z.string().min(1), evidence })),
+  suggestions: words,
+});
+
+/**
+ * What a finished session adds to the child's long-term memory
+ */
+export const childMemoryOutputSchema = z.object({
+  favoriteTopics: words,
+  characters: words,
+  practiceWords: words,
+});
+
+export type AnalysisOutput = z.infer<typeof analysisOutputSchema>;
+export type SafetyVerdict = z.infer<typeof safetyVerdictSchema>;
+export type ChildSummary = z.infer<typeof childSummarySchema>;
+export type ParentSummaryOutput = z.infer<typeof parentSummaryOutputSchema>;
+export type ChildMemoryOutput = z.infer<typeof childMemoryOutputSchema>;
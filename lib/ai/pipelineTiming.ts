@@ -0,0 +1,86 @@
+/**
+ * PIPELINE TIMING
+ *
+ * SERVER-SIDE ONLY. Per-stage wall-clock timing for one child turn through
+ * the stream endpoint - the load, analysis and state stages, plus marks
+ * such as the first word going out - stored on the child's utterance so
+ * latency changes can be measured, not guessed.
+ */
+
+import { prisma } from '@/lib/prisma';
+
+export interface PipelineTimings {
+  totalMs: number;
+  stages: Record<string, number>; // How long each stage took
+  marks: Record<string, number>; // Milliseconds from turn start (e.g. firstWord)
+  details: Record<string, string>; // How the turn ran (analysis mode, speculation...)
+}
+
+export interface PipelineTimer {
+  time<T>(stage: string, work: Promise<T>): Promise<T>;
+  mark(name: string): void;
+  snapshot(details?: Record<string, string>): PipelineTimings;
+}
+
+const round = (ms: number) => Math.round(ms * 10) / 10;
+
+/**
+ * Start timing a turn
+ */
+export function createPipelineTimer(): PipelineTimer {
+  const startedAt = performance.now();
+  const stages: Record<string, number> = {};
+  const marks: Record<string, number> = {};
+
+  return {
+    async time(stage, work) {
+      const stageStart = performance.now();
+      try {
+        return await work;
+      } finally {
+        stages[stage] = round(performance.now() - stageStart);
+      }
+    },
+
+    mark(name) {
+      // First occurrence wins (firstWord is the first word, not the last)
+      if (!(name in marks)) marks[name] = round(performance.now() - startedAt);
+    },
+
+    snapshot(details = {}) {
+      return {
+        totalMs: round(performance.now() - startedAt),
+        stages: { ...stages },
+        marks: { ...marks },
+        details,
+      };
+    },
+  };
+}
+
+/**
+ * Attach a turn's timings to the child's utterance metadata. Never throws.
+ */
+export async function recordPipelineTimings(
+  utteranceId: string,
+  timings: PipelineTimings
+): Promise<void> {
+  try {
+    const existing = await prisma.utterance.findUnique({
+      where: { id: utteranceId },
+      select: { metadata: true },
+    });
+
+    await prisma.utterance.update({
+      where: { id: utteranceId },
+      data: {
+        metadata: JSON.stringify({
+          ...(existing?.metadata ? JSON.parse(existing.metadata) : {}),
+          pipeline: timings,
+        }),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to record pipeline timings:', error);
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * PROMPT REGISTRY
+ *
+ * SERVER-SIDE ONLY. The one place system prompts come from. Each prompt
+ * runs at its newest version unless pinned for rollback:
+ *
+ *   PROMPT_VERSIONS="reply=1,summary=1"
+ *
+ * Everything a prompt produces is stored with its id ("reply@2") and the
+ * model that ran it, so behavior can be compared across versions.
+ */
+
+import { getLLMProvider } from '@/lib/ai/providers';
+import { PROMPT_TEMPLATES } from './templates';
+import {
+  PromptName,
+  PromptTemplate,
+  PromptVariables,
+  Provenance,
+  RenderedPrompt,
+} from './types';
+
+export type {
+  PromptName,
+  PromptTemplate,
+  PromptVariables,
+  Provenance,
+  RenderedPrompt,
+  TranscriptTurn,
+} from './types';
+
+// Text from the vetted template library, not a model
+export const TEMPLATE_PROVENANCE: Provenance = { promptVersion: null, model: null };
+
+const globalForPrompts = globalThis as unknown as {
+  promptPins: Partial<Record<PromptName, number>> | undefined
+};
+
+/**
+ * Parse PROMPT_VERSIONS ("name=version,...") into pinned versions
+ */
+export function parsePromptPins(value: string | undefined): Partial<Record<PromptName, number>> {
+  const pins: Partial<Record<PromptName, number>> = {};
+
+  for (const entry of (value || '').split(',')) {
+    const [name, version] = entry.split('=').map(part => part.trim());
+    if (!name) continue;
+
+    if (!(name in PROMPT_TEMPLATES) || !/^\d+$/.test(version ?? '')) {
+      console.warn(`Ignoring invalid PROMPT_VERSIONS entry: ${entry}`);
+      continue;
+    }
+    pins[name as PromptName] = Number(version);
+  }
+
+  return pins;
+}
+
+function promptPins(): Partial<Record<PromptName, number>> {
+  if (!globalForPrompts.promptPins) {
+    globalForPrompts.promptPins = parsePromptPins(process.env.PROMPT_VERSIONS);
+  }
+  return globalForPrompts.promptPins;
+}
+
+/**
+ * A specific version of a prompt, or the active one
+ */
+export function getPrompt<N extends PromptName>(name: N, version?: number): PromptTemplate<N> {
+  const versions = PROMPT_TEMPLATES[name] as PromptTemplate<N>[];
+  const wanted = version ?? promptPins()[name];
+
+  if (wanted !== undefined) {
+    const pinned = versions.find(template => template.version === wanted);
+    if (pinned) return pinned;
+    console.warn(`Prompt ${name}@${wanted} not found, using latest`);
+  }
+
+  return versions[versions.length - 1];
+}
+
+/**
+ * Every prompt with its versions and which one is active
+ */
+export function listPrompts() {
+  return (Object.keys(PROMPT_TEMPLATES) as PromptName[]).map(name => ({
+    name,
+    active: getPrompt(name).version,
+    versions: PROMPT_TEMPLATES[name].map(({ version, changes }) => ({ version, changes })),
+  }));
+}
+
+/**
+ * Fill in the active version of a prompt
+ */
+export function renderPrompt<N extends PromptName>(
+  name: N,
+  vars: PromptVariables[N],
+  version?: number
+): RenderedPrompt {
+  const template = getPrompt(name, version);
+
+  return {
+    id: `${template.name}@${template.version}`,
+    task: template.task,
+    messages: [
+      { role: 'system', content: template.system(vars) },
+      { role: 'user', content: template.user(vars) },
+    ],
+    variables: vars,
+  };
+}
+
+/**
+ * Provenance for text the configured model produced from a prompt
+ */
+export function provenanceFor(prompt: RenderedPrompt): Provenance {
+  return { promptVersion: prompt.id, model: getLLMProvider().model };
+}
@@ -0,0 +1,134 @@
+/**
+ * PROMPT REGISTRY TYPES
+ *
+ * Every system prompt is a named, numbered template with typed variables.
+ * Callers pass data, never pre-built prompt text, so a new version can
+ * change the wording without touching the code that uses it.
+ */
+
+import type { PauseMetrics } from '@/lib/ai/timingMetrics';
+import type { ChatMessage, LLMTask } from '@/lib/ai/providers';
+
+/**
+ * Variables each prompt needs, by prompt name
+ */
+export interface PromptVariables {
+  analysis: {
+    childAge: number;
+    vocabularyLevel: string;
+    recentVocabulary: string[];
+    engagementScore: number;
+    emotionalState: string;
+    previousUtterances: string[];
+    pauseMetrics?: PauseMetrics;
+    utterance: string;
+  };
+  'safety-review': {
+    childAge: number;
+    content: string;
+  };
+  nudge: {
+    childAge: number;
+    type: string;
+    scenario: string;
+    emotionalState: string;
+    vocabularyLevel: string;
+    recentTopics: string[];
+  };
+  reply: {
+    childAge: number;
+    scenarioTitle: string;
+    scenarioDescription: string;
+    activeGoal?: string;
+    targetWords?: string[]; // Words the active goal is after (v5+)
+    goalsComplete: boolean;
+    earlier?: string; // Conversation memory: what happened before the recent turns
+    remembered?: string; // What we remember about the child from earlier sessions
+    vocabularyLevel: string; // Sets the target lexicon (v4+)
+    allowedWords?: string[]; // Fine to use beyond the lexicon: goal and practice words
+    conversation: string[];
+    utterance: string;
+  };
+  summary: {
+    childAge: number;
+    earlier?: string; // Long sessions: summary of the turns not listed
+    childUtterances: string[];
+    aiUtterances: string[];
+  };
+  'parent-summary': {
+    childAge: number;
+    earlier?: string; // Long sessions: summary of the turns not listed
+    turns: TranscriptTurn[];
+  };
+  memory: {
+    childAge: number;
+    turns: TranscriptTurn[];
+  };
+  'memory-digest': {
+    childAge: number;
+    digest?: string;
+    summaries: string[];
+  };
+  'child-memory': {
+    childAge: number;
+    remembered?: string;
+    earlier?: string;
+    childUtterances: string[];
+  };
+  opening: {
+    childAge: number;
+    scenarioTitle: string;
+    scenarioDescription: string;
+    scenarioOpening: string; // The scenario's usual first line
+    remembered: string;
+  };
+}
+
+/**
+ * One numbered transcript turn. Child turns carry what the covert analysis
+ * stored about them; the model cites turns by ref.
+ */
+export interface TranscriptTurn {
+  ref: number;
+  speaker: 'child' | 'ai_voice';
+  text: string;
+  analysis?: {
+    vocabularyUsed?: string[];
+    complexityLevel?: string;
+    emotionalTone?: string;
+    hesitationDetected?: boolean;
+    engagementIndicators?: string[];
+    strugglingIndicators?: string[];
+  };
+}
+
+export type PromptName = keyof PromptVariables;
+
+export interface PromptTemplate<N extends PromptName = PromptName> {
+  name: N;
+  version: number;
+  task: LLMTask;
+  changes: string; // What this version changed, for reviewers
+  system: (vars: PromptVariables[N]) => string;
+  user: (vars: PromptVariables[N]) => string;
+}
+
+export type PromptRegistry = {
+  [N in PromptName]: PromptTemplate<N>[];
+};
+
+export interface RenderedPrompt {
+  id: string; // "<name>@<version>", stored with whatever the prompt produced
+  task: LLMTask;
+  messages: ChatMessage[];
+  variables: PromptVariables[PromptName]; // What it was rendered from
+}
+
+/**
+ * Which prompt version and model produced a piece of text
+ * (null fields: it came from the vetted template library instead)
+ */
+export interface Provenance {
+  promptVersion: string | null;
+  model: string | null;
+}
@@ -0,0 +1,67 @@
+/**
+ * LLM PROVIDER REGISTRY
+ *
+ * Selects the language-model backend from configuration:
+ *
+ *   LLM_PROVIDER=openai    OpenAI API (OPENAI_API_KEY, OPENAI_MODEL)
+ *   LLM_PROVIDER=local     OpenAI-compatible server (LOCAL_LLM_BASE_URL, LOCAL_LLM_MODEL)
+ *   LLM_PROVIDER=scripted  Deterministic offline stub (optional LLM_FIXTURES_PATH)
+ *
+ * Without LLM_PROVIDER, OpenAI is used when a key is present, otherwise the
+ * scripted provider, so a fresh checkout runs end-to-end with no API key.
+ */
+
+import { createLocalProvider, createOpenAIProvider } from './openai';
+import { createScriptedProvider, loadFixtures } from './scripted';
+import { LLMProvider } from './types';
+
+export type { ChatMessage, CompletionRequest, LLMProvider, LLMTask } from './types';
+
+const globalForLLM = globalThis as unknown as {
+  llmProvider: LLMProvider | undefined
+};
+
+/**
+ * Build a provider from environment configuration
+ */
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const providerName = env.LLM_PROVIDER || (env.OPENAI_API_KEY ? 'openai' : 'scripted');
+
+  switch (providerName) {
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_MODEL || 'gpt-4',
+      });
+    case 'local':
+      return createLocalProvider({
+        baseURL: env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+        model: env.LOCAL_LLM_MODEL || 'llama3.1',
+        apiKey: env.LOCAL_LLM_API_KEY,
+        jsonMode: env.LOCAL_LLM_JSON_MODE !== 'false',
+      });
+    case 'scripted':
+      return createScriptedProvider(
+        env.LLM_FIXTURES_PATH ? loadFixtures(env.LLM_FIXTURES_PATH) : {}
+      );
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${providerName}`);
+  }
+}
+
+/**
+ * Shared provider instance for all AI modules
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!globalForLLM.llmProvider) {
+    globalForLLM.llmProvider = createProviderFromEnv();
+  }
+  return globalForLLM.llmProvider;
+}
+
+/**
+ * Override the shared provider (scripts and demos)
+ */
+export function setLLMProvider(provider: LLMProvider | undefined): void {
+  globalForLLM.llmProvider = provider;
+}
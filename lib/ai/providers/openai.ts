@@ -0,0 +1,82 @@
+/**
+ * OPENAI PROVIDER
+ *
+ * Adapter for the OpenAI Chat Completions API.
+ * Also used for local OpenAI-compatible servers (Ollama, LM Studio, vLLM)
+ * by pointing it at a different base URL.
+ */
+
+import OpenAI from 'openai';
+import { CompletionRequest, LLMProvider } from './types';
+
+export interface OpenAIProviderOptions {
+  name?: string;
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+  jsonMode?: boolean; // Whether the endpoint supports response_format: json_object
+}
+
+/**
+ * Create a provider backed by an OpenAI-compatible endpoint
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions): LLMProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+  });
+  const jsonMode = options.jsonMode ?? true;
+
+  return {
+    name: options.name || 'openai',
+    model: options.model,
+
+    async complete(request: CompletionRequest): Promise<string> {
+      const response = await client.chat.completions.create({
+        model: options.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.responseFormat === 'json' && jsonMode
+          ? { response_format: { type: 'json_object' as const } }
+          : {}),
+      }, { signal: request.signal });
+
+      return response.choices[0]?.message.content || '';
+    },
+
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      const stream = await client.chat.completions.create({
+        model: options.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+      }, { signal: request.signal });
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+}
+
+/**
+ * Create a provider for a local OpenAI-compatible server
+ */
+export function createLocalProvider(options: {
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+  jsonMode?: boolean;
+}): LLMProvider {
+  return createOpenAIProvider({
+    name: 'local',
+    // Local servers ignore the key, but the SDK refuses to start without one
+    apiKey: options.apiKey || 'local',
+    baseURL: options.baseURL,
+    model: options.model,
+    jsonMode: options.jsonMode,
+  });
+}
@@ -0,0 +1,133 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { renderPrompt } from '@/lib/ai/prompts';
+import { guardStream } from '@/lib/ai/guardrails';
+import { analyzeUtterance, ChildState } from '@/lib/ai/reasoningEngine';
+import { generateOpening } from '@/lib/ai/scaffolding';
+import { generateChildSummary, generateParentSummary } from '@/lib/ai/sessionSummary';
+import { childMemoryOutputSchema } from '@/lib/ai/outputSchemas';
+import { completeStructured } from '@/lib/ai/structuredOutput';
+import { getScenario } from '@/lib/scenarios/catalog';
+import { setLLMProvider } from './index';
+import { createScriptedProvider } from './scripted';
+
+const childAge = 5;
+const scenario = getScenario('general-exploration');
+
+const childState: ChildState = {
+  vocabularyLevel: 'beginner',
+  recentVocabulary: [],
+  pauseDurations: [],
+  engagementScore: 50,
+  hesitationCount: 0,
+  lastUtteranceTime: new Date(),
+  emotionalState: 'engaged',
+};
+
+const utterances = [
+  { id: 'u1', speaker: 'ai_voice', text: 'What do you see?', metadata: null },
+  { id: 'u2', speaker: 'child', text: 'I see a giraffe eating leaves!', metadata: null },
+  { id: 'u3', speaker: 'ai_voice', text: 'Wow, a giraffe! What else?', metadata: null },
+  { id: 'u4', speaker: 'child', text: 'Why is the giraffe so tall?', metadata: null },
+];
+
+async function collect(stream: AsyncIterable<string>): Promise<string> {
+  let text = '';
+  for await (const part of stream) text += part;
+  return text;
+}
+
+describe('offline flow on the scripted provider', () => {
+  beforeAll(() => setLLMProvider(createScriptedProvider()));
+  afterAll(() => setLLMProvider(undefined));
+
+  it('analyzes a child utterance', async () => {
+    const analysis = await analyzeUtterance('I see a giraffe eating leaves!', childState, {
+      sessionId: 'session-1',
+      childAge,
+      previousUtterances: [],
+    });
+
+    expect(analysis.analysisFailed).toBeUndefined();
+    expect(analysis.vocabularyUsed).toContain('giraffe');
+    expect(analysis.emotionalTone).toBe('excited');
+  });
+
+  it('streams a guarded reply about what the child said', async () => {
+    const prompt = renderPrompt('reply', {
+      childAge,
+      scenarioTitle: scenario.title,
+      scenarioDescription: scenario.description,
+      goalsComplete: false,
+      vocabularyLevel: 'beginner',
+      conversation: ['AI: What do you see?'],
+      utterance: 'I see a giraffe eating leaves!',
+    });
+    const provider = createScriptedProvider();
+    const reply = await collect(guardStream(
+      provider.stream({ task: prompt.task, messages: prompt.messages, variables: prompt.variables }),
+      undefined,
+      childAge
+    ));
+
+    expect(reply).toMatch(/giraffe/);
+  });
+
+  it('opens with something remembered', async () => {
+    const opening = await generateOpening(scenario, childAge, 'Favorite topics: dinosaurs, space');
+
+    expect(opening.message).toMatch(/^Hi again! I remember you told me about dinosaurs\./);
+    expect(opening.provenance.promptVersion).toMatch(/^opening@/);
+  });
+
+  it('summarizes the session for the child and the parent', async () => {
+    const child = await generateChildSummary(utterances, childAge);
+    const parent = await generateParentSummary(utterances, childAge);
+
+    expect(child.ok && child.data.wordsYouUsedWell).toContain('giraffe');
+    expect(parent.ok).toBe(true);
+    if (!parent.ok) return;
+
+    expect(parent.data.overview).toBe('Your child took 2 turns and shared their own ideas.');
+    expect(parent.data.wordsUsedWell.every(claim => claim.utteranceIds.length > 0)).toBe(true);
+    expect(parent.data.thinkingMoments).toEqual([
+      { description: 'Asked their own questions', utteranceIds: ['u4'] },
+    ]);
+  });
+
+  it('remembers the child across sessions', async () => {
+    const result = await completeStructured(
+      renderPrompt('child-memory', {
+        childAge,
+        childUtterances: ['My dog Biscuit loves dinosaurs', 'Biscuit ate my sandwich'],
+      }),
+      childMemoryOutputSchema
+    );
+
+    expect(result.ok && result.data.characters).toEqual(['Biscuit']);
+  });
+
+  it('keeps conversation memory and folds it into a digest', async () => {
+    const provider = createScriptedProvider();
+    const chunkPrompt = renderPrompt('memory', {
+      childAge,
+      turns: [
+        { ref: 1, speaker: 'ai_voice', text: 'What do you see?' },
+        { ref: 2, speaker: 'child', text: 'A butterfly on a flower' },
+      ],
+    });
+    const chunk = await provider.complete({
+      task: chunkPrompt.task,
+      messages: chunkPrompt.messages,
+      variables: chunkPrompt.variables,
+    });
+    const digestPrompt = renderPrompt('memory-digest', { childAge, summaries: [chunk] });
+    const digest = await provider.complete({
+      task: digestPrompt.task,
+      messages: digestPrompt.messages,
+      variables: digestPrompt.variables,
+    });
+
+    expect(chunk).toBe('The child talked about "butterfly", "flower".');
+    expect(digest).toBe(chunk);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * SCRIPTED PROVIDER
+ *
+ * Deterministic, offline stand-in for a real model.
+ * Produces plausible output for every task from the request's structured
+ * prompt variables alone, so dev, CI and demos can run session → stream →
+ * summary with no network.
+ *
+ * Optional fixtures (JSON file of task → responses) replace the built-in
+ * scripts; responses for a task are returned in order and then cycle.
+ */
+
+import { readFileSync } from 'fs';
+import type { PromptName, PromptVariables } from '@/lib/ai/prompts/types';
+import { CompletionRequest, LLMProvider, LLMTask } from './types';
+
+export type ScriptedFixtures = Partial<Record<LLMTask, string[]>>;
+
+const REPLIES = [
+  'Ooh, {word}! Tell me more about it.',
+  'I love that idea about {word}! What happens next?',
+  'Wow, {word}! What else do you notice?',
+  'Hmm, {word} sounds fun! What would you do with it?',
+];
+
+const NUDGES = [
+  'What do you see?',
+  'I wonder what happens next?',
+  "Tell me what you're thinking!",
+  "What's interesting here?",
+];
+
+/**
+ * Small stable string hash so the same input always picks the same script
+ */
+function hash(text: string): number {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) {
+    h = (h * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+}
+
+function pick<T>(items: T[], seed: string): T {
+  return items[hash(seed) % items.length];
+}
+
+function lastUserMessage(request: CompletionRequest): string {
+  const user = [...request.messages].reverse().find(m => m.role === 'user');
+  return user?.content || '';
+}
+
+/**
+ * The structured inputs the prompt was rendered from. Scripts read these,
+ * never the prompt wording, so new template versions don't break them.
+ */
+function variablesOf<N extends PromptName>(request: CompletionRequest): Partial<PromptVariables[N]> {
+  return (request.variables ?? {}) as Partial<PromptVariables[N]>;
+}
+
+function contentWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z'\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 3);
+}
+
+function scriptAnalysis(request: CompletionRequest): string {
+  const utterance = variablesOf<'analysis'>(request).utterance ?? '';
+  const words = contentWords(utterance);
+  const wordCount = utterance.split(/\s+/).filter(Boolean).length;
+  const isQuestion = utterance.trim().endsWith('?');
+  const isExcited = utterance.includes('!');
+
+  return JSON.stringify({
+    vocabularyUsed: Array.from(new Set(words)),
+    newWords: Array.from(new Set(words)).slice(0, 3),
+    complexityLevel: wordCount > 12 ? 'advanced' : wordCount > 5 ? 'moderate' : 'simple',
+    engagementIndicators: isQuestion ? ['asked question'] : wordCount > 5 ? ['used details'] : [],
+    strugglingIndicators: wordCount < 3 ? ['short answer'] : [],
+    emotionalTone: isExcited ? 'excited' : 'neutral',
+    shouldIntervene: true,
+    interventionReason: 'Scripted provider always responds',
+    confidenceScore: 0.8,
+  });
+}
+
+function scriptSummary(request: CompletionRequest): string {
+  const childUtterances = variablesOf<'summary'>(request).childUtterances ?? [];
+  const words = Array.from(new Set(childUtterances.flatMap(contentWords))).slice(0, 3);
+
+  return JSON.stringify({
+    whatWeTalkedAbout: words.length > 0
+      ? `We talked about ${words.join(', ')}. You shared lots of wonderful ideas!`
+      : 'We explored together and shared lots of wonderful ideas!',
+    wordsYouUsedWell: words,
+    thinkingQuestion: 'What would you like to explore next time?',
+  });
+}
+
+function scriptParentSummary(request: CompletionRequest): string {
+  const turns = variablesOf<'parent-summary'>(request).turns ?? [];
+  const childTurns = turns
+    .filter(turn => turn.speaker === 'child')
+    .map(turn => ({
+      ref: turn.ref,
+      words: contentWords(turn.text),
+      question: turn.text.trim().endsWith('?'),
+    }));
+
+  // First turn each word appears in, longest words first
+  const firstUse = new Map<string, number>();
+  childTurns.forEach(turn => turn.words.forEach(word => {
+    if (!firstUse.has(word)) firstUse.set(word, turn.ref);
+  }));
+  const words = Array.from(firstUse).sort((a, b) => b[0].length - a[0].length).slice(0, 3);
+  const questions = childTurns.filter(turn => turn.question);
+
+  return JSON.stringify({
+    overview: childTurns.length > 0
+      ? `Your child took ${childTurns.length} turns and shared their own ideas.`
+      : 'Your child mostly listened this time.',
+    wordsUsedWell: words.map(([word, ref]) => ({ word, evidence: [ref] })),
+    thinkingMoments: questions.length > 0
+      ? [{ description: 'Asked their own questions', evidence: questions.map(turn => turn.ref) }]
+      : [],
+    suggestions: ['Ask them to tell you about the session in their own words.'],
+  });
+}
+
+function scriptMemory(request: CompletionRequest): string {
+  const { turns } = variablesOf<'memory'>(request);
+  const { summaries } = variablesOf<'memory-digest'>(request);
+
+  // Chunk: the child's longest words; digest: carry forward the words
+  // earlier notes quoted
+  const words = turns
+    ? Array.from(new Set(turns.filter(turn => turn.speaker === 'child').flatMap(turn => contentWords(turn.text))))
+        .sort((a, b) => b.length - a.length)
+        .slice(0, 3)
+    : Array.from(new Set((summaries ?? []).flatMap(summary =>
+        Array.from(summary.matchAll(/"([^"]+)"/g), match => match[1])
+      ))).slice(0, 6);
+
+  return words.length > 0
+    ? `The child talked about ${words.map(word => `"${word}"`).join(', ')}.`
+    : 'The child mostly listened.';
+}
+
+function scriptChildMemory(request: CompletionRequest): string {
+  const lines = variablesOf<'child-memory'>(request).childUtterances ?? [];
+
+  // Capitalized words after the first are names the child used
+  const names = lines.flatMap(line => line.split(/\s+/).slice(1).filter(word => /^[A-Z][a-z]+$/.test(word)));
+
+  return JSON.stringify({
+    favoriteTopics: Array.from(new Set(lines.flatMap(contentWords)))
+      .filter(word => !names.some(name => name.toLowerCase() === word))
+      .sort((a, b) => b.length - a.length)
+      .slice(0, 2),
+    characters: Array.from(new Set(names)).slice(0, 2),
+    practiceWords: [],
+  });
+}
+
+function scriptOpening(request: CompletionRequest): string {
+  const { scenarioOpening = 'What shall we explore today?', remembered = '' } =
+    variablesOf<'opening'>(request);
+
+  // The first thing remembered: "Favorite topics: dinosaurs, space" → dinosaurs
+  const first = remembered.split('\n')[0]?.split(': ')[1]?.split(',')[0]?.trim();
+
+  return first
+    ? `Hi again! I remember you told me about ${first}. ${scenarioOpening}`
+    : `Hi again! ${scenarioOpening}`;
+}
+
+function scriptReply(request: CompletionRequest): string {
+  const utterance = variablesOf<'reply'>(request).utterance ?? lastUserMessage(request);
+  const words = contentWords(utterance);
+  const word = words.sort((a, b) => b.length - a.length)[0] || 'that';
+  return pick(REPLIES, utterance).replace('{word}', word);
+}
+
+const SCRIPTS: Record<LLMTask, (request: CompletionRequest) => string> = {
+  analysis: scriptAnalysis,
+  'safety-review': () => JSON.stringify({ safe: true, violations: [] }),
+  nudge: request => pick(NUDGES, request.messages.map(m => m.content).join()),
+  reply: scriptReply,
+  summary: scriptSummary,
+  'parent-summary': scriptParentSummary,
+  memory: scriptMemory,
+  'child-memory': scriptChildMemory,
+  opening: scriptOpening,
+};
+
+/**
+ * Load fixtures from a JSON file of { "<task>": ["response", ...] }
+ */
+export function loadFixtures(path: string): ScriptedFixtures {
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+/**
+ * Create a deterministic provider that never touches the network
+ */
+export function createScriptedProvider(fixtures: ScriptedFixtures = {}): LLMProvider {
+  const cursors: Partial<Record<LLMTask, number>> = {};
+
+  const respond = (request: CompletionRequest): string => {
+    const responses = fixtures[request.task];
+
+    if (responses && responses.length > 0) {
+      const cursor = cursors[request.task] ?? 0;
+      cursors[request.task] = cursor + 1;
+      return responses[cursor % responses.length];
+    }
+
+    return SCRIPTS[request.task](request);
+  };
+
+  return {
+    name: 'scripted',
+    model: 'scripted-v1',
+
+    async complete(request: CompletionRequest): Promise<string> {
+      request.signal?.throwIfAborted();
+      return respond(request);
+    },
+
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      // Emit word-sized deltas (keeping whitespace) like a real model would
+      for (const token of respond(request).match(/\S+\s*/g) || []) {
+        request.signal?.throwIfAborted();
+        yield token;
+      }
+    },
+  };
+}
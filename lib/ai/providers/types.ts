@@ -0,0 +1,52 @@
+/**
+ * LLM PROVIDER TYPES
+ *
+ * Shared contract for every language-model backend used by the AI modules.
+ * Callers describe *what* they need (task, messages, output format) and the
+ * configured provider decides *how* to get it.
+ */
+
+/**
+ * The kind of work a completion is for.
+ * Lets deterministic providers return a sensible scripted answer.
+ */
+export type LLMTask =
+  | 'analysis'
+  | 'safety-review'
+  | 'nudge'
+  | 'reply'
+  | 'summary'
+  | 'parent-summary'
+  | 'memory'
+  | 'child-memory'
+  | 'opening';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  task: LLMTask;
+  messages: ChatMessage[];
+  variables?: object; // Structured inputs the prompt was rendered from (see PromptVariables)
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: 'text' | 'json';
+  signal?: AbortSignal; // Abandon the request (speculative work no longer needed)
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+
+  /**
+   * Run a chat completion and return the raw message content
+   */
+  complete(request: CompletionRequest): Promise<string>;
+
+  /**
+   * Run a chat completion and yield content deltas as they arrive
+   */
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
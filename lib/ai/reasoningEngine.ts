@@ -8,12 +8,11 @@
  * The frontend only receives the final, child-safe AI voice outputs.
  */
 
-import OpenAI from 'openai';
 import { prisma } from '@/lib/prisma';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { Provenance, TEMPLATE_PROVENANCE, provenanceFor, renderPrompt } from '@/lib/ai/prompts';
+import { PauseMetrics } from '@/lib/ai/timingMetrics';
+import { analysisOutputSchema } from '@/lib/ai/outputSchemas';
+import { completeStructured } from '@/lib/ai/structuredOutput';
 
 export interface ChildState {
   vocabularyLevel: string;
@@ -35,6 +34,10 @@ export interface ReasoningAnalysis {
   engagementIndicators: string[];
   strugglingIndicators: string[];
   emotionalTone: string;
+  pauseMetrics?: PauseMetrics; // Measured from client timing, not model-estimated
+  provenance?: Provenance; // Prompt version and model behind the analysis
+  analysisFailed?: string; // Why the fail-safe defaults were used instead
+  precheck?: 'filler-only' | 'acknowledgement'; // Set when the model was skipped
   
   // Decision
   shouldIntervene: boolean;
@@ -48,6 +51,51 @@ export interface ScaffoldingDecision {
   message?: string;
   delay: number; // milliseconds before delivering
   reasoning: string; // Internal only
+  provenance?: Provenance; // Where the message came from
+}
+
+const FILLERS = new Set(['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'hmm', 'hm', 'mm']);
+const ACKNOWLEDGEMENTS = new Set([
+  'yes', 'yeah', 'yep', 'yup', 'no', 'nope', 'nah', 'ok', 'okay', 'sure', 'mhm', 'uh-huh', 'cool',
+]);
+
+/**
+ * Cheap deterministic analysis for trivial utterances - fillers and short
+ * acknowledgements - where a model call would add latency and nothing else.
+ * Returns null when the utterance needs the full analysis.
+ */
+export function precheckUtterance(
+  utterance: string,
+  pauseMetrics?: PauseMetrics
+): ReasoningAnalysis | null {
+  const words = utterance
+    .toLowerCase()
+    .replace(/[^a-z'\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  const spoken = words.filter(word => !FILLERS.has(word));
+
+  const fillerOnly = spoken.length === 0;
+  const acknowledgement = spoken.length > 0 && spoken.length <= 2 && spoken.every(word => ACKNOWLEDGEMENTS.has(word));
+
+  if (!fillerOnly && !acknowledgement) return null;
+
+  return {
+    vocabularyUsed: spoken,
+    newWords: [],
+    complexityLevel: 'simple',
+    hesitationDetected: pauseMetrics?.hesitationDetected ?? false,
+    pauseDuration: pauseMetrics?.pauseDuration ?? 0,
+    pauseMetrics,
+    engagementIndicators: [],
+    strugglingIndicators: [],
+    emotionalTone: 'neutral',
+    // Fillers alone: the child is still thinking, so give them room
+    shouldIntervene: acknowledgement,
+    interventionReason: fillerOnly ? 'Child is still thinking' : 'Short answer - keep the conversation going',
+    confidenceScore: 1,
+    precheck: fillerOnly ? 'filler-only' : 'acknowledgement',
+  };
 }
 
 /**
@@ -61,82 +109,68 @@ export async function analyzeUtterance(
     sessionId: string;
     childAge: number;
     previousUtterances: string[];
+    pauseMetrics?: PauseMetrics;
   }
 ): Promise<ReasoningAnalysis> {
-  try {
-    const response = await openai.chat.completions.create({
-      model: process.env.OPENAI_MODEL || 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `You are a pedagogical analyst for a Sesame Street-style learning system.
-Analyze the child's utterance for internal tracking only. DO NOT generate child-facing content.
-
-Child context:
-- Age: ${context.childAge}
-- Vocabulary level: ${childState.vocabularyLevel}
-- Recent vocabulary: ${childState.recentVocabulary.join(', ')}
-- Engagement score: ${childState.engagementScore}/100
-- Emotional state: ${childState.emotionalState}
+  // Timing is measured, never guessed: the model only sees it as input
+  const measured = context.pauseMetrics;
+  const prompt = renderPrompt('analysis', {
+    childAge: context.childAge,
+    vocabularyLevel: childState.vocabularyLevel,
+    recentVocabulary: childState.recentVocabulary,
+    engagementScore: childState.engagementScore,
+    emotionalState: childState.emotionalState,
+    previousUtterances: context.previousUtterances,
+    pauseMetrics: measured,
+    utterance,
+  });
 
-Previous utterances: ${context.previousUtterances.slice(-3).join(' | ')}
+  // Fail-safe analysis: observe quietly, and say why
+  const failSafe = (reason: string): ReasoningAnalysis => ({
+    vocabularyUsed: [],
+    newWords: [],
+    complexityLevel: 'simple',
+    hesitationDetected: measured?.hesitationDetected ?? false,
+    pauseDuration: measured?.pauseDuration ?? 0,
+    pauseMetrics: measured,
+    engagementIndicators: [],
+    strugglingIndicators: [],
+    emotionalTone: 'neutral',
+    shouldIntervene: false,
+    confidenceScore: 0,
+    analysisFailed: reason,
+  });
 
-Analyze and return JSON:
-{
-  "vocabularyUsed": ["word1", "word2"],
-  "newWords": ["words not in recent vocabulary"],
-  "complexityLevel": "simple|moderate|advanced",
-  "hesitationDetected": boolean,
-  "pauseDuration": estimated_seconds,
-  "engagementIndicators": ["used details", "asked question", etc],
-  "strugglingIndicators": ["repeated words", "incomplete sentences", etc],
-  "emotionalTone": "excited|neutral|frustrated|confused",
-  "shouldIntervene": boolean,
-  "interventionReason": "why or why not",
-  "suggestedNudge": "gentle prompt if intervention needed",
-  "confidenceScore": 0.0-1.0
-}`,
-        },
-        {
-          role: 'user',
-          content: `Child's utterance: "${utterance}"`,
-        },
-      ],
-      response_format: { type: 'json_object' },
+  try {
+    const result = await completeStructured(prompt, analysisOutputSchema, {
       temperature: 0.4,
     });
 
-    const analysis = JSON.parse(response.choices[0].message.content || '{}');
+    if (!result.ok) {
+      return failSafe(`Invalid model output: ${result.error}`);
+    }
+
+    const analysis = result.data;
     
     return {
-      vocabularyUsed: analysis.vocabularyUsed || [],
-      newWords: analysis.newWords || [],
-      complexityLevel: analysis.complexityLevel || 'simple',
-      hesitationDetected: analysis.hesitationDetected || false,
-      pauseDuration: analysis.pauseDuration || 0,
-      engagementIndicators: analysis.engagementIndicators || [],
-      strugglingIndicators: analysis.strugglingIndicators || [],
-      emotionalTone: analysis.emotionalTone || 'neutral',
-      shouldIntervene: analysis.shouldIntervene || false,
-      interventionReason: analysis.interventionReason,
-      suggestedNudge: analysis.suggestedNudge,
-      confidenceScore: analysis.confidenceScore || 0.5,
+      vocabularyUsed: analysis.vocabularyUsed,
+      newWords: analysis.newWords,
+      complexityLevel: analysis.complexityLevel,
+      hesitationDetected: measured?.hesitationDetected ?? false,
+      pauseDuration: measured?.pauseDuration ?? 0,
+      pauseMetrics: measured,
+      engagementIndicators: analysis.engagementIndicators,
+      strugglingIndicators: analysis.strugglingIndicators,
+      emotionalTone: analysis.emotionalTone,
+      shouldIntervene: analysis.shouldIntervene,
+      interventionReason: analysis.interventionReason ?? undefined,
+      suggestedNudge: analysis.suggestedNudge ?? undefined,
+      confidenceScore: analysis.confidenceScore,
+      provenance: provenanceFor(prompt),
     };
   } catch (error) {
     console.error('Reasoning engine error:', error);
-    // Fail-safe analysis
-    return {
-      vocabularyUsed: [],
-      newWords: [],
-      complexityLevel: 'simple',
-      hesitationDetected: false,
-      pauseDuration: 0,
-      engagementIndicators: [],
-      strugglingIndicators: [],
-      emotionalTone: 'neutral',
-      shouldIntervene: false,
-      confidenceScore: 0,
-    };
+    return failSafe(`Model call failed: ${(error as Error).message}`);
   }
 }
 
@@ -174,10 +208,10 @@ export function updateChildState(
   analysis: ReasoningAnalysis
 ): ChildState {
   // Update vocabulary tracking
-  const updatedVocab = [
+  const updatedVocab = Array.from(new Set([
     ...currentState.recentVocabulary,
     ...analysis.newWords,
-  ].slice(-50); // Keep last 50 unique words
+  ])).slice(-50); // Keep last 50 unique words
   
   // Update engagement score
   let engagementDelta = 0;
@@ -212,6 +246,13 @@ export function updateChildState(
   };
 }
 
+// The analysis model wrote the suggested nudge; the fallbacks are fixed text
+function nudgeProvenance(analysis: ReasoningAnalysis): Provenance {
+  return analysis.suggestedNudge && analysis.provenance
+    ? analysis.provenance
+    : TEMPLATE_PROVENANCE;
+}
+
 /**
  * Decide if and how to intervene with scaffolding
  */
@@ -239,6 +280,7 @@ export async function decideScaffolding(
       message: analysis.suggestedNudge || "You're doing great! Let's think together.",
       delay: 3000, // Quick support for frustration
       reasoning: 'Detected frustration - providing immediate encouragement',
+      provenance: nudgeProvenance(analysis),
     };
   }
   
@@ -248,15 +290,18 @@ export async function decideScaffolding(
       message: analysis.suggestedNudge || "What do you notice? Tell me more!",
       delay: 5000, // Give child time to process first
       reasoning: `Multiple struggling indicators: ${analysis.strugglingIndicators.join(', ')}`,
+      provenance: nudgeProvenance(analysis),
     };
   }
   
-  // Default: gentle prompt
+  // Default: gentle prompt - the analysis' suggestion, or (without one)
+  // the companion's own reply, which is already being generated
   return {
     action: 'speak',
-    message: analysis.suggestedNudge || "I wonder what you're thinking?",
+    message: analysis.suggestedNudge,
     delay: 6000,
     reasoning: 'Gentle pedagogical nudge based on engagement patterns',
+    provenance: nudgeProvenance(analysis),
   };
 }
 
@@ -270,15 +315,29 @@ export async function logReasoningAnalysis(
   analysis: ReasoningAnalysis
 ): Promise<void> {
   try {
+    // Keep anything already recorded on the utterance (input screening)
+    const existing = await prisma.utterance.findUnique({
+      where: { id: utteranceId },
+      select: { metadata: true },
+    });
+    
     await prisma.utterance.update({
       where: { id: utteranceId },
       data: {
+        promptVersion: analysis.provenance?.promptVersion ?? null,
+        model: analysis.provenance?.model ?? null,
         metadata: JSON.stringify({
+          ...(existing?.metadata ? JSON.parse(existing.metadata) : {}),
           vocabularyUsed: analysis.vocabularyUsed,
           complexityLevel: analysis.complexityLevel,
           hesitationDetected: analysis.hesitationDetected,
           pauseDuration: analysis.pauseDuration,
+          pauseMetrics: analysis.pauseMetrics,
           emotionalTone: analysis.emotionalTone,
+          engagementIndicators: analysis.engagementIndicators,
+          strugglingIndicators: analysis.strugglingIndicators,
+          analysisFailed: analysis.analysisFailed,
+          precheck: analysis.precheck,
           timestamp: new Date().toISOString(),
         }),
       },
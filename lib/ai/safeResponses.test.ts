@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateContent } from './guardrailRules';
+import { AgeBand, DISCLOSURE_RESPONSES, SAFE_RESPONSES } from './safeResponses';
+
+// The youngest age each band is spoken to, plus one inside it
+const BAND_AGES: Record<AgeBand, number[]> = {
+  early: [3, 4],
+  middle: [6, 7],
+  older: [9, 10],
+};
+
+const lines = (Object.keys(BAND_AGES) as AgeBand[]).flatMap(band => [
+  ...Object.values(SAFE_RESPONSES[band]).flat(),
+  ...DISCLOSURE_RESPONSES[band],
+].flatMap(line => BAND_AGES[band].map(age => [line, age] as const)));
+
+describe('safe response library', () => {
+  it.each(lines)('"%s" passes the rules at age %i', (line, age) => {
+    const evaluation = evaluateContent(line, age);
+
+    expect(evaluation.explanation).toEqual([]);
+    expect(evaluation.action).toBe('allow');
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * SAFE RESPONSE LIBRARY
+ *
+ * Hand-written, reviewed lines the companion can always fall back to when
+ * generated text can't be trusted: the safety review failed, a rewrite still
+ * broke a rule, or nothing survived the stream guard.
+ *
+ * Lines are banded by age so a 4-year-old and a 10-year-old both get
+ * something that sounds natural to them. Nothing here is generated, and
+ * every line passes the guardrail rules for its band.
+ */
+
+import type { NudgeType } from './scaffolding';
+
+export type AgeBand = 'early' | 'middle' | 'older';
+
+export const SAFE_RESPONSES: Record<AgeBand, Record<NudgeType, string[]>> = {
+  // Ages 3-5: very short, concrete, playful
+  early: {
+    silence: [
+      "What do you see?",
+      "Can you show me?",
+      "Ooh, what's that?",
+      "Tell me what you like!",
+    ],
+    confusion: [
+      "Let's look together.",
+      "Let's try it one step at a time.",
+      "Want to try a different way?",
+    ],
+    encouragement: [
+      "You're doing great!",
+      "Wow, good thinking!",
+      "I love your idea!",
+      "Keep going!",
+    ],
+    vocabulary: [
+      "That's a great word!",
+      "Ooh, say that again!",
+      "I like that word!",
+    ],
+    thinking: [
+      "Hmm, let's think!",
+      "What do you think?",
+      "Let's find out together!",
+    ],
+  },
+
+  // Ages 6-8: open questions, a little more language
+  middle: {
+    silence: [
+      "What do you see?",
+      "I wonder what happens next?",
+      "Tell me what you're thinking!",
+      "What's interesting here?",
+    ],
+    confusion: [
+      "Let's pause and think together.",
+      "What part are you curious about?",
+      "Let's try looking at it this way...",
+      "That's a tricky one! Want to explore it?",
+    ],
+    encouragement: [
+      "You're doing great!",
+      "I love how you're thinking!",
+      "That's a wonderful idea!",
+      "Keep going, you've got this!",
+    ],
+    vocabulary: [
+      "That's a great word! Tell me more.",
+      "Ooh, interesting! What does that mean to you?",
+      "I like that word! Can you use it in another way?",
+    ],
+    thinking: [
+      "Let's think about that together.",
+      "What do you wonder about?",
+      "Hmm, that's interesting...",
+      "Let's explore that idea!",
+    ],
+  },
+
+  // Ages 9-12: respectful, curious, less sing-song
+  older: {
+    silence: [
+      "What's on your mind?",
+      "What stands out to you here?",
+      "Where would you like to take this next?",
+    ],
+    confusion: [
+      "Let's break it into smaller pieces.",
+      "Which part would you like to look at first?",
+      "Let's come at it from another angle.",
+    ],
+    encouragement: [
+      "Nice thinking - keep going.",
+      "That's a smart way to look at it.",
+      "You're onto something there.",
+    ],
+    vocabulary: [
+      "Great word choice! How else could you use it?",
+      "That's a strong word. What made you pick it?",
+    ],
+    thinking: [
+      "Interesting - what makes you say that?",
+      "Let's dig into that idea together.",
+      "What do you think would happen if we tried it?",
+    ],
+  },
+};
+
+// When a child discloses something unsafe: calm, thank them, point them to
+// a trusted grown-up. The parent has already been notified.
+export const DISCLOSURE_RESPONSES: Record<AgeBand, string[]> = {
+  early: [
+    "Thank you for telling me. Let's find a grown-up you love and tell them too.",
+    "That sounds really big. A grown-up who loves you can help. Let's tell them!",
+  ],
+  middle: [
+    "Thank you for telling me that. It's really important, so please tell a grown-up you trust right now.",
+    "You did the right thing by saying that. A grown-up you trust can help - let's go find one.",
+  ],
+  older: [
+    "Thank you for trusting me with that. Please talk to an adult you trust right away - they can help.",
+    "That matters a lot. A trusted adult can help with this, so please tell one now.",
+  ],
+};
+
+function ageBand(childAge?: number): AgeBand {
+  if (childAge === undefined) return 'middle';
+  if (childAge <= 5) return 'early';
+  if (childAge <= 8) return 'middle';
+  return 'older';
+}
+
+/**
+ * A vetted line for the situation, suited to the child's age
+ */
+export function getSafeResponse(type: NudgeType, childAge?: number): string {
+  const responses = SAFE_RESPONSES[ageBand(childAge)][type];
+  return responses[Math.floor(Math.random() * responses.length)];
+}
+
+/**
+ * A vetted reply for a child who has just disclosed something unsafe
+ */
+export function getDisclosureResponse(childAge?: number): string {
+  const responses = DISCLOSURE_RESPONSES[ageBand(childAge)];
+  return responses[Math.floor(Math.random() * responses.length)];
+}
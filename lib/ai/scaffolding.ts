@@ -5,12 +5,11 @@
  * All prompts are warm, curious, and non-judgmental.
  */
 
-import OpenAI from 'openai';
 import { ChildState } from './reasoningEngine';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { getLLMProvider } from './providers';
+import { Provenance, TEMPLATE_PROVENANCE, provenanceFor, renderPrompt } from './prompts';
+import { getSafeResponse } from './safeResponses';
+import { Scenario, getOpeningPrompt } from '@/lib/scenarios/catalog';
 
 export type NudgeType = 
   | 'silence'
@@ -29,47 +28,19 @@ export interface NudgeContext {
 }
 
 /**
- * Pre-defined gentle prompts for different situations
- * Used as fallbacks when AI generation isn't needed
+ * Generated child-facing text and the prompt/model behind it
  */
-const NUDGE_TEMPLATES: Record<NudgeType, string[]> = {
-  silence: [
-    "What do you see?",
-    "I wonder what happens next?",
-    "Tell me what you're thinking!",
-    "What's interesting here?",
-  ],
-  confusion: [
-    "Let's pause and think together.",
-    "What part are you curious about?",
-    "Let's try looking at it this way...",
-    "That's a tricky one! Want to explore it?",
-  ],
-  encouragement: [
-    "You're doing great!",
-    "I love how you're thinking!",
-    "That's a wonderful idea!",
-    "Keep going, you've got this!",
-  ],
-  vocabulary: [
-    "That's a great word! Tell me more.",
-    "Ooh, interesting! What does that mean to you?",
-    "I like that word! Can you use it in another way?",
-  ],
-  thinking: [
-    "Let's think about that together.",
-    "What do you wonder about?",
-    "Hmm, that's interesting...",
-    "Let's explore that idea!",
-  ],
-};
+export interface GeneratedMessage {
+  message: string;
+  provenance: Provenance;
+}
 
 /**
- * Get a simple template-based nudge
+ * Get a simple template-based nudge from the vetted, age-banded library
+ * Used as fallbacks when AI generation isn't needed (or can't be trusted)
  */
-export function getTemplateNudge(type: NudgeType): string {
-  const templates = NUDGE_TEMPLATES[type];
-  return templates[Math.floor(Math.random() * templates.length)];
+export function getTemplateNudge(type: NudgeType, childAge?: number): string {
+  return getSafeResponse(type, childAge);
 }
 
 /**
@@ -78,51 +49,40 @@ export function getTemplateNudge(type: NudgeType): string {
  */
 export async function generateContextualNudge(
   context: NudgeContext
-): Promise<string> {
+): Promise<GeneratedMessage> {
+  const fallback = () => ({
+    message: getTemplateNudge(context.type, context.childAge),
+    provenance: TEMPLATE_PROVENANCE,
+  });
+  const prompt = renderPrompt('nudge', {
+    childAge: context.childAge,
+    type: context.type,
+    scenario: context.scenario,
+    emotionalState: context.emotionalState,
+    vocabularyLevel: context.vocabularyLevel,
+    recentTopics: context.recentTopics,
+  });
+  
   try {
-    const response = await openai.chat.completions.create({
-      model: process.env.OPENAI_MODEL || 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `You are a Sesame Street-style AI companion helping a ${context.childAge}-year-old child learn.
-
-Your prompts must be:
-- Short (5-10 words max)
-- Warm and encouraging
-- Open-ended and curious
-- Age-appropriate
-- Never judgmental or corrective
-- Never expose internal analysis
-
-Scenario: ${context.scenario}
-Child's emotional state: ${context.emotionalState}
-Vocabulary level: ${context.vocabularyLevel}
-Recent topics: ${context.recentTopics.join(', ')}
-
-Generate a gentle prompt for a "${context.type}" situation.
-Respond with ONLY the prompt text, no quotes or formatting.`,
-        },
-        {
-          role: 'user',
-          content: `Generate a ${context.type} nudge.`,
-        },
-      ],
-      max_tokens: 50,
+    const response = await getLLMProvider().complete({
+      task: prompt.task,
+      messages: prompt.messages,
+      variables: prompt.variables,
+      maxTokens: 50,
       temperature: 0.8, // More creative
     });
 
-    const nudge = response.choices[0].message.content?.trim() || getTemplateNudge(context.type);
+    const nudge = response.trim();
     
     // Safety check: ensure it's short enough
-    if (nudge.split(' ').length > 15) {
-      return getTemplateNudge(context.type);
+    if (!nudge || nudge.split(' ').length > 15) {
+      return fallback();
     }
     
-    return nudge;
+    return { message: nudge, provenance: provenanceFor(prompt) };
   } catch (error) {
     console.error('Nudge generation error:', error);
-    return getTemplateNudge(context.type);
+    return fallback();
   }
 }
 
@@ -132,8 +92,8 @@ Respond with ONLY the prompt text, no quotes or formatting.`,
  */
 export async function generateAnticipatorNudge(
   context: NudgeContext
-): Promise<{ message: string; delay: number; reasoning: string }> {
-  const message = await generateContextualNudge(context);
+): Promise<GeneratedMessage & { delay: number; reasoning: string }> {
+  const { message, provenance } = await generateContextualNudge(context);
   
   // Determine delay based on context
   let delay = 5000; // Default 5 seconds
@@ -163,6 +123,7 @@ export async function generateAnticipatorNudge(
   
   return {
     message,
+    provenance,
     delay,
     reasoning: `${context.type} nudge with ${delay/1000}s delay for ${context.emotionalState} state`,
   };
@@ -190,43 +151,47 @@ export function shouldDeliverNudge(
 }
 
 /**
- * Generate scaffolding prompts for specific learning goals
+ * Open a session by picking up on something remembered from earlier ones.
+ * With nothing remembered, or if generation fails, the scenario's own
+ * opening is used. The caller still guards model text before it is spoken.
  */
-export async function generateScaffoldingPrompt(
-  goal: string,
-  childState: ChildState,
-  context: { childAge: number; scenario: string }
-): Promise<string> {
+export async function generateOpening(
+  scenario: Scenario,
+  childAge: number,
+  remembered?: string
+): Promise<GeneratedMessage> {
+  const scenarioOpening = getOpeningPrompt(scenario);
+  const fallback = { message: scenarioOpening, provenance: TEMPLATE_PROVENANCE };
+
+  if (!remembered) return fallback;
+
+  const prompt = renderPrompt('opening', {
+    childAge,
+    scenarioTitle: scenario.title,
+    scenarioDescription: scenario.description,
+    scenarioOpening,
+    remembered,
+  });
+
   try {
-    const response = await openai.chat.completions.create({
-      model: process.env.OPENAI_MODEL || 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `You are scaffolding a learning moment for a ${context.childAge}-year-old.
-
-Learning goal: ${goal}
-Child's vocabulary level: ${childState.vocabularyLevel}
-Current emotional state: ${childState.emotionalState}
-Scenario: ${context.scenario}
-
-Create a gentle, Socratic prompt that guides the child toward the learning goal.
-Keep it conversational, warm, and age-appropriate.
-Maximum 2 sentences.`,
-        },
-        {
-          role: 'user',
-          content: 'Generate the scaffolding prompt.',
-        },
-      ],
-      max_tokens: 80,
-      temperature: 0.7,
+    const response = await getLLMProvider().complete({
+      task: prompt.task,
+      messages: prompt.messages,
+      variables: prompt.variables,
+      maxTokens: 80,
+      temperature: 0.8,
     });
 
-    return response.choices[0].message.content?.trim() || 
-           "Let's explore that together! What do you think?";
+    const message = response.trim();
+
+    // Openings are a sentence or two - anything longer went off-script
+    if (!message || message.split(/\s+/).length > 40) {
+      return fallback;
+    }
+
+    return { message, provenance: provenanceFor(prompt) };
   } catch (error) {
-    console.error('Scaffolding generation error:', error);
-    return "Let's explore that together! What do you think?";
+    console.error('Opening generation error:', error);
+    return fallback;
   }
 }
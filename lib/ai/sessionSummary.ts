@@ -0,0 +1,215 @@
+/**
+ * SESSION SUMMARIES
+ *
+ * SERVER-SIDE ONLY. Two documents per finished session:
+ *
+ * - Child summary: warm, simple, shown to the child. Built from the words
+ *   alone and checked by the guardrail rules before it is kept.
+ * - Parent report: built from the transcript plus the covert analysis
+ *   stored on each child utterance. Every word and thinking moment links
+ *   to the utterances it came from; claims whose evidence doesn't hold up
+ *   are dropped rather than shown.
+ *
+ * Sessions too long to send whole pass a SummaryContext: the conversation
+ * memory stands in for the early turns and only the later ones are listed.
+ */
+
+import { Utterance } from '@prisma/client';
+import { Provenance, TranscriptTurn, provenanceFor, renderPrompt } from '@/lib/ai/prompts';
+import {
+  ChildSummary,
+  childSummarySchema,
+  parentSummaryOutputSchema,
+} from '@/lib/ai/outputSchemas';
+import { completeStructured } from '@/lib/ai/structuredOutput';
+import { evaluateContent } from '@/lib/ai/guardrailRules';
+import { SummaryContext } from '@/lib/ai/conversationMemory';
+
+export type { ChildSummary } from '@/lib/ai/outputSchemas';
+
+export interface ParentSummary {
+  overview: string;
+  wordsUsedWell: { word: string; utteranceIds: string[] }[];
+  thinkingMoments: { description: string; utteranceIds: string[] }[];
+  suggestions: string[];
+  // Counted from the stored analysis, not written by the model
+  stats: {
+    childTurns: number;
+    analyzedTurns: number;
+    hesitations: number;
+    complexity: Record<string, number>;
+  };
+}
+
+export type SummaryResult<T> =
+  | { ok: true; data: T; provenance: Provenance }
+  | { ok: false; error: string };
+
+type SummaryUtterance = Pick<Utterance, 'id' | 'speaker' | 'text' | 'metadata'>;
+
+// What logReasoningAnalysis stores on a child utterance
+type StoredAnalysis = NonNullable<TranscriptTurn['analysis']> & { analysisFailed?: string };
+
+function parseMetadata(metadata: string | null): StoredAnalysis | null {
+  if (!metadata) return null;
+  try {
+    return JSON.parse(metadata) as StoredAnalysis;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Number the transcript (refs start at 1) and attach each child turn's
+ * stored analysis. Failed analyses are left off - they are defaults.
+ */
+export function toTranscriptTurns(utterances: SummaryUtterance[]): TranscriptTurn[] {
+  return utterances.map((utterance, i) => {
+    const stored = utterance.speaker === 'child' ? parseMetadata(utterance.metadata) : null;
+    const analysis = stored && !stored.analysisFailed
+      ? {
+          vocabularyUsed: stored.vocabularyUsed,
+          complexityLevel: stored.complexityLevel,
+          emotionalTone: stored.emotionalTone,
+          hesitationDetected: stored.hesitationDetected,
+          engagementIndicators: stored.engagementIndicators,
+          strugglingIndicators: stored.strugglingIndicators,
+        }
+      : undefined;
+
+    return {
+      ref: i + 1,
+      speaker: utterance.speaker === 'child' ? 'child' : 'ai_voice',
+      text: utterance.text,
+      analysis,
+    };
+  });
+}
+
+/**
+ * The child-facing summary. Any part the guardrail rules would block
+ * fails the whole summary (it can be generated again).
+ */
+export async function generateChildSummary(
+  utterances: SummaryUtterance[],
+  childAge: number,
+  context?: SummaryContext | null
+): Promise<SummaryResult<ChildSummary>> {
+  const listed = utterances.slice(context?.recentFrom ?? 0);
+  const prompt = renderPrompt('summary', {
+    childAge,
+    earlier: context?.earlier,
+    childUtterances: listed.filter(u => u.speaker === 'child').map(u => u.text),
+    aiUtterances: listed.filter(u => u.speaker === 'ai_voice').map(u => u.text),
+  });
+  const result = await completeStructured(prompt, childSummarySchema, {
+    temperature: 0.7,
+  });
+
+  if (!result.ok) {
+    return { ok: false, error: result.error };
+  }
+
+  // Rewrites are kept; anything blocked means the summary isn't child-safe
+  const guard = (text: string) => {
+    const evaluation = evaluateContent(text, childAge);
+    return evaluation.action === 'block' ? null : evaluation.text;
+  };
+
+  const whatWeTalkedAbout = guard(result.data.whatWeTalkedAbout);
+  const thinkingQuestion = guard(result.data.thinkingQuestion);
+
+  if (whatWeTalkedAbout === null || thinkingQuestion === null) {
+    return { ok: false, error: 'Summary failed the child-safety check' };
+  }
+
+  return {
+    ok: true,
+    data: {
+      whatWeTalkedAbout,
+      thinkingQuestion,
+      wordsYouUsedWell: result.data.wordsYouUsedWell
+        .map(guard)
+        .filter((word): word is string => !!word),
+    },
+    provenance: provenanceFor(prompt),
+  };
+}
+
+/**
+ * The parent report. Cited turn numbers become utterance ids; citations of
+ * AI turns, turns the model wasn't shown, or (for words) turns that don't
+ * contain the word are removed, and so is any claim left without evidence.
+ * Stats always cover the whole session.
+ */
+export async function generateParentSummary(
+  utterances: SummaryUtterance[],
+  childAge: number,
+  context?: SummaryContext | null
+): Promise<SummaryResult<ParentSummary>> {
+  const turns = toTranscriptTurns(utterances);
+  const listed = turns.slice(context?.recentFrom ?? 0);
+  const prompt = renderPrompt('parent-summary', { childAge, earlier: context?.earlier, turns: listed });
+  const result = await completeStructured(prompt, parentSummaryOutputSchema, {
+    temperature: 0.4,
+  });
+
+  if (!result.ok) {
+    return { ok: false, error: result.error };
+  }
+
+  const citable = new Map(
+    listed
+      .filter(turn => turn.speaker === 'child')
+      .map(turn => [turn.ref, { id: utterances[turn.ref - 1].id, text: turn.text.toLowerCase() }])
+  );
+
+  const resolve = (refs: number[], word?: string) =>
+    Array.from(new Set(refs))
+      .map(ref => citable.get(ref))
+      .filter((turn): turn is { id: string; text: string } =>
+        !!turn && (!word || turn.text.includes(word.toLowerCase()))
+      )
+      .map(turn => turn.id);
+
+  const analyzed = turns.filter(turn => turn.analysis);
+  const complexity: Record<string, number> = {};
+  analyzed.forEach(turn => {
+    const level = turn.analysis?.complexityLevel;
+    if (level) complexity[level] = (complexity[level] ?? 0) + 1;
+  });
+
+  return {
+    ok: true,
+    data: {
+      overview: result.data.overview,
+      wordsUsedWell: result.data.wordsUsedWell
+        .map(({ word, evidence }) => ({ word, utteranceIds: resolve(evidence, word) }))
+        .filter(claim => claim.utteranceIds.length > 0),
+      thinkingMoments: result.data.thinkingMoments
+        .map(({ description, evidence }) => ({ description, utteranceIds: resolve(evidence) }))
+        .filter(claim => claim.utteranceIds.length > 0),
+      suggestions: result.data.suggestions,
+      stats: {
+        childTurns: turns.filter(turn => turn.speaker === 'child').length,
+        analyzedTurns: analyzed.length,
+        hesitations: analyzed.filter(turn => turn.analysis?.hesitationDetected).length,
+        complexity,
+      },
+    },
+    provenance: provenanceFor(prompt),
+  };
+}
+
+/**
+ * Read a stored child summary; older summaries also carried parent notes,
+ * which are stripped so they never reach the child
+ */
+export function readChildSummary(stored: string): ChildSummary | null {
+  try {
+    const parsed = childSummarySchema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * SPECULATIVE GENERATION
+ *
+ * SERVER-SIDE ONLY. Lets the reply start before we know it will be used,
+ * so its model call overlaps the analysis instead of queueing behind it.
+ * Deltas are buffered until someone reads them; aborting the request's
+ * signal stops the model and the buffered text is simply dropped.
+ */
+
+/**
+ * Start pulling a delta stream now and replay it to whoever iterates later
+ */
+export function prefetchDeltas(source: AsyncIterable<string>): AsyncIterable<string> {
+  const buffered: string[] = [];
+  let done = false;
+  let failure: unknown = null;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  void (async () => {
+    try {
+      for await (const delta of source) {
+        buffered.push(delta);
+        notify();
+      }
+    } catch (error) {
+      failure = error;
+    } finally {
+      done = true;
+      notify();
+    }
+  })();
+
+  return (async function* () {
+    while (true) {
+      if (buffered.length > 0) {
+        yield buffered.shift()!;
+      } else if (done) {
+        if (failure) throw failure;
+        return;
+      } else {
+        await new Promise<void>(resolve => {
+          wake = resolve;
+        });
+      }
+    }
+  })();
+}
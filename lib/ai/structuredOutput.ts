@@ -0,0 +1,152 @@
+/**
+ * STRUCTURED MODEL OUTPUT
+ *
+ * SERVER-SIDE ONLY. Asks a model for JSON and only hands back data that
+ * passes a zod schema. Bad output goes through bounded recovery:
+ *
+ * 1. Local repair: code fences, chatter around the object, trailing commas
+ * 2. Retry: the model sees its own answer plus what was wrong with it
+ *
+ * When every attempt fails the caller gets an explicit failure to handle,
+ * and the failure is counted per prompt version so it can be reported.
+ */
+
+import { z } from 'zod';
+import { CompletionRequest, getLLMProvider } from '@/lib/ai/providers';
+import { RenderedPrompt } from '@/lib/ai/prompts';
+
+const DEFAULT_MAX_ATTEMPTS = 2;
+
+export type StructuredResult<T> =
+  | { ok: true; data: T; attempts: number; repaired: boolean }
+  | { ok: false; error: string; attempts: number };
+
+export interface StructuredOutputStats {
+  requests: number;
+  valid: number; // Valid on the first try, untouched
+  repaired: number; // Needed local repair
+  retried: number; // Needed another model call
+  failed: number; // Nothing usable after every attempt
+  lastError?: string;
+}
+
+type CompletionOptions = Omit<CompletionRequest, 'task' | 'messages' | 'responseFormat'>;
+
+const globalForStructured = globalThis as unknown as {
+  structuredOutputStats: Map<string, StructuredOutputStats> | undefined
+};
+
+const stats = globalForStructured.structuredOutputStats ?? new Map<string, StructuredOutputStats>();
+globalForStructured.structuredOutputStats = stats;
+
+function statsFor(promptId: string): StructuredOutputStats {
+  let entry = stats.get(promptId);
+  if (!entry) {
+    entry = { requests: 0, valid: 0, repaired: 0, retried: 0, failed: 0 };
+    stats.set(promptId, entry);
+  }
+  return entry;
+}
+
+/**
+ * Pull a JSON object out of model text: strip code fences and anything
+ * around the outermost braces, drop trailing commas
+ */
+export function repairJSON(raw: string): string {
+  let text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    text = text.slice(start, end + 1);
+  }
+
+  return text.replace(/,\s*([}\]])/g, '$1');
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+    .join('; ');
+}
+
+function parseAs<T>(
+  text: string,
+  schema: z.ZodType<T>
+): { ok: true; data: T } | { ok: false; error: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, error: `not valid JSON (${(error as Error).message})` };
+  }
+
+  const parsed = schema.safeParse(json);
+  return parsed.success
+    ? { ok: true, data: parsed.data }
+    : { ok: false, error: describeIssues(parsed.error) };
+}
+
+/**
+ * Run a prompt that must answer in JSON matching `schema`.
+ * Provider errors (network, auth) are thrown as-is; only bad output is
+ * repaired and retried.
+ */
+export async function completeStructured<T>(
+  prompt: RenderedPrompt,
+  schema: z.ZodType<T>,
+  options: CompletionOptions & { maxAttempts?: number } = {}
+): Promise<StructuredResult<T>> {
+  const { maxAttempts = DEFAULT_MAX_ATTEMPTS, ...completion } = options;
+  const entry = statsFor(prompt.id);
+  entry.requests++;
+
+  const messages = [...prompt.messages];
+  let error = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const raw = await getLLMProvider().complete({
+      ...completion,
+      task: prompt.task,
+      messages,
+      variables: prompt.variables,
+      responseFormat: 'json',
+    });
+
+    const direct = parseAs(raw, schema);
+    const result = direct.ok ? direct : parseAs(repairJSON(raw), schema);
+
+    if (result.ok) {
+      const repaired = !direct.ok;
+      if (attempt > 1) entry.retried++;
+      else if (repaired) entry.repaired++;
+      else entry.valid++;
+      return { ok: true, data: result.data, attempts: attempt, repaired };
+    }
+
+    error = result.error;
+
+    // Show the model its answer and what was wrong with it
+    messages.push(
+      { role: 'assistant', content: raw },
+      {
+        role: 'user',
+        content: `That response was invalid: ${error}. Reply again with only the corrected JSON object.`,
+      }
+    );
+  }
+
+  entry.failed++;
+  entry.lastError = error;
+  console.error(`Structured output failed for ${prompt.id} after ${maxAttempts} attempts: ${error}`);
+
+  return { ok: false, error, attempts: maxAttempts };
+}
+
+/**
+ * Success/repair/failure counts per prompt version since the server started
+ */
+export function getStructuredOutputStats(): Record<string, StructuredOutputStats> {
+  return Object.fromEntries(Array.from(stats, ([id, entry]) => [id, { ...entry }]));
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { computePauseMetrics, parseUtteranceTiming } from './timingMetrics';
+
+const timing = {
+  inputMode: 'spoken',
+  promptEndedAt: '2026-10-18T10:00:00.000Z',
+  onsetAt: '2026-10-18T10:00:06.000Z',
+  submittedAt: '2026-10-18T10:00:09.000Z',
+  wordGapsMs: [200, 1800],
+};
+
+describe('parseUtteranceTiming', () => {
+  it('accepts what the client sends', () => {
+    const parsed = parseUtteranceTiming(timing);
+
+    expect(parsed).toEqual(timing);
+    expect(computePauseMetrics('I see a cat', parsed)).toMatchObject({
+      inputMode: 'spoken',
+      responseLatencySec: 6,
+      longGapCount: 1,
+      hesitationDetected: true,
+    });
+  });
+
+  it.each([
+    ['word gaps that are not a list', { ...timing, wordGapsMs: 'x' }],
+    ['a negative word gap', { ...timing, wordGapsMs: [-5] }],
+    ['an unknown input mode', { ...timing, inputMode: 'telepathy' }],
+    ['a timestamp that is not ISO', { ...timing, submittedAt: 'yesterday' }],
+    ['too many word gaps', { ...timing, wordGapsMs: Array(501).fill(10) }],
+    ['no timing at all', 'soon'],
+  ])('drops %s', (_label, raw) => {
+    expect(parseUtteranceTiming(raw)).toBeUndefined();
+  });
+});
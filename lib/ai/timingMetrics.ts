@@ -0,0 +1,109 @@
+/**
+ * PAUSE & HESITATION METRICS
+ *
+ * Deterministic timing analysis of a child's turn, computed from real
+ * client timestamps instead of asking the model to guess from text.
+ *
+ * The client reports when the AI finished speaking, when the child started
+ * (first keystroke or speech onset), when they finished, and the gaps
+ * between their words. Everything here is pure so it can run anywhere.
+ * That timing comes from the client, so it is parsed before it is used.
+ */
+
+import { z } from 'zod';
+
+export type InputMode = 'typed' | 'spoken';
+
+/**
+ * Raw timing the client captures for one child utterance
+ */
+export interface UtteranceTiming {
+  inputMode: InputMode;
+  promptEndedAt?: string; // ISO - AI finished speaking (or the session opened)
+  onsetAt?: string; // ISO - first keystroke / first spoken word
+  submittedAt: string; // ISO - child finished their turn
+  wordGapsMs: number[]; // Silence between consecutive words
+}
+
+const MAX_WORD_GAPS = 500;
+
+const utteranceTimingSchema = z.object({
+  inputMode: z.enum(['typed', 'spoken']),
+  promptEndedAt: z.iso.datetime().optional(),
+  onsetAt: z.iso.datetime().optional(),
+  submittedAt: z.iso.datetime(),
+  wordGapsMs: z.array(z.number().nonnegative().finite()).max(MAX_WORD_GAPS),
+});
+
+/**
+ * Client-reported timing, or undefined when it is missing or malformed
+ * (the turn then goes on without timing, like a client that sent none)
+ */
+export function parseUtteranceTiming(raw: unknown): UtteranceTiming | undefined {
+  const parsed = utteranceTimingSchema.safeParse(raw);
+  return parsed.success ? parsed.data : undefined;
+}
+
+export interface PauseMetrics {
+  inputMode: InputMode;
+  responseLatencySec: number | null; // AI done → child starts
+  turnDurationSec: number | null; // Child starts → child done
+  longestGapSec: number;
+  meanGapSec: number;
+  longGapCount: number;
+  fillerCount: number; // "um", "uh", "hmm"...
+  pauseDuration: number; // Seconds; the headline pause figure
+  hesitationDetected: boolean;
+}
+
+// Thresholds differ by modality: typing is naturally slower than speech
+const LONG_GAP_MS: Record<InputMode, number> = {
+  spoken: 1500,
+  typed: 4000,
+};
+const HESITANT_LATENCY_SEC: Record<InputMode, number> = {
+  spoken: 5,
+  typed: 10,
+};
+
+const FILLER_PATTERN = /\b(u+m+|u+h+|e+r+m*|h+m+)\b/gi;
+const MAX_PLAUSIBLE_SEC = 10 * 60; // Ignore clock skew / stale tabs
+
+function secondsBetween(from?: string, to?: string): number | null {
+  if (!from || !to) return null;
+  const seconds = (new Date(to).getTime() - new Date(from).getTime()) / 1000;
+  if (!Number.isFinite(seconds) || seconds < 0 || seconds > MAX_PLAUSIBLE_SEC) return null;
+  return Math.round(seconds * 10) / 10;
+}
+
+/**
+ * Compute pause and hesitation metrics for one utterance
+ */
+export function computePauseMetrics(text: string, timing?: UtteranceTiming): PauseMetrics {
+  const inputMode = timing?.inputMode ?? 'typed';
+  const gaps = (timing?.wordGapsMs ?? []).filter(gap => Number.isFinite(gap) && gap >= 0);
+
+  const responseLatencySec = secondsBetween(timing?.promptEndedAt, timing?.onsetAt);
+  const turnDurationSec = secondsBetween(timing?.onsetAt, timing?.submittedAt);
+  const longestGapMs = gaps.length > 0 ? Math.max(...gaps) : 0;
+  const meanGapMs = gaps.length > 0 ? gaps.reduce((a, b) => a + b, 0) / gaps.length : 0;
+  const longGapCount = gaps.filter(gap => gap >= LONG_GAP_MS[inputMode]).length;
+  const fillerCount = (text.match(FILLER_PATTERN) || []).length;
+
+  const hesitationDetected =
+    (responseLatencySec ?? 0) >= HESITANT_LATENCY_SEC[inputMode] ||
+    longGapCount > 0 ||
+    fillerCount > 0;
+
+  return {
+    inputMode,
+    responseLatencySec,
+    turnDurationSec,
+    longestGapSec: Math.round(longestGapMs / 100) / 10,
+    meanGapSec: Math.round(meanGapMs / 100) / 10,
+    longGapCount,
+    fillerCount,
+    pauseDuration: Math.round(Math.max(responseLatencySec ?? 0, longestGapMs / 1000) * 10) / 10,
+    hesitationDetected,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * AUTHORIZATION
+ *
+ * SERVER-SIDE ONLY. One place that answers "may this caller touch this
+ * child / session?" by walking parent → child → session ownership.
+ *
+ * Callers are either a signed-in parent (next-auth session) or a child
+ * device holding a token scoped to exactly one session. Anything a caller
+ * doesn't own is reported as not found, so ids can't be probed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { Child, Session } from '@prisma/client';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { prisma } from '@/lib/prisma';
+import { DEVICE_TOKEN_COOKIE, verifyDeviceToken } from './deviceToken';
+
+export type Principal =
+  | { kind: 'parent'; parentId: string }
+  | { kind: 'child-device'; sessionId: string; childId: string };
+
+export type AccessResult<T> =
+  | ({ ok: true; principal: Principal } & T)
+  | { ok: false; status: 401 | 403 | 404; error: string };
+
+type Denied = Extract<AccessResult<unknown>, { ok: false }>;
+
+const UNAUTHORIZED: Denied = { ok: false, status: 401, error: 'Unauthorized' };
+const PARENT_ONLY: Denied = { ok: false, status: 403, error: 'Parent account required' };
+
+/**
+ * Who is calling: a parent login wins over a device token
+ */
+export async function getPrincipal(req: NextRequest): Promise<Principal | null> {
+  const session = await getServerSession(authOptions);
+  if (session?.user?.id) {
+    return { kind: 'parent', parentId: session.user.id };
+  }
+
+  const header = req.headers.get('authorization');
+  const token = header?.startsWith('Bearer ')
+    ? header.slice('Bearer '.length)
+    : req.cookies.get(DEVICE_TOKEN_COOKIE)?.value;
+  const payload = token ? verifyDeviceToken(token) : null;
+
+  if (payload) {
+    return { kind: 'child-device', sessionId: payload.sid, childId: payload.cid };
+  }
+
+  return null;
+}
+
+/**
+ * Signed-in parent only (no device tokens)
+ */
+export async function authorizeParent(req: NextRequest): Promise<AccessResult<{ parentId: string }>> {
+  const principal = await getPrincipal(req);
+  if (!principal) return UNAUTHORIZED;
+  if (principal.kind !== 'parent') return PARENT_ONLY;
+  return { ok: true, principal, parentId: principal.parentId };
+}
+
+/**
+ * A child the signed-in parent owns
+ */
+export async function authorizeChild(
+  req: NextRequest,
+  childId: string
+): Promise<AccessResult<{ child: Child }>> {
+  const principal = await getPrincipal(req);
+  if (!principal) return UNAUTHORIZED;
+  if (principal.kind !== 'parent') return PARENT_ONLY;
+
+  const child = await prisma.child.findFirst({
+    where: { id: childId, parentId: principal.parentId },
+  });
+
+  if (!child) {
+    return { ok: false, status: 404, error: 'Child not found' };
+  }
+
+  return { ok: true, principal, child };
+}
+
+/**
+ * A session the caller owns: the parent of its child, or a device whose
+ * token was issued for this session (when the route allows devices)
+ */
+export async function authorizeSession(
+  req: NextRequest,
+  sessionId: string,
+  options: { allowDevice?: boolean } = {}
+): Promise<AccessResult<{ session: Session & { child: Child } }>> {
+  const principal = await getPrincipal(req);
+  if (!principal) return UNAUTHORIZED;
+  if (principal.kind === 'child-device' && !options.allowDevice) return PARENT_ONLY;
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { child: true },
+  });
+
+  const owned =
+    session &&
+    (principal.kind === 'parent'
+      ? session.child.parentId === principal.parentId
+      : principal.sessionId === session.id && principal.childId === session.childId);
+
+  if (!session || !owned) {
+    return { ok: false, status: 404, error: 'Session not found' };
+  }
+
+  return { ok: true, principal, session };
+}
+
+/**
+ * Parents whose email is listed in ADMIN_EMAILS (comma-separated) can
+ * review safety data across every child
+ */
+export async function isAdmin(principal: Principal): Promise<boolean> {
+  if (principal.kind !== 'parent') return false;
+
+  const admins = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  if (admins.length === 0) return false;
+
+  const parent = await prisma.parent.findUnique({
+    where: { id: principal.parentId },
+    select: { email: true },
+  });
+  return !!parent && admins.includes(parent.email.toLowerCase());
+}
+
+/**
+ * JSON error response for a denied access check
+ */
+export function accessDenied(result: Denied): NextResponse {
+  return NextResponse.json({ error: result.error }, { status: result.status });
+}
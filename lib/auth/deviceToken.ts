@@ -0,0 +1,77 @@
+/**
+ * CHILD DEVICE CREDENTIAL
+ *
+ * SERVER-SIDE ONLY. A signed token that lets a child's device talk to one
+ * session - send utterances, upload audio, hear nudges, see the summary -
+ * without holding the parent's login. It grants nothing else.
+ *
+ * Format: base64url(JSON payload) + '.' + base64url(HMAC-SHA256), signed
+ * with NEXTAUTH_SECRET.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const DEVICE_TOKEN_COOKIE = 'child_device_token';
+export const DEVICE_TOKEN_TTL_SEC = 12 * 60 * 60; // One long play day
+
+export interface DeviceTokenPayload {
+  sid: string; // Session the device may use
+  cid: string; // Child the session belongs to
+  exp: number; // Unix seconds
+}
+
+const globalForDeviceTokens = globalThis as unknown as {
+  deviceTokenSecret: string | undefined;
+};
+
+/**
+ * NEXTAUTH_SECRET when configured; otherwise a per-process secret, so tokens
+ * simply stop working after a restart in development
+ */
+function getSecret(): string {
+  if (process.env.NEXTAUTH_SECRET) return process.env.NEXTAUTH_SECRET;
+  globalForDeviceTokens.deviceTokenSecret ??= randomBytes(32).toString('hex');
+  return globalForDeviceTokens.deviceTokenSecret;
+}
+
+function sign(body: string): string {
+  return createHmac('sha256', getSecret()).update(body).digest('base64url');
+}
+
+/**
+ * Issue a device token scoped to one session
+ */
+export function issueDeviceToken(sessionId: string, childId: string): string {
+  const payload: DeviceTokenPayload = {
+    sid: sessionId,
+    cid: childId,
+    exp: Math.floor(Date.now() / 1000) + DEVICE_TOKEN_TTL_SEC,
+  };
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * Verify a device token; null if it is malformed, forged or expired
+ */
+export function verifyDeviceToken(token: string): DeviceTokenPayload | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload: DeviceTokenPayload = JSON.parse(
+      Buffer.from(body, 'base64url').toString('utf8')
+    );
+    if (typeof payload.sid !== 'string' || typeof payload.exp !== 'number') return null;
+    if (payload.exp * 1000 < Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * CHILD PROGRESS ANALYTICS
+ *
+ * SERVER-SIDE ONLY. Turns the reasoning metadata stored on each child
+ * utterance into weekly trends for the parent dashboard: new words,
+ * sentence complexity, engagement, hesitation and session length.
+ *
+ * A word counts as new in the week the child first used it, across all
+ * of their history - not just the selected range.
+ */
+
+import { prisma } from '@/lib/prisma';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export const DEFAULT_RANGE_WEEKS = 12;
+export const MAX_RANGE_DAYS = 366;
+
+// How many of each week's new words to list by name
+const NEW_WORD_SAMPLE = 10;
+
+export type ComplexityLevel = 'simple' | 'moderate' | 'advanced';
+
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+}
+
+export interface WeeklyStats {
+  weekStart: string; // Monday, YYYY-MM-DD (UTC)
+  sessions: number;
+  utterances: number;
+  newWords: number;
+  newWordSample: string[];
+  engagementRate: number | null; // Share of analyzed utterances that showed engagement
+  hesitationRate: number | null; // Share of analyzed utterances with a hesitation
+  averageSessionMinutes: number | null;
+}
+
+export interface SessionStats {
+  id: string;
+  scenario: string;
+  startedAt: string;
+  minutes: number;
+  childUtterances: number;
+}
+
+export interface ChildAnalytics {
+  range: { from: string; to: string };
+  totals: {
+    sessions: number;
+    utterances: number;
+    newWords: number;
+    vocabularySize: number; // Distinct words used up to the end of the range
+  };
+  weeks: WeeklyStats[];
+  complexity: Record<ComplexityLevel, number>;
+  sessions: SessionStats[];
+}
+
+/**
+ * What logReasoningAnalysis stores on a child utterance (older rows may
+ * be missing fields)
+ */
+interface StoredAnalysis {
+  vocabularyUsed?: string[];
+  complexityLevel?: ComplexityLevel;
+  hesitationDetected?: boolean;
+  emotionalTone?: string;
+  engagementIndicators?: string[];
+  strugglingIndicators?: string[];
+  analysisFailed?: string;
+}
+
+interface WeekAccumulator {
+  sessions: number;
+  utterances: number;
+  newWords: string[];
+  analyzed: number;
+  engaged: number;
+  hesitated: number;
+  sessionMinutes: number[];
+}
+
+/**
+ * Parse ?from=&to= (YYYY-MM-DD). Defaults to the last 12 weeks; `to` is
+ * inclusive of its whole day.
+ */
+export function parseAnalyticsRange(
+  from: string | null,
+  to: string | null,
+  now = new Date()
+): { ok: true; range: AnalyticsRange } | { ok: false; error: string } {
+  const end = to ? parseDay(to) : now;
+  if (!end) return { ok: false, error: 'to must be a date (YYYY-MM-DD)' };
+  if (to) end.setTime(end.getTime() + DAY_MS - 1);
+
+  const start = from ? parseDay(from) : new Date(end.getTime() - DEFAULT_RANGE_WEEKS * WEEK_MS);
+  if (!start) return { ok: false, error: 'from must be a date (YYYY-MM-DD)' };
+
+  if (start > end) {
+    return { ok: false, error: 'from must be before to' };
+  }
+  if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    return { ok: false, error: `Range can be at most ${MAX_RANGE_DAYS} days` };
+  }
+
+  return { ok: true, range: { from: start, to: end } };
+}
+
+function parseDay(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Monday 00:00 UTC of the week containing `date`
+ */
+function weekStart(date: Date): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const sinceMonday = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - sinceMonday * DAY_MS);
+}
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+function parseStored(metadata: string | null): StoredAnalysis | null {
+  if (!metadata) return null;
+  try {
+    return JSON.parse(metadata) as StoredAnalysis;
+  } catch {
+    return null;
+  }
+}
+
+// Excited, or showing more signs of engagement than of struggle
+function showsEngagement(analysis: StoredAnalysis): boolean {
+  const engaged = analysis.engagementIndicators?.length ?? 0;
+  const struggling = analysis.strugglingIndicators?.length ?? 0;
+  return analysis.emotionalTone === 'excited' || engaged > struggling;
+}
+
+const rate = (count: number, total: number) =>
+  total > 0 ? Math.round((count / total) * 100) / 100 : null;
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10
+    : null;
+
+/**
+ * Weekly progress for one child over a date range
+ */
+export async function getChildAnalytics(
+  childId: string,
+  range: AnalyticsRange
+): Promise<ChildAnalytics> {
+  const [sessions, utterances] = await Promise.all([
+    prisma.session.findMany({
+      where: { childId, startedAt: { gte: range.from, lte: range.to } },
+      orderBy: { startedAt: 'asc' },
+      select: {
+        id: true,
+        scenario: true,
+        startedAt: true,
+        completedAt: true,
+        utterances: {
+          orderBy: { timestamp: 'desc' },
+          take: 1,
+          select: { timestamp: true },
+        },
+        _count: { select: { utterances: { where: { speaker: 'child' } } } },
+      },
+    }),
+    // Everything up to the end of the range, so "new" means first-ever use
+    prisma.utterance.findMany({
+      where: {
+        speaker: 'child',
+        timestamp: { lte: range.to },
+        session: { childId },
+      },
+      orderBy: { timestamp: 'asc' },
+      select: { timestamp: true, metadata: true },
+    }),
+  ]);
+
+  const weeks = new Map<string, WeekAccumulator>();
+  const weekFor = (date: Date) => {
+    const key = dayKey(weekStart(date));
+    let week = weeks.get(key);
+    if (!week) {
+      week = { sessions: 0, utterances: 0, newWords: [], analyzed: 0, engaged: 0, hesitated: 0, sessionMinutes: [] };
+      weeks.set(key, week);
+    }
+    return week;
+  };
+
+  // Every week in the range appears, even quiet ones
+  for (let t = weekStart(range.from).getTime(); t <= range.to.getTime(); t += WEEK_MS) {
+    weekFor(new Date(t));
+  }
+
+  const seen = new Set<string>();
+  const complexity: Record<ComplexityLevel, number> = { simple: 0, moderate: 0, advanced: 0 };
+  let utteranceCount = 0;
+  let newWordCount = 0;
+
+  for (const utterance of utterances) {
+    const analysis = parseStored(utterance.metadata);
+    const inRange = utterance.timestamp >= range.from;
+    const usable = analysis && !analysis.analysisFailed ? analysis : null;
+
+    const fresh = (usable?.vocabularyUsed ?? [])
+      .map(word => word.toLowerCase().trim())
+      .filter(word => word && !seen.has(word));
+    fresh.forEach(word => seen.add(word));
+
+    if (!inRange) continue;
+
+    const week = weekFor(utterance.timestamp);
+    week.utterances++;
+    utteranceCount++;
+    week.newWords.push(...fresh);
+    newWordCount += fresh.length;
+
+    if (usable) {
+      week.analyzed++;
+      if (showsEngagement(usable)) week.engaged++;
+      if (usable.hesitationDetected) week.hesitated++;
+      if (usable.complexityLevel && usable.complexityLevel in complexity) {
+        complexity[usable.complexityLevel]++;
+      }
+    }
+  }
+
+  const sessionStats = sessions.map(session => {
+    // Open sessions run until their latest utterance
+    const endedAt = session.completedAt ?? session.utterances[0]?.timestamp ?? session.startedAt;
+    const minutes = Math.round(((endedAt.getTime() - session.startedAt.getTime()) / 60_000) * 10) / 10;
+
+    const week = weekFor(session.startedAt);
+    week.sessions++;
+    week.sessionMinutes.push(minutes);
+
+    return {
+      id: session.id,
+      scenario: session.scenario,
+      startedAt: session.startedAt.toISOString(),
+      minutes,
+      childUtterances: session._count.utterances,
+    };
+  });
+
+  return {
+    range: { from: range.from.toISOString(), to: range.to.toISOString() },
+    totals: {
+      sessions: sessions.length,
+      utterances: utteranceCount,
+      newWords: newWordCount,
+      vocabularySize: seen.size,
+    },
+    weeks: Array.from(weeks, ([key, week]) => ({
+      weekStart: key,
+      sessions: week.sessions,
+      utterances: week.utterances,
+      newWords: week.newWords.length,
+      newWordSample: week.newWords.slice(0, NEW_WORD_SAMPLE),
+      engagementRate: rate(week.engaged, week.analyzed),
+      hesitationRate: rate(week.hesitated, week.analyzed),
+      averageSessionMinutes: average(week.sessionMinutes),
+    })).sort((a, b) => a.weekStart.localeCompare(b.weekStart)),
+    complexity,
+    sessions: sessionStats,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * CHILD SETTINGS AUDIT LOG
+ *
+ * SERVER-SIDE ONLY. Records who changed a child's AI voice consent or
+ * vocabulary level, and when - plus creation and deletion of the profile.
+ * Entries are written in the same transaction as the change itself.
+ */
+
+import { Child, Prisma } from '@prisma/client';
+
+export const AUDITED_FIELDS = ['aiVoiceEnabled', 'vocabularyLevel'] as const;
+
+type AuditedField = (typeof AUDITED_FIELDS)[number];
+type AuditedValues = Pick<Child, AuditedField>;
+
+/**
+ * Audit entries for the audited fields that actually change
+ */
+export function auditEntries(
+  childId: string,
+  actorId: string,
+  before: Partial<AuditedValues> | null,
+  after: Partial<AuditedValues> | null
+): Prisma.ChildAuditLogCreateManyInput[] {
+  return AUDITED_FIELDS.filter(field => {
+    const next = after?.[field];
+    const prev = before?.[field];
+    return after === null ? prev !== undefined : next !== undefined && next !== prev;
+  }).map(field => ({
+    childId,
+    actorId,
+    field,
+    oldValue: before ? JSON.stringify(before[field]) : null,
+    newValue: after ? JSON.stringify(after[field]) : null,
+  }));
+}
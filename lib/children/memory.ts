@@ -0,0 +1,222 @@
+/**
+ * CHILD MEMORY
+ *
+ * SERVER-SIDE ONLY. What the companion remembers about a child from one
+ * session to the next: favourite topics, recurring characters, words they
+ * are working on, and the question the last session ended on. It grows
+ * when a session's summaries are done, feeds the next session's opening
+ * and every reply, and the parent can edit or clear all of it.
+ *
+ * Sessions only ever add to it (newest first, capped), and each session
+ * is folded in once. Writes use an optimistic version check, so an update
+ * never overwrites a parent's edit made while it was running.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { renderPrompt } from '@/lib/ai/prompts';
+import { childMemoryOutputSchema } from '@/lib/ai/outputSchemas';
+import { completeStructured } from '@/lib/ai/structuredOutput';
+import { estimateTokens, loadConversationMemory } from '@/lib/ai/conversationMemory';
+import { readChildSummary } from '@/lib/ai/sessionSummary';
+import { getScenario } from '@/lib/scenarios/catalog';
+import { assessScenarioProgress } from '@/lib/scenarios/progress';
+import { ChildMemoryInput, MEMORY_ITEM_MAX_LENGTH, MEMORY_LIMITS } from './validation';
+
+export interface ChildMemory extends ChildMemoryInput {
+  rememberedThrough: string | null; // Start of the latest session folded in (ISO)
+  updatedAt: string | null;
+}
+
+// How much of a session's child speech the update reads
+const SESSION_SPEECH_BUDGET_TOKENS = 1500;
+const MAX_WRITE_ATTEMPTS = 3;
+
+function emptyMemory(): ChildMemory {
+  return {
+    favoriteTopics: [],
+    characters: [],
+    practiceWords: [],
+    lastThinkingQuestion: null,
+    rememberedThrough: null,
+    updatedAt: null,
+  };
+}
+
+async function readMemory(childId: string): Promise<{ memory: ChildMemory; version: number | null }> {
+  const row = await prisma.childMemory.findUnique({ where: { childId } });
+  return row
+    ? { memory: { ...emptyMemory(), ...JSON.parse(row.state) }, version: row.version }
+    : { memory: emptyMemory(), version: null };
+}
+
+/**
+ * Write only if nobody else has since; false when the write lost
+ */
+async function writeMemory(childId: string, version: number | null, memory: ChildMemory): Promise<boolean> {
+  const state = JSON.stringify(memory);
+
+  if (version === null) {
+    try {
+      await prisma.childMemory.create({ data: { childId, state } });
+      return true;
+    } catch {
+      return false; // Created concurrently
+    }
+  }
+
+  const written = await prisma.childMemory.updateMany({
+    where: { childId, version },
+    data: { state, version: { increment: 1 } },
+  });
+  return written.count > 0;
+}
+
+/**
+ * New items first, no duplicates (ignoring case), capped
+ */
+function mergeItems(existing: string[], added: string[], limit: number): string[] {
+  const seen = new Set<string>();
+  return [...added, ...existing]
+    .map(item => item.trim().slice(0, MEMORY_ITEM_MAX_LENGTH))
+    .filter(item => {
+      const key = item.toLowerCase();
+      if (!item || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+}
+
+export async function getChildMemory(childId: string): Promise<ChildMemory> {
+  const { memory } = await readMemory(childId);
+  return memory;
+}
+
+/**
+ * The memory as prompt text, or undefined when there's nothing in it
+ */
+export function describeChildMemory(memory: ChildMemory): string | undefined {
+  const lines = [
+    memory.favoriteTopics.length > 0 ? `Favorite topics: ${memory.favoriteTopics.join(', ')}` : null,
+    memory.characters.length > 0 ? `Characters: ${memory.characters.join(', ')}` : null,
+    memory.practiceWords.length > 0 ? `Words they're practicing: ${memory.practiceWords.join(', ')}` : null,
+    memory.lastThinkingQuestion ? `Last time they were left wondering: ${memory.lastThinkingQuestion}` : null,
+  ].filter(Boolean);
+
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+/**
+ * The child's memory as prompt text, for openings and replies
+ */
+export async function loadChildMemory(childId: string): Promise<string | undefined> {
+  return describeChildMemory(await getChildMemory(childId));
+}
+
+/**
+ * Replace what is remembered with the parent's version. Clearing is saving
+ * empty lists: sessions already folded in stay out.
+ */
+export async function saveChildMemory(childId: string, input: ChildMemoryInput): Promise<ChildMemory> {
+  const { memory } = await readMemory(childId);
+  const next: ChildMemory = { ...memory, ...input, updatedAt: new Date().toISOString() };
+  const state = JSON.stringify(next);
+
+  await prisma.childMemory.upsert({
+    where: { childId },
+    create: { childId, state },
+    update: { state, version: { increment: 1 } },
+  });
+
+  return next;
+}
+
+/**
+ * The end of the child's speech that fits the budget, oldest first
+ */
+function recentSpeech(texts: string[]): string[] {
+  let remaining = SESSION_SPEECH_BUDGET_TOKENS;
+  let start = texts.length;
+  while (start > 0 && estimateTokens(texts[start - 1]) <= remaining) {
+    remaining -= estimateTokens(texts[start - 1]);
+    start--;
+  }
+  return texts.slice(start);
+}
+
+/**
+ * Fold a finished session into the child's memory: what the model picked
+ * out, the scenario goal words still unused, and the summary's thinking
+ * question. Practice words the child has now said are let go. Never
+ * throws; sessions older than the last one remembered are skipped.
+ */
+export async function rememberSession(sessionId: string): Promise<void> {
+  try {
+    const session = await prisma.session.findUniqueOrThrow({
+      where: { id: sessionId },
+      include: { child: true },
+    });
+    const alreadyRemembered = (memory: ChildMemory) =>
+      !!memory.rememberedThrough && new Date(memory.rememberedThrough) >= session.startedAt;
+
+    const { memory: current } = await readMemory(session.childId);
+    if (alreadyRemembered(current)) return;
+
+    const childUtterances = (await prisma.utterance.findMany({
+      where: { sessionId, speaker: 'child' },
+      orderBy: { timestamp: 'asc' },
+      select: { text: true },
+    })).map(utterance => utterance.text);
+
+    if (childUtterances.length === 0) return;
+
+    const prompt = renderPrompt('child-memory', {
+      childAge: session.child.age,
+      remembered: describeChildMemory(current),
+      earlier: await loadConversationMemory(sessionId),
+      childUtterances: recentSpeech(childUtterances),
+    });
+    const result = await completeStructured(prompt, childMemoryOutputSchema, {
+      temperature: 0.3,
+    });
+
+    // Without the model's picks the goal words and question still count
+    if (!result.ok) {
+      console.error('Child memory extraction failed:', result.error);
+    }
+    const picked = result.ok
+      ? result.data
+      : { favoriteTopics: [], characters: [], practiceWords: [] };
+
+    const activeGoal = assessScenarioProgress(getScenario(session.scenario), childUtterances).activeGoal;
+    const spoken = new Set(childUtterances.join(' ').toLowerCase().match(/[a-z']+/g) || []);
+    const goalWords = activeGoal?.targetWords.filter(word => !spoken.has(word)) ?? [];
+    const thinkingQuestion = session.summary
+      ? readChildSummary(session.summary)?.thinkingQuestion ?? null
+      : null;
+
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const { memory, version } = await readMemory(session.childId);
+      if (alreadyRemembered(memory)) return;
+
+      const next: ChildMemory = {
+        favoriteTopics: mergeItems(memory.favoriteTopics, picked.favoriteTopics, MEMORY_LIMITS.favoriteTopics),
+        characters: mergeItems(memory.characters, picked.characters, MEMORY_LIMITS.characters),
+        practiceWords: mergeItems(
+          memory.practiceWords.filter(word => !spoken.has(word.toLowerCase())),
+          [...picked.practiceWords, ...goalWords],
+          MEMORY_LIMITS.practiceWords
+        ),
+        lastThinkingQuestion: thinkingQuestion ?? memory.lastThinkingQuestion,
+        rememberedThrough: session.startedAt.toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+
+      if (await writeMemory(session.childId, version, next)) return;
+    }
+
+    console.error(`Child memory for session ${sessionId} kept changing; not updated`);
+  } catch (error) {
+    console.error('Child memory update error:', error);
+  }
+}
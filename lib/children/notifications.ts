@@ -0,0 +1,48 @@
+/**
+ * PARENT NOTIFICATIONS
+ *
+ * SERVER-SIDE ONLY. Things a parent needs to know about outside the normal
+ * session summary - today, safety disclosures caught by child input
+ * screening. High-priority notifications are shown first on the dashboard
+ * until the parent marks them read.
+ */
+
+import { Child, ParentNotification } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { Disclosure, DisclosureCategory } from '@/lib/ai/inputScreening';
+
+const DISCLOSURE_MESSAGES: Record<DisclosureCategory, (name: string) => string> = {
+  'self-harm': name => `${name} said something that may mean they are thinking about hurting themselves. Please check in with them now.`,
+  abuse: name => `${name} said something that may be about someone hurting them or asking them to keep a secret. Please talk with them soon.`,
+  danger: name => `${name} said something that suggests they may be lost or in danger right now. Please check on them immediately.`,
+  distress: name => `${name} seemed very upset during their session. You may want to check in with them.`,
+};
+
+/**
+ * Tell the parent about a disclosure. Never throws - a failed notification
+ * is logged, and the caller still withholds the normal AI reply.
+ */
+export async function notifyParentOfDisclosure(
+  child: Pick<Child, 'id' | 'name' | 'parentId'>,
+  sessionId: string,
+  disclosure: Disclosure,
+  excerpt: string
+): Promise<ParentNotification | null> {
+  try {
+    return await prisma.parentNotification.create({
+      data: {
+        parentId: child.parentId,
+        childId: child.id,
+        sessionId,
+        kind: 'disclosure',
+        category: disclosure.category,
+        priority: disclosure.priority,
+        message: DISCLOSURE_MESSAGES[disclosure.category](child.name),
+        excerpt,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to notify parent of disclosure:', error);
+    return null;
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * CHILD PROFILE VALIDATION
+ *
+ * Zod schemas for every child mutation. Only whitelisted fields get
+ * through - ownership (`parentId`) and ids are never client-writable.
+ */
+
+import { z } from 'zod';
+
+export const VOCABULARY_LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
+export const MIN_CHILD_AGE = 3;
+export const MAX_CHILD_AGE = 12;
+
+const name = z.string().trim().min(1, 'Name is required').max(50);
+const age = z.coerce
+  .number()
+  .int('Age must be a whole number')
+  .min(MIN_CHILD_AGE, `Age must be at least ${MIN_CHILD_AGE}`)
+  .max(MAX_CHILD_AGE, `Age must be at most ${MAX_CHILD_AGE}`);
+const vocabularyLevel = z.enum(VOCABULARY_LEVELS);
+
+export const createChildSchema = z.strictObject({
+  name,
+  age,
+  vocabularyLevel: vocabularyLevel.default('beginner'),
+  aiVoiceEnabled: z.boolean().default(false),
+});
+
+export const updateChildSchema = z
+  .strictObject({
+    name,
+    age,
+    vocabularyLevel,
+    aiVoiceEnabled: z.boolean(),
+  })
+  .partial()
+  .refine(updates => Object.keys(updates).length > 0, 'No changes provided');
+
+export const MEMORY_LIMITS = { favoriteTopics: 10, characters: 10, practiceWords: 15 } as const;
+export const MEMORY_ITEM_MAX_LENGTH = 40;
+
+// What the companion remembers about a child; parents can edit all of it
+const memoryItems = (max: number) =>
+  z.array(z.string().trim().min(1).max(MEMORY_ITEM_MAX_LENGTH)).max(max);
+
+export const childMemorySchema = z.strictObject({
+  favoriteTopics: memoryItems(MEMORY_LIMITS.favoriteTopics),
+  characters: memoryItems(MEMORY_LIMITS.characters),
+  practiceWords: memoryItems(MEMORY_LIMITS.practiceWords),
+  lastThinkingQuestion: z.string().trim().min(1).max(200).nullable(),
+});
+
+export const levelDecisionSchema = z.strictObject({
+  suggestionId: z.string().min(1),
+  decision: z.enum(['approve', 'decline']),
+});
+
+export type CreateChildInput = z.infer<typeof createChildSchema>;
+export type UpdateChildInput = z.infer<typeof updateChildSchema>;
+export type ChildMemoryInput = z.infer<typeof childMemorySchema>;
+export type LevelDecisionInput = z.infer<typeof levelDecisionSchema>;
+
+/**
+ * One readable line per problem, for the `{ error, details }` response
+ */
+export function describeValidationError(error: z.ZodError): string[] {
+  return error.issues.map(issue =>
+    issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+  );
+}
@@ -0,0 +1,367 @@
+/**
+ * VOCABULARY LEVEL
+ *
+ * SERVER-SIDE ONLY. Measures a child's productive vocabulary - the words
+ * they actually say - from their recent utterances, using the lexicon's
+ * frequency bands and the complexity the covert analysis stored on each
+ * turn. Once there is enough recent speech and it points away from the
+ * child's current level, a level change is suggested; it only takes
+ * effect once the parent approves it.
+ *
+ * Suggestions move one level at a time. Moving down needs a clearer
+ * signal than moving up, and a declined suggestion isn't made again for
+ * a couple of weeks.
+ */
+
+import { Child, VocabularyLevelSuggestion } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { FrequencyBand, VocabularyLevel, wordBand, wordsOf } from '@/lib/ai/lexicon';
+import { auditEntries } from './audit';
+import { LevelDecisionInput, VOCABULARY_LEVELS } from './validation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recent speech only: the level should follow the child as they grow
+const MEASURE_WINDOW_DAYS = 42;
+const MIN_UTTERANCES = 40;
+const MIN_SESSIONS = 3;
+const DECLINE_COOLDOWN_DAYS = 14;
+
+// Moving down only when the child misses the current level by this much
+const STEP_DOWN_MARGIN = 0.8;
+
+// How many of the child's rarest words to show as evidence
+const RARE_WORD_SAMPLE = 10;
+
+const FILLERS = new Set(['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'hmm', 'hm', 'mm', 'mhm']);
+
+export interface VocabularyMeasurement {
+  measuredAt: string;
+  sessions: number;
+  utterances: number;
+  distinctWords: number;
+  beyondEverydayShare: number; // Distinct words outside band 1
+  rareShare: number; // Distinct words outside bands 1-2
+  complexShare: number | null; // Analyzed utterances rated moderate or advanced
+  advancedShare: number | null; // Analyzed utterances rated advanced
+  rareWordSample: string[];
+  estimatedLevel: VocabularyLevel | null; // Null until there is enough speech
+}
+
+interface LevelCriteria {
+  distinctWords: number;
+  beyondEverydayShare: number;
+  rareShare: number;
+  complexShare: number;
+  advancedShare: number;
+}
+
+// What a child's own speech shows at each level (beginner needs nothing)
+const LEVEL_CRITERIA: Record<Exclude<VocabularyLevel, 'beginner'>, LevelCriteria> = {
+  intermediate: { distinctWords: 80, beyondEverydayShare: 0.25, rareShare: 0, complexShare: 0.35, advancedShare: 0 },
+  advanced: { distinctWords: 200, beyondEverydayShare: 0.4, rareShare: 0.12, complexShare: 0.6, advancedShare: 0.2 },
+};
+
+/**
+ * What is stored on utterances: the covert analysis on child turns, the
+ * lexicon check on model replies
+ */
+interface StoredMetadata {
+  complexityLevel?: string;
+  analysisFailed?: string;
+  lexicon?: { level: string; aboveLevel: string[] };
+}
+
+function parseStored(metadata: string | null): StoredMetadata | null {
+  if (!metadata) return null;
+  try {
+    return JSON.parse(metadata) as StoredMetadata;
+  } catch {
+    return null;
+  }
+}
+
+const share = (count: number, total: number) =>
+  total > 0 ? Math.round((count / total) * 100) / 100 : 0;
+
+/**
+ * Whether a measurement meets a level's criteria, scaled by `margin`
+ */
+function meetsLevel(level: VocabularyLevel, measurement: VocabularyMeasurement, margin = 1): boolean {
+  if (level === 'beginner') return true;
+
+  const criteria = LEVEL_CRITERIA[level];
+  return (
+    measurement.distinctWords >= criteria.distinctWords * margin &&
+    measurement.beyondEverydayShare >= criteria.beyondEverydayShare * margin &&
+    measurement.rareShare >= criteria.rareShare * margin &&
+    (measurement.complexShare ?? 0) >= criteria.complexShare * margin &&
+    (measurement.advancedShare ?? 0) >= criteria.advancedShare * margin
+  );
+}
+
+/**
+ * Productive vocabulary over the child's recent sessions
+ */
+export async function measureVocabulary(childId: string, now = new Date()): Promise<VocabularyMeasurement> {
+  const utterances = await prisma.utterance.findMany({
+    where: {
+      speaker: 'child',
+      timestamp: { gte: new Date(now.getTime() - MEASURE_WINDOW_DAYS * DAY_MS) },
+      session: { childId },
+    },
+    select: { sessionId: true, text: true, metadata: true },
+  });
+
+  const bands = new Map<string, FrequencyBand>();
+  const complexity = { analyzed: 0, moderate: 0, advanced: 0 };
+
+  for (const utterance of utterances) {
+    for (const word of wordsOf(utterance.text)) {
+      if (!FILLERS.has(word) && !bands.has(word)) bands.set(word, wordBand(word));
+    }
+
+    const analysis = parseStored(utterance.metadata);
+    if (analysis?.complexityLevel && !analysis.analysisFailed) {
+      complexity.analyzed++;
+      if (analysis.complexityLevel === 'moderate') complexity.moderate++;
+      if (analysis.complexityLevel === 'advanced') complexity.advanced++;
+    }
+  }
+
+  const distinct = Array.from(bands.values());
+  const sessions = new Set(utterances.map(utterance => utterance.sessionId)).size;
+  const measurement: VocabularyMeasurement = {
+    measuredAt: now.toISOString(),
+    sessions,
+    utterances: utterances.length,
+    distinctWords: distinct.length,
+    beyondEverydayShare: share(distinct.filter(band => band > 1).length, distinct.length),
+    rareShare: share(distinct.filter(band => band === 3).length, distinct.length),
+    complexShare: complexity.analyzed > 0
+      ? share(complexity.moderate + complexity.advanced, complexity.analyzed)
+      : null,
+    advancedShare: complexity.analyzed > 0 ? share(complexity.advanced, complexity.analyzed) : null,
+    rareWordSample: Array.from(bands)
+      .filter(([word, band]) => band === 3 && word.length > 3)
+      .slice(0, RARE_WORD_SAMPLE)
+      .map(([word]) => word),
+    estimatedLevel: null,
+  };
+
+  if (utterances.length >= MIN_UTTERANCES && sessions >= MIN_SESSIONS) {
+    measurement.estimatedLevel =
+      [...VOCABULARY_LEVELS].reverse().find(level => meetsLevel(level, measurement)) ?? 'beginner';
+  }
+
+  return measurement;
+}
+
+/**
+ * The level one step from `current` that the measurement supports, or
+ * null to stay put
+ */
+export function suggestedLevel(current: string, measurement: VocabularyMeasurement): VocabularyLevel | null {
+  const index = VOCABULARY_LEVELS.indexOf(current as VocabularyLevel);
+  if (index === -1 || !measurement.estimatedLevel) return null;
+
+  const up = VOCABULARY_LEVELS[index + 1];
+  if (up && meetsLevel(up, measurement)) return up;
+
+  const down = VOCABULARY_LEVELS[index - 1];
+  if (down && !meetsLevel(VOCABULARY_LEVELS[index], measurement, STEP_DOWN_MARGIN)) return down;
+
+  return null;
+}
+
+export interface LevelSuggestionView {
+  id: string;
+  fromLevel: string;
+  toLevel: string;
+  evidence: VocabularyMeasurement;
+  status: string;
+  createdAt: Date;
+  decidedAt: Date | null;
+}
+
+export function toSuggestionView(suggestion: VocabularyLevelSuggestion): LevelSuggestionView {
+  return {
+    id: suggestion.id,
+    fromLevel: suggestion.fromLevel,
+    toLevel: suggestion.toLevel,
+    evidence: JSON.parse(suggestion.evidence),
+    status: suggestion.status,
+    createdAt: suggestion.createdAt,
+    decidedAt: suggestion.decidedAt,
+  };
+}
+
+/**
+ * The suggestion waiting on the parent, if it still applies to the
+ * child's current level
+ */
+export async function getPendingSuggestion(
+  child: Pick<Child, 'id' | 'vocabularyLevel'>
+): Promise<VocabularyLevelSuggestion | null> {
+  return prisma.vocabularyLevelSuggestion.findFirst({
+    where: { childId: child.id, status: 'pending', fromLevel: child.vocabularyLevel },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Re-measure the child and keep their pending suggestion in line with it:
+ * refreshed, replaced, withdrawn, or newly made. Never throws.
+ */
+export async function reviewVocabularyLevel(childId: string): Promise<VocabularyLevelSuggestion | null> {
+  try {
+    const child = await prisma.child.findUniqueOrThrow({ where: { id: childId } });
+    const measurement = await measureVocabulary(childId);
+    const toLevel = suggestedLevel(child.vocabularyLevel, measurement);
+    const pending = await getPendingSuggestion(child);
+
+    // Anything else pending no longer matches the level or the measurement
+    await prisma.vocabularyLevelSuggestion.updateMany({
+      where: {
+        childId,
+        status: 'pending',
+        ...(pending && pending.toLevel === toLevel ? { id: { not: pending.id } } : {}),
+      },
+      data: { status: 'superseded' },
+    });
+
+    if (!toLevel) return null;
+
+    if (pending && pending.toLevel === toLevel) {
+      return await prisma.vocabularyLevelSuggestion.update({
+        where: { id: pending.id },
+        data: { evidence: JSON.stringify(measurement) },
+      });
+    }
+
+    const recentlyDeclined = await prisma.vocabularyLevelSuggestion.findFirst({
+      where: {
+        childId,
+        status: 'declined',
+        fromLevel: child.vocabularyLevel,
+        toLevel,
+        decidedAt: { gte: new Date(Date.now() - DECLINE_COOLDOWN_DAYS * DAY_MS) },
+      },
+    });
+
+    if (recentlyDeclined) return null;
+
+    return await prisma.vocabularyLevelSuggestion.create({
+      data: {
+        childId,
+        fromLevel: child.vocabularyLevel,
+        toLevel,
+        evidence: JSON.stringify(measurement),
+      },
+    });
+  } catch (error) {
+    console.error('Vocabulary level review error:', error);
+    return null;
+  }
+}
+
+/**
+ * Approve or decline a pending suggestion. Approving changes the child's
+ * level and logs it like any other level change, in one transaction.
+ */
+export async function decideLevelSuggestion(
+  child: Child,
+  suggestionId: string,
+  decision: LevelDecisionInput['decision'],
+  actorId: string
+): Promise<
+  | { ok: true; child: Child; suggestion: VocabularyLevelSuggestion }
+  | { ok: false; status: number; error: string }
+> {
+  const suggestion = await prisma.vocabularyLevelSuggestion.findFirst({
+    where: { id: suggestionId, childId: child.id },
+  });
+
+  if (!suggestion) {
+    return { ok: false, status: 404, error: 'Suggestion not found' };
+  }
+
+  if (suggestion.status !== 'pending' || suggestion.fromLevel !== child.vocabularyLevel) {
+    return { ok: false, status: 409, error: 'Suggestion no longer applies' };
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Only one decision wins if two arrive together
+    const { count } = await tx.vocabularyLevelSuggestion.updateMany({
+      where: { id: suggestion.id, status: 'pending' },
+      data: {
+        status: decision === 'approve' ? 'approved' : 'declined',
+        decidedBy: actorId,
+        decidedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      return { ok: false as const, status: 409, error: 'Suggestion no longer applies' };
+    }
+
+    let updated = child;
+    if (decision === 'approve') {
+      const changes = { vocabularyLevel: suggestion.toLevel };
+      updated = await tx.child.update({ where: { id: child.id }, data: changes });
+      await tx.childAuditLog.createMany({
+        data: auditEntries(child.id, actorId, child, changes),
+      });
+    }
+
+    return {
+      ok: true as const,
+      child: updated,
+      suggestion: await tx.vocabularyLevelSuggestion.findUniqueOrThrow({ where: { id: suggestion.id } }),
+    };
+  });
+}
+
+/**
+ * How the reply lexicon check went for the child's recent sessions:
+ * model replies checked, how many used words above their level, and the
+ * words most often flagged
+ */
+export async function replyLexiconStats(
+  childId: string,
+  now = new Date()
+): Promise<{ checked: number; aboveLevel: number; commonWords: string[] }> {
+  const replies = await prisma.utterance.findMany({
+    where: {
+      speaker: 'ai_voice',
+      promptVersion: { not: null },
+      timestamp: { gte: new Date(now.getTime() - MEASURE_WINDOW_DAYS * DAY_MS) },
+      session: { childId },
+    },
+    select: { metadata: true },
+  });
+
+  const counts = new Map<string, number>();
+  let checked = 0;
+  let aboveLevel = 0;
+
+  for (const reply of replies) {
+    const lexicon = parseStored(reply.metadata)?.lexicon;
+    if (!lexicon) continue;
+
+    checked++;
+    if (lexicon.aboveLevel.length > 0) aboveLevel++;
+    for (const word of lexicon.aboveLevel) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+
+  return {
+    checked,
+    aboveLevel,
+    commonWords: Array.from(counts)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, RARE_WORD_SAMPLE)
+      .map(([word]) => word),
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * SCENARIO CATALOGUE
+ *
+ * Authored learning scenarios. Each one gives the session a theme, a short
+ * list of learning goals with the words that show a goal was reached,
+ * opening prompts to start the conversation, and completion criteria.
+ *
+ * Sessions store the scenario id in `Session.scenario`. Unknown ids (older
+ * sessions) fall back to free exploration, which has no goals.
+ */
+
+export interface LearningGoal {
+  id: string;
+  description: string; // Fed to the reply prompt as the active goal
+  targetWords: string[]; // Words that show the child is working on the goal
+  minWordsUsed: number; // How many distinct target words count as "met"
+}
+
+export interface CompletionCriteria {
+  goalsMet: 'all' | number;
+  minChildTurns: number; // Don't wrap up before the child has had a real go
+}
+
+export interface Scenario {
+  id: string;
+  title: string;
+  emoji: string;
+  description: string;
+  ageRange: { min: number; max: number };
+  goals: LearningGoal[];
+  targetVocabulary: string[];
+  openingPrompts: string[];
+  completion: CompletionCriteria;
+}
+
+export const DEFAULT_SCENARIO_ID = 'general-exploration';
+
+const SCENARIOS: Scenario[] = [
+  {
+    id: 'general-exploration',
+    title: 'Free Exploration',
+    emoji: '🌈',
+    description: 'Open-ended chat that follows whatever the child is curious about.',
+    ageRange: { min: 3, max: 12 },
+    goals: [],
+    targetVocabulary: [],
+    openingPrompts: [
+      'What would you like to talk about today?',
+      "Hi there! What's something fun you saw today?",
+    ],
+    completion: { goalsMet: 'all', minChildTurns: 10 },
+  },
+  {
+    id: 'counting-game',
+    title: 'Counting Game',
+    emoji: '🔢',
+    description: 'Count toys, snacks and animals together, then compare which has more.',
+    ageRange: { min: 3, max: 6 },
+    goals: [
+      {
+        id: 'count-to-five',
+        description: 'Count a small group of objects out loud, one to five',
+        targetWords: ['one', 'two', 'three', 'four', 'five'],
+        minWordsUsed: 3,
+      },
+      {
+        id: 'count-past-five',
+        description: 'Keep counting past five, up to ten',
+        targetWords: ['six', 'seven', 'eight', 'nine', 'ten'],
+        minWordsUsed: 2,
+      },
+      {
+        id: 'compare-amounts',
+        description: 'Compare two groups and say which has more or fewer',
+        targetWords: ['more', 'less', 'fewer', 'same', 'most', 'bigger'],
+        minWordsUsed: 1,
+      },
+    ],
+    targetVocabulary: ['count', 'number', 'more', 'fewer', 'same', 'together'],
+    openingPrompts: [
+      "Let's count! How many fingers can you hold up?",
+      'I see some toys. Can you help me count them?',
+    ],
+    completion: { goalsMet: 'all', minChildTurns: 6 },
+  },
+  {
+    id: 'color-exploration',
+    title: 'Color Exploration',
+    emoji: '🎨',
+    description: 'Spot colors around the room, name them, and imagine mixing new ones.',
+    ageRange: { min: 3, max: 7 },
+    goals: [
+      {
+        id: 'name-colors',
+        description: 'Name the colors of things the child can see',
+        targetWords: ['red', 'blue', 'yellow', 'green', 'orange', 'purple', 'pink', 'black', 'white', 'brown'],
+        minWordsUsed: 3,
+      },
+      {
+        id: 'describe-shades',
+        description: 'Describe colors as light, dark, bright or soft',
+        targetWords: ['light', 'dark', 'bright', 'soft', 'shiny', 'pale'],
+        minWordsUsed: 1,
+      },
+      {
+        id: 'mix-colors',
+        description: 'Wonder what happens when two colors are mixed',
+        targetWords: ['mix', 'mixed', 'blend', 'makes', 'turns'],
+        minWordsUsed: 1,
+      },
+    ],
+    targetVocabulary: ['color', 'rainbow', 'mix', 'bright', 'dark', 'shade'],
+    openingPrompts: [
+      "What's your favorite color? Can you find something that color?",
+      'Look around! What colors can you see right now?',
+    ],
+    completion: { goalsMet: 'all', minChildTurns: 6 },
+  },
+  {
+    id: 'shape-hunt',
+    title: 'Shape Hunt',
+    emoji: '🔺',
+    description: 'Find shapes hiding in everyday things and talk about their sides and corners.',
+    ageRange: { min: 4, max: 8 },
+    goals: [
+      {
+        id: 'name-shapes',
+        description: 'Name shapes found in everyday objects',
+        targetWords: ['circle', 'square', 'triangle', 'rectangle', 'oval', 'star', 'heart'],
+        minWordsUsed: 2,
+      },
+      {
+        id: 'describe-shapes',
+        description: 'Describe a shape by its sides, corners or curves',
+        targetWords: ['side', 'sides', 'corner', 'corners', 'round', 'curve', 'curvy', 'straight', 'pointy'],
+        minWordsUsed: 2,
+      },
+    ],
+    targetVocabulary: ['shape', 'sides', 'corners', 'round', 'straight'],
+    openingPrompts: [
+      "Let's go on a shape hunt! Can you find something round?",
+      'I spy something with four corners. What could it be?',
+    ],
+    completion: { goalsMet: 'all', minChildTurns: 5 },
+  },
+  {
+    id: 'feelings-garden',
+    title: 'Feelings Garden',
+    emoji: '🌻',
+    description: 'Talk about feelings, what causes them, and what helps when feelings are big.',
+    ageRange: { min: 4, max: 10 },
+    goals: [
+      {
+        id: 'name-feelings',
+        description: 'Name a feeling the child has had',
+        targetWords: ['happy', 'sad', 'angry', 'mad', 'scared', 'excited', 'worried', 'calm', 'proud', 'silly'],
+        minWordsUsed: 2,
+      },
+      {
+        id: 'explain-feelings',
+        description: 'Explain what made them feel that way',
+        targetWords: ['because', 'when', 'made'],
+        minWordsUsed: 1,
+      },
+      {
+        id: 'coping-ideas',
+        description: 'Share something that helps when feelings are big',
+        targetWords: ['breathe', 'hug', 'talk', 'rest', 'help', 'helps', 'share'],
+        minWordsUsed: 1,
+      },
+    ],
+    targetVocabulary: ['feeling', 'because', 'calm', 'proud', 'worried', 'helps'],
+    openingPrompts: [
+      'How are you feeling today? Happy, sleepy, silly?',
+      "Let's plant a feelings garden! What feeling should we grow first?",
+    ],
+    completion: { goalsMet: 'all', minChildTurns: 6 },
+  },
+];
+
+/**
+ * All scenarios, optionally only those suited to a child's age
+ */
+export function listScenarios(age?: number): Scenario[] {
+  if (age === undefined) return SCENARIOS;
+  return SCENARIOS.filter(s => age >= s.ageRange.min && age <= s.ageRange.max);
+}
+
+export function findScenario(id: string): Scenario | undefined {
+  return SCENARIOS.find(s => s.id === id);
+}
+
+/**
+ * Look up a session's scenario, falling back to free exploration
+ */
+export function getScenario(id: string): Scenario {
+  return findScenario(id) ?? findScenario(DEFAULT_SCENARIO_ID)!;
+}
+
+/**
+ * Pick an opening prompt to start the session
+ */
+export function getOpeningPrompt(scenario: Scenario): string {
+  const prompts = scenario.openingPrompts;
+  return prompts[Math.floor(Math.random() * prompts.length)];
+}
@@ -0,0 +1,63 @@
+/**
+ * SCENARIO PROGRESS
+ *
+ * SERVER-SIDE ONLY. Works out which learning goals a child has reached in
+ * this session from what they actually said, which goal to scaffold next,
+ * and whether the scenario's completion criteria are met.
+ */
+
+import { LearningGoal, Scenario } from './catalog';
+
+export interface GoalProgress {
+  goalId: string;
+  wordsUsed: string[];
+  met: boolean;
+}
+
+export interface ScenarioProgress {
+  scenarioId: string;
+  goals: GoalProgress[];
+  activeGoal?: LearningGoal; // First goal not yet met
+  childTurns: number;
+  complete: boolean;
+}
+
+function wordsIn(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z']+/g) || []);
+}
+
+/**
+ * Assess progress against a scenario from the child's utterances so far
+ */
+export function assessScenarioProgress(
+  scenario: Scenario,
+  childUtterances: string[]
+): ScenarioProgress {
+  const spoken = wordsIn(childUtterances.join(' '));
+
+  const goals = scenario.goals.map(goal => {
+    const wordsUsed = goal.targetWords.filter(word => spoken.has(word));
+    return {
+      goalId: goal.id,
+      wordsUsed,
+      met: wordsUsed.length >= goal.minWordsUsed,
+    };
+  });
+
+  const metCount = goals.filter(g => g.met).length;
+  const requiredGoals =
+    scenario.completion.goalsMet === 'all'
+      ? scenario.goals.length
+      : scenario.completion.goalsMet;
+
+  return {
+    scenarioId: scenario.id,
+    goals,
+    activeGoal: scenario.goals.find((_, i) => !goals[i].met),
+    childTurns: childUtterances.length,
+    complete:
+      scenario.goals.length > 0 &&
+      metCount >= requiredGoals &&
+      childUtterances.length >= scenario.completion.minChildTurns,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * SESSION LIFECYCLE
+ *
+ * SERVER-SIDE ONLY. The session state machine:
+ *
+ *   active ⇄ paused
+ *   active | paused → completed | abandoned | timed_out
+ *
+ * completed, abandoned and timed_out are final. Only active sessions take
+ * utterances. Transitions are conditional updates on the current status,
+ * so two racing requests can't both win.
+ *
+ * Sessions left idle too long are finalized as timed_out by a sweeper (and
+ * lazily whenever a stale session is touched).
+ */
+
+import { Session } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+export const SESSION_STATUSES = ['active', 'paused', 'completed', 'abandoned', 'timed_out'] as const;
+export type SessionStatus = (typeof SESSION_STATUSES)[number];
+
+const TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  active: ['paused', 'completed', 'abandoned', 'timed_out'],
+  paused: ['active', 'completed', 'abandoned', 'timed_out'],
+  completed: [],
+  abandoned: [],
+  timed_out: [],
+};
+
+// How long a session may sit without activity before it is finalized
+const IDLE_TIMEOUT_MS: Partial<Record<SessionStatus, number>> = {
+  active: 30 * 60 * 1000,
+  paused: 2 * 60 * 60 * 1000, // Pausing for dinner shouldn't end the session
+};
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export type TransitionResult =
+  | { ok: true; session: Session }
+  | { ok: false; status: SessionStatus };
+
+const globalForLifecycle = globalThis as unknown as {
+  sessionIdleSweeper: ReturnType<typeof setInterval> | undefined
+};
+
+/**
+ * Completed, abandoned and timed-out sessions are over for good
+ */
+export function isFinal(status: SessionStatus): boolean {
+  return TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Only active sessions take new utterances (child or AI)
+ */
+export function acceptsUtterances(status: string): boolean {
+  return status === 'active';
+}
+
+/**
+ * Move a session to a new status if the state machine allows it
+ */
+export async function transitionSession(
+  sessionId: string,
+  to: SessionStatus
+): Promise<TransitionResult> {
+  const from = (Object.keys(TRANSITIONS) as SessionStatus[]).filter(status =>
+    TRANSITIONS[status].includes(to)
+  );
+
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, status: { in: from } },
+    data: {
+      status: to,
+      ...(isFinal(to) ? { completedAt: new Date() } : {}),
+    },
+  });
+
+  const session = await prisma.session.findUniqueOrThrow({ where: { id: sessionId } });
+
+  if (count === 0) {
+    return { ok: false, status: session.status as SessionStatus };
+  }
+
+  return { ok: true, session };
+}
+
+/**
+ * When the session last saw activity: the child's last utterance or the
+ * last status change (AI nudges alone don't keep a session alive)
+ */
+async function lastActivityAt(session: Pick<Session, 'id' | 'updatedAt'>): Promise<Date> {
+  const latest = await prisma.utterance.findFirst({
+    where: { sessionId: session.id, speaker: 'child' },
+    orderBy: { timestamp: 'desc' },
+    select: { timestamp: true },
+  });
+
+  return latest && latest.timestamp > session.updatedAt ? latest.timestamp : session.updatedAt;
+}
+
+/**
+ * Finalize the session as timed_out if it has sat idle too long.
+ * Returns the (possibly updated) status.
+ */
+export async function expireIfIdle(
+  session: Pick<Session, 'id' | 'status' | 'updatedAt'>
+): Promise<string> {
+  const timeout = IDLE_TIMEOUT_MS[session.status as SessionStatus];
+  if (!timeout) return session.status;
+
+  const idleMs = Date.now() - (await lastActivityAt(session)).getTime();
+  if (idleMs < timeout) return session.status;
+
+  const result = await transitionSession(session.id, 'timed_out');
+  return result.ok ? result.session.status : result.status;
+}
+
+/**
+ * Finalize every stale active/paused session
+ */
+export async function expireIdleSessions(): Promise<number> {
+  const open = await prisma.session.findMany({
+    where: { status: { in: ['active', 'paused'] } },
+    select: { id: true, status: true, updatedAt: true },
+  });
+
+  let expired = 0;
+  for (const session of open) {
+    if ((await expireIfIdle(session)) === 'timed_out') expired++;
+  }
+  return expired;
+}
+
+/**
+ * Start the background idle sweeper once per server process
+ */
+export function ensureIdleSweeper(): void {
+  if (globalForLifecycle.sessionIdleSweeper) return;
+
+  globalForLifecycle.sessionIdleSweeper = setInterval(() => {
+    expireIdleSessions().catch(error => {
+      console.error('Session idle sweep error:', error);
+    });
+  }, SWEEP_INTERVAL_MS);
+}
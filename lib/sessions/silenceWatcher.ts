@@ -0,0 +1,262 @@
+/**
+ * SILENCE WATCHER
+ *
+ * SERVER-SIDE ONLY. Watches an active session for silence and pushes
+ * anticipatory nudges to every client listening on the session's event
+ * channel, without the child having to say anything first.
+ *
+ * One watcher runs per session no matter how many tabs are connected; it
+ * starts with the first subscriber and stops when the last one leaves.
+ * Timing and restraint come from the existing reasoning rules:
+ * - detectSilenceIntervention: emotional-state silence thresholds
+ * - generateAnticipatorNudge: per-type delivery delay
+ * - shouldDeliverNudge: over-intervention limits
+ */
+
+import { prisma } from '@/lib/prisma';
+import { detectSilenceIntervention, ChildState } from '@/lib/ai/reasoningEngine';
+import {
+  NudgeType,
+  generateAnticipatorNudge,
+  shouldDeliverNudge,
+} from '@/lib/ai/scaffolding';
+import { guardContent } from '@/lib/ai/guardrails';
+import { fromGuardResult, recordGuardrailIncident } from '@/lib/ai/guardrailIncidents';
+import { loadChildState } from '@/lib/ai/learnerState';
+import { TEMPLATE_PROVENANCE } from '@/lib/ai/prompts';
+import { getTextToSpeech } from '@/lib/voice';
+import { SessionFrame } from '@/lib/sse/events';
+import { acceptsUtterances } from './lifecycle';
+
+const CHECK_INTERVAL_MS = 2000;
+const NUDGE_WINDOW_MS = 5 * 60 * 1000; // "Recent" nudges for over-intervention limits
+
+interface SessionChannel {
+  subscribers: Set<(frame: SessionFrame) => void>;
+  timer: ReturnType<typeof setInterval>;
+  busy: boolean; // A check or nudge delivery is in flight
+}
+
+const globalForWatcher = globalThis as unknown as {
+  sessionChannels: Map<string, SessionChannel> | undefined
+};
+
+const channels = globalForWatcher.sessionChannels ?? new Map<string, SessionChannel>();
+globalForWatcher.sessionChannels = channels;
+
+/**
+ * Pick the nudge style that suits how the child is feeling
+ */
+function nudgeTypeFor(emotionalState: ChildState['emotionalState']): NudgeType {
+  switch (emotionalState) {
+    case 'frustrated':
+      return 'encouragement';
+    case 'confused':
+      return 'confusion';
+    default:
+      return 'silence';
+  }
+}
+
+function broadcast(sessionId: string, frame: SessionFrame) {
+  channels.get(sessionId)?.subscribers.forEach(send => send(frame));
+}
+
+function stopWatching(sessionId: string) {
+  const channel = channels.get(sessionId);
+  if (!channel) return;
+  clearInterval(channel.timer);
+  channels.delete(sessionId);
+}
+
+async function lastSpokenAt(sessionId: string, fallback: Date): Promise<Date> {
+  const latest = await prisma.utterance.findFirst({
+    where: { sessionId },
+    orderBy: { timestamp: 'desc' },
+    select: { timestamp: true },
+  });
+  return latest?.timestamp ?? fallback;
+}
+
+/**
+ * One watcher tick: decide whether the silence warrants a nudge and, if so,
+ * deliver it after its recommended delay (unless the child speaks first)
+ */
+async function checkSilence(sessionId: string): Promise<void> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { child: true },
+  });
+
+  if (!session || !acceptsUtterances(session.status)) {
+    broadcast(sessionId, { event: 'closed', data: { status: session?.status ?? 'missing' } });
+    stopWatching(sessionId);
+    return;
+  }
+
+  // Observe-only sessions never get proactive speech
+  if (!session.child.aiVoiceEnabled) return;
+
+  const silenceStart = await lastSpokenAt(sessionId, session.startedAt);
+  const childState = await loadChildState(sessionId, session.child);
+  const { needsIntervention } = detectSilenceIntervention(silenceStart, childState);
+  if (!needsIntervention) return;
+
+  const recentNudges = await prisma.utterance.findMany({
+    where: {
+      sessionId,
+      speaker: 'ai_voice',
+      metadata: { contains: '"kind":"nudge"' },
+      timestamp: { gte: new Date(Date.now() - NUDGE_WINDOW_MS) },
+    },
+    orderBy: { timestamp: 'desc' },
+    select: { timestamp: true },
+  });
+  const timeSinceLastNudge = recentNudges.length > 0
+    ? Date.now() - recentNudges[0].timestamp.getTime()
+    : Infinity;
+
+  if (!shouldDeliverNudge(recentNudges.length, timeSinceLastNudge, childState.engagementScore)) {
+    return;
+  }
+
+  const nudgeType = nudgeTypeFor(childState.emotionalState);
+  const nudge = await generateAnticipatorNudge({
+    type: nudgeType,
+    childAge: session.child.age,
+    vocabularyLevel: childState.vocabularyLevel,
+    scenario: session.scenario,
+    recentTopics: childState.recentVocabulary.slice(-5),
+    emotionalState: childState.emotionalState,
+  });
+
+  await new Promise(resolve => setTimeout(resolve, nudge.delay));
+
+  // Child (or the AI) spoke while we waited - the moment has passed
+  if ((await lastSpokenAt(sessionId, session.startedAt)).getTime() !== silenceStart.getTime()) {
+    return;
+  }
+  if (!channels.has(sessionId)) return; // Everyone disconnected
+
+  // Always safe to speak: the nudge, a checked rewrite, or a vetted fallback
+  const guarded = await guardContent(nudge.message, {
+    childAge: session.child.age,
+    vocabularyLevel: session.child.vocabularyLevel,
+    fallbackType: nudgeType,
+  });
+  const text = guarded.sanitizedContent;
+  const provenance = guarded.fallback ? TEMPLATE_PROVENANCE : nudge.provenance;
+  
+  if (text !== nudge.message) {
+    await recordGuardrailIncident(
+      { sessionId, childId: session.child.id, childAge: session.child.age, source: 'nudge' },
+      fromGuardResult(nudge.message, guarded)
+    );
+  }
+
+  const saved = await prisma.utterance.create({
+    data: {
+      sessionId,
+      speaker: 'ai_voice',
+      text,
+      promptVersion: provenance.promptVersion,
+      model: provenance.model,
+      metadata: JSON.stringify({
+        kind: 'nudge',
+        nudgeType,
+        reasoning: nudge.reasoning,
+        timestamp: new Date().toISOString(),
+      }),
+      timestamp: new Date(),
+    },
+  });
+
+  // Speak it too, when speech output is configured
+  const tts = getTextToSpeech();
+  const speech = tts
+    ? await tts.synthesize(text).catch(error => {
+        console.error('Nudge text-to-speech error:', error);
+        return null;
+      })
+    : null;
+
+  broadcast(sessionId, {
+    event: 'nudge',
+    data: {
+      utteranceId: saved.id,
+      text,
+      nudgeType,
+      speech: speech
+        ? {
+            audio: speech.audio.toString('base64'),
+            mimeType: speech.mimeType,
+            durationMs: speech.durationMs,
+            timings: speech.words.map(({ startMs, endMs }) => ({ startMs, endMs })),
+          }
+        : undefined,
+    },
+  });
+}
+
+function startWatching(sessionId: string): SessionChannel {
+  const channel: SessionChannel = {
+    subscribers: new Set(),
+    busy: false,
+    timer: setInterval(async () => {
+      if (channel.busy) return;
+      channel.busy = true;
+      try {
+        await checkSilence(sessionId);
+      } catch (error) {
+        console.error('Silence watcher error:', error);
+      } finally {
+        channel.busy = false;
+      }
+    }, CHECK_INTERVAL_MS),
+  };
+  channels.set(sessionId, channel);
+  return channel;
+}
+
+/**
+ * Subscribe to a session's server-initiated events until the session ends
+ * or the client disconnects (signal aborts)
+ */
+export async function* subscribeSessionEvents(
+  sessionId: string,
+  signal?: AbortSignal
+): AsyncGenerator<SessionFrame> {
+  const channel = channels.get(sessionId) ?? startWatching(sessionId);
+  const queue: SessionFrame[] = [];
+  let wake: (() => void) | null = null;
+
+  const send = (frame: SessionFrame) => {
+    queue.push(frame);
+    wake?.();
+  };
+  const onAbort = () => wake?.();
+
+  channel.subscribers.add(send);
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    yield { event: 'ready', data: { sessionId } };
+
+    while (!signal?.aborted) {
+      while (queue.length > 0) {
+        const frame = queue.shift()!;
+        yield frame;
+        if (frame.event === 'closed') return;
+      }
+      await new Promise<void>(resolve => (wake = resolve));
+      wake = null;
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    channel.subscribers.delete(send);
+    // A newer channel may have taken the id since - never stop that one
+    if (channel.subscribers.size === 0 && channels.get(sessionId) === channel) {
+      stopWatching(sessionId);
+    }
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * SUMMARY JOBS
+ *
+ * SERVER-SIDE ONLY. End-of-session summaries are generated in the
+ * background, one job per session:
+ *
+ *   pending → running → done | failed
+ *   failed → pending   (any new request retries)
+ *   done → pending     (only when regeneration is asked for)
+ *
+ * Like session transitions, every step is a conditional update on the
+ * current status, so concurrent requests can't start two generations or
+ * overwrite each other's summaries. A job left running by a server that
+ * went away is picked up again once it is stale.
+ *
+ * A job that finishes also folds the session into the child's long-term
+ * memory, after the summaries are available, and re-measures the child's
+ * vocabulary level.
+ */
+
+import { SummaryJob } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  generateChildSummary,
+  generateParentSummary,
+  readChildSummary,
+} from '@/lib/ai/sessionSummary';
+import { summaryContext } from '@/lib/ai/conversationMemory';
+import { rememberSession } from '@/lib/children/memory';
+import { reviewVocabularyLevel } from '@/lib/children/vocabulary';
+
+export const SUMMARY_JOB_STATUSES = ['pending', 'running', 'done', 'failed'] as const;
+export type SummaryJobStatus = (typeof SUMMARY_JOB_STATUSES)[number];
+
+// A running job older than this is assumed lost and may be restarted
+const STALE_RUNNING_MS = 5 * 60 * 1000;
+
+export interface SummaryJobView {
+  status: SummaryJobStatus;
+  attempts: number;
+  error: string | null;
+  requestedAt: Date;
+  finishedAt: Date | null;
+}
+
+export function toSummaryJobView(job: SummaryJob): SummaryJobView {
+  return {
+    status: job.status as SummaryJobStatus,
+    attempts: job.attempts,
+    error: job.error,
+    requestedAt: job.requestedAt,
+    finishedAt: job.finishedAt,
+  };
+}
+
+export async function getSummaryJob(sessionId: string): Promise<SummaryJob | null> {
+  return prisma.summaryJob.findUnique({ where: { sessionId } });
+}
+
+/**
+ * Ask for a session's summaries and start generating them in the
+ * background. Idempotent: a pending, running or done job is left alone
+ * unless `regenerate` is set.
+ */
+export async function requestSummary(
+  sessionId: string,
+  { regenerate = false }: { regenerate?: boolean } = {}
+): Promise<SummaryJob> {
+  const existing = await getSummaryJob(sessionId);
+
+  if (!existing) {
+    try {
+      await prisma.summaryJob.create({ data: { sessionId, regenerate } });
+    } catch (error) {
+      // Another request created it first (sessionId is unique)
+      if (!(await getSummaryJob(sessionId))) throw error;
+    }
+  } else {
+    const restartable: SummaryJobStatus[] = regenerate ? ['done', 'failed'] : ['failed'];
+
+    await prisma.summaryJob.updateMany({
+      where: {
+        sessionId,
+        OR: [
+          { status: { in: restartable } },
+          { status: 'running', startedAt: { lt: new Date(Date.now() - STALE_RUNNING_MS) } },
+        ],
+      },
+      data: { status: 'pending', regenerate, error: null, requestedAt: new Date() },
+    });
+  }
+
+  void runSummaryJob(sessionId);
+
+  return prisma.summaryJob.findUniqueOrThrow({ where: { sessionId } });
+}
+
+/**
+ * Claim a pending job and generate its summaries. Never throws; only the
+ * request that moves the job to running does any work.
+ */
+export async function runSummaryJob(sessionId: string): Promise<void> {
+  try {
+    const { count } = await prisma.summaryJob.updateMany({
+      where: { sessionId, status: 'pending' },
+      data: { status: 'running', startedAt: new Date(), attempts: { increment: 1 } },
+    });
+
+    if (count === 0) return;
+
+    const job = await prisma.summaryJob.findUniqueOrThrow({
+      where: { sessionId },
+      include: { session: { select: { childId: true } } },
+    });
+    const error = await generateSummaries(sessionId, job.regenerate);
+
+    await prisma.summaryJob.update({
+      where: { sessionId },
+      data: { status: error ? 'failed' : 'done', error, finishedAt: new Date() },
+    });
+
+    if (!error) {
+      await rememberSession(sessionId);
+      await reviewVocabularyLevel(job.session.childId);
+    }
+  } catch (error) {
+    console.error('Summary job error:', error);
+    await prisma.summaryJob
+      .updateMany({
+        where: { sessionId, status: 'running' },
+        data: { status: 'failed', error: 'Unexpected error', finishedAt: new Date() },
+      })
+      .catch(() => undefined);
+  }
+}
+
+/**
+ * Generate the child summary and parent report - only the missing ones
+ * unless regenerating - and save whatever succeeded.
+ * Returns why a document couldn't be made, or null when both exist.
+ */
+async function generateSummaries(sessionId: string, regenerate: boolean): Promise<string | null> {
+  const session = await prisma.session.findUniqueOrThrow({
+    where: { id: sessionId },
+    include: { child: true },
+  });
+  const utterances = await prisma.utterance.findMany({
+    where: { sessionId },
+    orderBy: { timestamp: 'asc' },
+    select: { id: true, speaker: true, text: true, metadata: true, timestamp: true },
+  });
+
+  const hasChild = !regenerate && !!session.summary && !!readChildSummary(session.summary);
+  const hasParent = !regenerate && !!session.parentSummary;
+
+  if (hasChild && hasParent) return null;
+
+  // Long sessions: the conversation memory stands in for the early turns
+  const context = await summaryContext(sessionId, utterances, session.child.age);
+
+  const [childResult, parentResult] = await Promise.all([
+    hasChild ? null : generateChildSummary(utterances, session.child.age, context),
+    hasParent ? null : generateParentSummary(utterances, session.child.age, context),
+  ]);
+
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: {
+      ...(childResult?.ok ? {
+        summary: JSON.stringify(childResult.data),
+        summaryPromptVersion: childResult.provenance.promptVersion,
+        summaryModel: childResult.provenance.model,
+      } : {}),
+      ...(parentResult?.ok ? {
+        parentSummary: JSON.stringify(parentResult.data),
+        parentSummaryPromptVersion: parentResult.provenance.promptVersion,
+        parentSummaryModel: parentResult.provenance.model,
+      } : {}),
+    },
+  });
+
+  const errors = [
+    childResult && !childResult.ok ? `Child summary: ${childResult.error}` : null,
+    parentResult && !parentResult.ok ? `Parent report: ${parentResult.error}` : null,
+  ].filter(Boolean);
+
+  return errors.length > 0 ? errors.join('; ') : null;
+}
@@ -0,0 +1,110 @@
+/**
+ * SSE EVENT PROTOCOL
+ *
+ * Typed event definitions and the wire encoder for Server-Sent Events.
+ * Shared by the server (encoding) and the client (decoding), so it must
+ * stay free of server-only imports.
+ *
+ * Every frame is spec-compliant:
+ *   id: <streamId>:<seq>
+ *   event: <name>
+ *   retry: <ms>          (first frame only)
+ *   data: <JSON>
+ */
+
+export interface AIStreamEventMap {
+  start: { streamId: string };
+  word: { content: string; index: number };
+  // Speech for the words starting at startIndex; timings are per word, in ms
+  audio: {
+    audio: string; // base64
+    mimeType: string;
+    startIndex: number;
+    durationMs: number;
+    timings: { startMs: number; endMs: number }[];
+  };
+  end: { wordCount: number };
+  interrupted: { wordCount: number }; // Stopped early; wordCount reached the client
+  silent: { reason: string };
+  error: { message: string };
+}
+
+export type AIStreamEventName = keyof AIStreamEventMap;
+
+/**
+ * Events on the long-lived per-session channel (server-initiated)
+ */
+export interface SessionEventMap {
+  ready: { sessionId: string };
+  nudge: {
+    utteranceId: string;
+    text: string;
+    nudgeType: string;
+    speech?: Omit<AIStreamEventMap['audio'], 'startIndex'>;
+  };
+  closed: { status: string };
+}
+
+export type SessionEventName = keyof SessionEventMap;
+
+export interface SSEFrame<E extends string = string, D = unknown> {
+  id?: string;
+  event: E;
+  data: D;
+  retry?: number;
+}
+
+export type AIStreamFrame = {
+  [E in AIStreamEventName]: SSEFrame<E, AIStreamEventMap[E]>;
+}[AIStreamEventName];
+
+export type SessionFrame = {
+  [E in SessionEventName]: SSEFrame<E, SessionEventMap[E]>;
+}[SessionEventName];
+
+/**
+ * Default client reconnection delay advertised to clients
+ */
+export const SSE_RETRY_MS = 2000;
+
+/**
+ * Serialize a frame to SSE wire format
+ * Data is always JSON, so quotes, backslashes and newlines are escaped
+ */
+export function encodeEvent(frame: SSEFrame): string {
+  let out = '';
+
+  if (frame.id !== undefined) out += `id: ${frame.id}\n`;
+  out += `event: ${frame.event}\n`;
+  if (frame.retry !== undefined) out += `retry: ${frame.retry}\n`;
+  out += `data: ${JSON.stringify(frame.data)}\n\n`;
+
+  return out;
+}
+
+/**
+ * SSE comment line - ignored by clients, keeps proxies from timing out
+ */
+export function encodeComment(comment: string): string {
+  return `: ${comment.replace(/\n/g, ' ')}\n\n`;
+}
+
+/**
+ * Build an event id from a stream id and a sequence number
+ */
+export function formatEventId(streamId: string, seq: number): string {
+  return `${streamId}:${seq}`;
+}
+
+/**
+ * Split an event id back into stream id and sequence number
+ */
+export function parseEventId(eventId: string): { streamId: string; seq: number } | null {
+  const separator = eventId.lastIndexOf(':');
+  if (separator <= 0) return null;
+
+  const seq = Number(eventId.slice(separator + 1));
+  if (!Number.isInteger(seq) || seq < 0) return null;
+
+  return { streamId: eventId.slice(0, separator), seq };
+}
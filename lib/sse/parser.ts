@@ -0,0 +1,72 @@
+/**
+ * SSE STREAM PARSER
+ *
+ * Incremental, spec-compliant parser for text/event-stream bodies read
+ * through fetch(). Used where EventSource can't be (POST requests,
+ * custom headers such as Last-Event-ID).
+ */
+
+export interface ParsedSSEMessage {
+  id?: string;
+  event: string;
+  data: string;
+  retry?: number;
+}
+
+/**
+ * Create a parser that is fed raw text chunks and emits complete messages
+ */
+export function createSSEParser(onMessage: (message: ParsedSSEMessage) => void) {
+  let buffer = '';
+  let id: string | undefined;
+  let event = '';
+  let data: string[] = [];
+  let retry: number | undefined;
+
+  const dispatch = () => {
+    if (data.length > 0) {
+      onMessage({ id, event: event || 'message', data: data.join('\n'), retry });
+    }
+    event = '';
+    data = [];
+    retry = undefined;
+    // id persists across messages, per spec
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(':')) return; // Comment
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'id':
+        id = value;
+        break;
+      case 'event':
+        event = value;
+        break;
+      case 'data':
+        data.push(value);
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+    }
+  };
+
+  return {
+    feed(chunk: string) {
+      buffer += chunk;
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop() || '';
+      lines.forEach(processLine);
+    },
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * SSE SERVER HELPERS
+ *
+ * Response helpers plus an in-memory replay buffer for resumable streams.
+ *
+ * A producer writes frames into a buffered stream; any number of readers
+ * subscribe from a sequence number. A client that drops mid-utterance
+ * reconnects with Last-Event-ID and receives everything it missed, then
+ * follows the live stream until it ends.
+ *
+ * A producer can be stopped through its writer's signal: explicitly (a new
+ * utterance barges in), or when every reader has gone and none comes back
+ * within the resume grace period (the client left).
+ */
+
+import {
+  SSE_RETRY_MS,
+  SSEFrame,
+  encodeComment,
+  encodeEvent,
+  formatEventId,
+  parseEventId,
+} from './events';
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+};
+
+// How long a finished stream stays available for resumption
+const REPLAY_TTL_MS = 60_000;
+
+// How long a stream with no readers keeps producing, waiting for a resume
+// (a dropped client reconnects after one retry interval)
+const RESUME_GRACE_MS = 2 * SSE_RETRY_MS;
+
+interface BufferedStream {
+  scope?: string; // Owner (e.g. session id) checked before resuming
+  frames: SSEFrame[];
+  done: boolean;
+  waiters: Set<() => void>;
+  readers: number;
+  delivered: number; // Frames a reader has taken, from the start
+  abort: AbortController;
+  orphanTimer?: ReturnType<typeof setTimeout>;
+}
+
+export type InterruptReason = 'barge-in' | 'disconnected';
+
+const globalForSSE = globalThis as unknown as {
+  sseReplayBuffers: Map<string, BufferedStream> | undefined
+};
+
+const buffers = globalForSSE.sseReplayBuffers ?? new Map<string, BufferedStream>();
+globalForSSE.sseReplayBuffers = buffers;
+
+// Omit applied per union member, so event names stay paired with their data
+type FrameInput<F> = F extends SSEFrame ? Omit<F, 'id' | 'retry'> : never;
+
+export interface ReplayWriter<F extends SSEFrame = SSEFrame> {
+  streamId: string;
+  signal: AbortSignal; // Aborted with an InterruptReason when the stream is interrupted
+  push(frame: FrameInput<F>): number; // Sequence number of the frame, -1 once closed
+  delivered(): number; // How many frames (from seq 0) have reached a reader
+  close(): void;
+}
+
+/**
+ * Open a new buffered stream and return its writer
+ * The first frame carries the retry interval; every frame gets an id.
+ */
+export function openReplayStream<F extends SSEFrame = SSEFrame>(
+  streamId: string,
+  scope?: string
+): ReplayWriter<F> {
+  const stream: BufferedStream = {
+    scope,
+    frames: [],
+    done: false,
+    waiters: new Set(),
+    readers: 0,
+    delivered: 0,
+    abort: new AbortController(),
+  };
+  buffers.set(streamId, stream);
+
+  const wake = () => {
+    stream.waiters.forEach(resolve => resolve());
+    stream.waiters.clear();
+  };
+
+  return {
+    streamId,
+    signal: stream.abort.signal,
+    push(frame) {
+      if (stream.done) return -1;
+      const seq = stream.frames.length;
+      stream.frames.push({
+        ...frame,
+        id: formatEventId(streamId, seq),
+        ...(seq === 0 ? { retry: SSE_RETRY_MS } : {}),
+      });
+      wake();
+      return seq;
+    },
+    delivered() {
+      return stream.delivered;
+    },
+    close() {
+      if (stream.done) return;
+      stream.done = true;
+      clearTimeout(stream.orphanTimer);
+      wake();
+      setTimeout(() => buffers.delete(streamId), REPLAY_TTL_MS);
+    },
+  };
+}
+
+/**
+ * Whether a buffered stream with this id is still available
+ */
+export function hasReplayStream(streamId: string): boolean {
+  return buffers.has(streamId);
+}
+
+/**
+ * Interrupt every open stream in a scope (e.g. the session's current reply
+ * when the child speaks again). Producers see their writer's signal abort.
+ */
+export function interruptReplayStreams(scope: string, reason: InterruptReason): void {
+  buffers.forEach(stream => {
+    if (stream.scope === scope && !stream.done) {
+      stream.abort.abort(reason);
+    }
+  });
+}
+
+/**
+ * Read a buffered stream from just after the given sequence number
+ * (-1 reads from the beginning), following it live until it closes.
+ */
+export async function* subscribeReplayStream(
+  streamId: string,
+  afterSeq = -1
+): AsyncGenerator<SSEFrame> {
+  const stream = buffers.get(streamId);
+  if (!stream) return;
+
+  stream.readers++;
+  clearTimeout(stream.orphanTimer);
+
+  let next = afterSeq + 1;
+  try {
+    while (true) {
+      while (next < stream.frames.length) {
+        yield stream.frames[next++];
+        // Asked for more, so the previous frame went out
+        stream.delivered = Math.max(stream.delivered, next);
+      }
+      if (stream.done) return;
+      await new Promise<void>(resolve => stream.waiters.add(resolve));
+    }
+  } finally {
+    stream.readers--;
+
+    // Last reader gone mid-stream - stop producing unless it comes back
+    if (stream.readers === 0 && !stream.done) {
+      stream.orphanTimer = setTimeout(() => {
+        if (stream.readers === 0 && !stream.done) {
+          stream.abort.abort('disconnected');
+        }
+      }, RESUME_GRACE_MS);
+    }
+  }
+}
+
+/**
+ * Resolve a Last-Event-ID header to a resumable subscription, along with
+ * the scope the stream was opened for so the caller can authorize it
+ */
+export function resumeFromEventId(
+  lastEventId: string | null
+): { scope?: string; frames: AsyncGenerator<SSEFrame> } | null {
+  const parsed = lastEventId ? parseEventId(lastEventId) : null;
+  const stream = parsed ? buffers.get(parsed.streamId) : undefined;
+  if (!parsed || !stream) return null;
+
+  return {
+    scope: stream.scope,
+    frames: subscribeReplayStream(parsed.streamId, parsed.seq),
+  };
+}
+
+/**
+ * Build an SSE response from a frame source (or a fixed list of frames)
+ */
+export function sseResponse(
+  frames: AsyncIterable<SSEFrame> | SSEFrame[],
+  init: { status?: number; heartbeatMs?: number } = {}
+): Response {
+  const encoder = new TextEncoder();
+  const iterator = (async function* () {
+    yield* frames;
+  })();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      // Keep idle long-lived connections from being closed by proxies
+      if (init.heartbeatMs) {
+        heartbeat = setInterval(() => {
+          controller.enqueue(encoder.encode(encodeComment('keepalive')));
+        }, init.heartbeatMs);
+      }
+    },
+    async pull(controller) {
+      const result = await iterator.next();
+      if (result.done) {
+        clearInterval(heartbeat);
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(encodeEvent(result.value)));
+    },
+    async cancel() {
+      clearInterval(heartbeat);
+      await iterator.return(undefined);
+    },
+  });
+
+  return new Response(stream, {
+    status: init.status,
+    headers: SSE_HEADERS,
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * VOICE BACKEND REGISTRY
+ *
+ * Selects speech backends from configuration:
+ *
+ *   STT_PROVIDER=openai   Whisper API (OPENAI_API_KEY, STT_MODEL)
+ *   STT_PROVIDER=local    Local Whisper-compatible server (LOCAL_STT_BASE_URL, STT_MODEL)
+ *   STT_PROVIDER=stub     Fixed transcript / text uploads, no model
+ *
+ *   TTS_PROVIDER=openai   OpenAI TTS (OPENAI_API_KEY, TTS_MODEL, TTS_VOICE)
+ *   TTS_PROVIDER=local    Local OpenAI-compatible speech server (LOCAL_TTS_BASE_URL)
+ *   TTS_PROVIDER=stub     Correctly-timed silence, no model
+ *   TTS_PROVIDER=none     Text only
+ *
+ * Defaults follow LLM_PROVIDER: OpenAI when a key is present, stubs otherwise.
+ */
+
+import { createStubSpeechToText, createWhisperSpeechToText } from './speechToText';
+import { createOpenAITextToSpeech, createStubTextToSpeech } from './textToSpeech';
+import { SpeechToTextBackend, TextToSpeechBackend } from './types';
+
+export type {
+  SpeechAudio,
+  SpeechToTextBackend,
+  TextToSpeechBackend,
+  Transcription,
+  WordTiming,
+} from './types';
+
+const globalForVoice = globalThis as unknown as {
+  speechToText: SpeechToTextBackend | undefined
+  textToSpeech: TextToSpeechBackend | null | undefined
+};
+
+function defaultProvider(env: NodeJS.ProcessEnv): string {
+  return env.OPENAI_API_KEY ? 'openai' : 'stub';
+}
+
+/**
+ * Build the speech-to-text backend from environment configuration
+ */
+export function createSpeechToTextFromEnv(env: NodeJS.ProcessEnv = process.env): SpeechToTextBackend {
+  const providerName = env.STT_PROVIDER || defaultProvider(env);
+
+  switch (providerName) {
+    case 'openai':
+      return createWhisperSpeechToText({
+        apiKey: env.OPENAI_API_KEY,
+        model: env.STT_MODEL || 'whisper-1',
+      });
+    case 'local':
+      return createWhisperSpeechToText({
+        name: 'local-whisper',
+        apiKey: env.LOCAL_STT_API_KEY || 'local',
+        baseURL: env.LOCAL_STT_BASE_URL || 'http://localhost:8000/v1',
+        model: env.STT_MODEL || 'Systran/faster-whisper-small',
+      });
+    case 'stub':
+      return createStubSpeechToText(env.STT_STUB_TRANSCRIPT);
+    default:
+      throw new Error(`Unknown STT_PROVIDER: ${providerName}`);
+  }
+}
+
+/**
+ * Build the text-to-speech backend from environment configuration
+ * Returns null when speech output is turned off.
+ */
+export function createTextToSpeechFromEnv(env: NodeJS.ProcessEnv = process.env): TextToSpeechBackend | null {
+  const providerName = env.TTS_PROVIDER || defaultProvider(env);
+
+  switch (providerName) {
+    case 'openai':
+      return createOpenAITextToSpeech({
+        apiKey: env.OPENAI_API_KEY,
+        model: env.TTS_MODEL || 'tts-1',
+        voice: env.TTS_VOICE || 'nova',
+      });
+    case 'local':
+      return createOpenAITextToSpeech({
+        apiKey: env.LOCAL_TTS_API_KEY || 'local',
+        baseURL: env.LOCAL_TTS_BASE_URL || 'http://localhost:8880/v1',
+        model: env.TTS_MODEL || 'kokoro',
+        voice: env.TTS_VOICE || 'af_heart',
+      });
+    case 'stub':
+      return createStubTextToSpeech();
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown TTS_PROVIDER: ${providerName}`);
+  }
+}
+
+/**
+ * Shared speech-to-text backend
+ */
+export function getSpeechToText(): SpeechToTextBackend {
+  if (!globalForVoice.speechToText) {
+    globalForVoice.speechToText = createSpeechToTextFromEnv();
+  }
+  return globalForVoice.speechToText;
+}
+
+/**
+ * Shared text-to-speech backend (null when disabled)
+ */
+export function getTextToSpeech(): TextToSpeechBackend | null {
+  if (globalForVoice.textToSpeech === undefined) {
+    globalForVoice.textToSpeech = createTextToSpeechFromEnv();
+  }
+  return globalForVoice.textToSpeech;
+}
@@ -0,0 +1,84 @@
+/**
+ * SPEECH-TO-TEXT BACKENDS
+ *
+ * - OpenAI Whisper API
+ * - Local Whisper-compatible server (faster-whisper-server, whisper.cpp)
+ *   speaking the same /audio/transcriptions protocol
+ * - Stub that needs no model at all, for tests and demos
+ */
+
+import OpenAI, { toFile } from 'openai';
+import { estimateWordTimings } from './timing';
+import { SpeechToTextBackend, Transcription } from './types';
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'mp4',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+};
+
+/**
+ * Create a backend for any OpenAI-compatible transcription endpoint
+ */
+export function createWhisperSpeechToText(options: {
+  name?: string;
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+}): SpeechToTextBackend {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+
+  return {
+    name: options.name || 'openai-whisper',
+
+    async transcribe(audio: Buffer, mimeType: string): Promise<Transcription> {
+      const baseType = mimeType.split(';')[0];
+      const file = await toFile(audio, `speech.${EXTENSIONS[baseType] || 'webm'}`, {
+        type: baseType,
+      });
+
+      const result = await client.audio.transcriptions.create({
+        file,
+        model: options.model,
+        response_format: 'verbose_json',
+        timestamp_granularities: ['word'],
+      });
+
+      return {
+        text: result.text.trim(),
+        words: (result.words || []).map(w => ({
+          word: w.word,
+          startMs: Math.round(w.start * 1000),
+          endMs: Math.round(w.end * 1000),
+        })),
+        durationMs: result.duration ? Math.round(result.duration * 1000) : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Create a stub backend that needs no model
+ * Plain-text uploads are treated as the transcript itself (handy for tests);
+ * real audio yields a fixed transcript.
+ */
+export function createStubSpeechToText(fixedTranscript = 'I see a big red ball'): SpeechToTextBackend {
+  return {
+    name: 'stub',
+
+    async transcribe(audio: Buffer, mimeType: string): Promise<Transcription> {
+      const text = mimeType.startsWith('text/')
+        ? audio.toString('utf8').trim()
+        : fixedTranscript;
+      const words = estimateWordTimings(text);
+
+      return {
+        text,
+        words,
+        durationMs: words.length > 0 ? words[words.length - 1].endMs : 0,
+      };
+    },
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * TEXT-TO-SPEECH BACKENDS
+ *
+ * - OpenAI TTS API (or any OpenAI-compatible /audio/speech server)
+ * - Stub that renders silence of a realistic length, so playback timing
+ *   and word highlighting work without a speech model
+ */
+
+import OpenAI from 'openai';
+import { estimateSpeechDurationMs, estimateWordTimings } from './timing';
+import { SpeechAudio, TextToSpeechBackend } from './types';
+
+/**
+ * Create a backend for any OpenAI-compatible speech endpoint
+ */
+export function createOpenAITextToSpeech(options: {
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+  voice: string;
+}): TextToSpeechBackend {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+
+  return {
+    name: 'openai-tts',
+
+    async synthesize(text: string): Promise<SpeechAudio> {
+      const response = await client.audio.speech.create({
+        model: options.model,
+        voice: options.voice,
+        input: text,
+        response_format: 'mp3',
+      });
+      const audio = Buffer.from(await response.arrayBuffer());
+
+      // The API returns no alignment - estimate it from the text
+      const durationMs = estimateSpeechDurationMs(text);
+
+      return {
+        audio,
+        mimeType: 'audio/mpeg',
+        durationMs,
+        words: estimateWordTimings(text, durationMs),
+      };
+    },
+  };
+}
+
+/**
+ * Build a silent 8kHz, 8-bit mono WAV file of the given length
+ */
+function silentWav(durationMs: number): Buffer {
+  const sampleRate = 8000;
+  const samples = Math.ceil((sampleRate * durationMs) / 1000);
+  const wav = Buffer.alloc(44 + samples, 128); // 128 = silence for unsigned 8-bit PCM
+
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + samples, 4);
+  wav.write('WAVE', 8);
+  wav.write('fmt ', 12);
+  wav.writeUInt32LE(16, 16); // PCM chunk size
+  wav.writeUInt16LE(1, 20); // PCM format
+  wav.writeUInt16LE(1, 22); // Mono
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate, 28); // Byte rate
+  wav.writeUInt16LE(1, 32); // Block align
+  wav.writeUInt16LE(8, 34); // Bits per sample
+  wav.write('data', 36);
+  wav.writeUInt32LE(samples, 40);
+
+  return wav;
+}
+
+/**
+ * Create a stub backend that produces correctly-timed silence
+ */
+export function createStubTextToSpeech(): TextToSpeechBackend {
+  return {
+    name: 'stub',
+
+    async synthesize(text: string): Promise<SpeechAudio> {
+      const durationMs = estimateSpeechDurationMs(text);
+
+      return {
+        audio: silentWav(durationMs),
+        mimeType: 'audio/wav',
+        durationMs,
+        words: estimateWordTimings(text),
+      };
+    },
+  };
+}
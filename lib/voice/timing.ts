@@ -0,0 +1,47 @@
+/**
+ * SPEECH TIMING HELPERS
+ *
+ * Estimates word timings for TTS backends that return audio without
+ * alignment data, so the narrator can still highlight along with playback.
+ */
+
+import { WordTiming } from './types';
+
+const MS_PER_CHARACTER = 65; // ~2.5 words/sec at a child-friendly pace
+const MS_BETWEEN_WORDS = 90;
+const MS_AFTER_SENTENCE = 250;
+
+/**
+ * Estimate how long it takes to say some text aloud
+ */
+export function estimateSpeechDurationMs(text: string): number {
+  const timings = estimateWordTimings(text);
+  return timings.length > 0 ? timings[timings.length - 1].endMs + MS_AFTER_SENTENCE : 0;
+}
+
+/**
+ * Lay words out back to back, each taking time proportional to its length.
+ * When the real duration is known, timings are scaled to fit it.
+ */
+export function estimateWordTimings(text: string, durationMs?: number): WordTiming[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const timings: WordTiming[] = [];
+  let cursor = 0;
+
+  for (const word of words) {
+    const length = Math.max(2, word.replace(/[^a-z0-9]/gi, '').length) * MS_PER_CHARACTER;
+    timings.push({ word, startMs: cursor, endMs: cursor + length });
+    cursor += length + (/[.!?]$/.test(word) ? MS_AFTER_SENTENCE : MS_BETWEEN_WORDS);
+  }
+
+  if (durationMs && cursor > 0) {
+    const scale = durationMs / cursor;
+    return timings.map(t => ({
+      word: t.word,
+      startMs: Math.round(t.startMs * scale),
+      endMs: Math.round(t.endMs * scale),
+    }));
+  }
+
+  return timings;
+}
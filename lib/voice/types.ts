@@ -0,0 +1,35 @@
+/**
+ * VOICE BACKEND TYPES
+ *
+ * Shared contracts for speech-to-text (child's microphone → text) and
+ * text-to-speech (AI reply → audio the narrator plays).
+ */
+
+export interface WordTiming {
+  word: string;
+  startMs: number;
+  endMs: number;
+}
+
+export interface Transcription {
+  text: string;
+  words: WordTiming[]; // Empty when the backend can't provide timings
+  durationMs?: number;
+}
+
+export interface SpeechAudio {
+  audio: Buffer;
+  mimeType: string;
+  durationMs: number;
+  words: WordTiming[]; // One entry per whitespace-separated word of the input
+}
+
+export interface SpeechToTextBackend {
+  name: string;
+  transcribe(audio: Buffer, mimeType: string): Promise<Transcription>;
+}
+
+export interface TextToSpeechBackend {
+  name: string;
+  synthesize(text: string): Promise<SpeechAudio>;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { appendAudioChunk, readBodyWithin, takeAudioUpload } from './uploads';
+
+const chunk = (text: string) => Buffer.from(text);
+
+describe('audio uploads', () => {
+  it('assembles chunks in order', () => {
+    appendAudioChunk('assemble', 's1', 1, 'audio/webm', chunk('world'));
+    appendAudioChunk('assemble', 's1', 0, 'audio/webm', chunk('hello '));
+
+    expect(takeAudioUpload('assemble', 's1')?.audio.toString()).toBe('hello world');
+    expect(takeAudioUpload('assemble', 's1')).toBeNull();
+  });
+
+  it('refuses chunks for another session', () => {
+    appendAudioChunk('owned', 's1', 0, 'audio/webm', chunk('a'));
+
+    expect(appendAudioChunk('owned', 's2', 1, 'audio/webm', chunk('b')))
+      .toMatchObject({ ok: false, status: 409 });
+    expect(takeAudioUpload('owned', 's2')).toBeNull();
+  });
+
+  it("evicts a session's oldest upload once too many are open", () => {
+    ['first', 'second', 'third', 'fourth'].forEach(uploadId =>
+      appendAudioChunk(uploadId, 'busy', 0, 'audio/webm', chunk(uploadId))
+    );
+
+    expect(takeAudioUpload('first', 'busy')).toBeNull();
+    expect(takeAudioUpload('fourth', 'busy')?.audio.toString()).toBe('fourth');
+  });
+
+  it('drops an upload that grows too large', () => {
+    const tooBig = Buffer.alloc(10 * 1024 * 1024 + 1);
+
+    expect(appendAudioChunk('big', 's1', 0, 'audio/webm', tooBig))
+      .toMatchObject({ ok: false, status: 413 });
+    expect(takeAudioUpload('big', 's1')).toBeNull();
+  });
+});
+
+describe('readBodyWithin', () => {
+  const body = (...parts: string[]) => new Response(parts.join('')).body;
+
+  it('reads a body within the limit', async () => {
+    expect((await readBodyWithin(body('hello'), 5))?.toString()).toBe('hello');
+  });
+
+  it('gives up on a body over the limit', async () => {
+    expect(await readBodyWithin(body('hello world'), 5)).toBeNull();
+  });
+});
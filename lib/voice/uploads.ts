@@ -0,0 +1,184 @@
+/**
+ * CHUNKED AUDIO UPLOADS
+ *
+ * SERVER-SIDE ONLY. Collects the chunks a browser MediaRecorder uploads
+ * while the child is still speaking, so transcription can start as soon
+ * as they stop. Uploads are held in memory and expire if never finished.
+ *
+ * Memory is bounded: each session keeps only a few uploads open (a new one
+ * evicts the session's oldest), and when every upload together would pass
+ * the global cap, uploads idle for a while are evicted first. If that
+ * still isn't enough room, the chunk is refused.
+ */
+
+const UPLOAD_TTL_MS = 5 * 60 * 1000;
+const STALE_AFTER_MS = 30 * 1000; // Idle this long, an upload may be evicted for room
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // ~10 minutes of opus audio
+const MAX_TOTAL_BYTES = 100 * 1024 * 1024;
+const MAX_PENDING_PER_SESSION = 3;
+
+interface PendingUpload {
+  sessionId: string;
+  mimeType: string;
+  chunks: Map<number, Buffer>;
+  bytes: number;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+export type AppendResult =
+  | { ok: true; chunks: number; bytes: number }
+  | { ok: false; error: string; status: number };
+
+const globalForUploads = globalThis as unknown as {
+  audioUploads: Map<string, PendingUpload> | undefined
+};
+
+const uploads = globalForUploads.audioUploads ?? new Map<string, PendingUpload>();
+globalForUploads.audioUploads = uploads;
+
+function sweepExpired() {
+  const now = Date.now();
+  uploads.forEach((upload, uploadId) => {
+    if (upload.expiresAt < now) uploads.delete(uploadId);
+  });
+}
+
+function totalBytes(): number {
+  let total = 0;
+  uploads.forEach(upload => { total += upload.bytes; });
+  return total;
+}
+
+/**
+ * Uploads sorted least recently updated first
+ */
+function oldestFirst(filter: (upload: PendingUpload) => boolean): string[] {
+  return Array.from(uploads.entries())
+    .filter(([, upload]) => filter(upload))
+    .sort(([, a], [, b]) => a.updatedAt - b.updatedAt)
+    .map(([uploadId]) => uploadId);
+}
+
+/**
+ * Evict stale uploads, oldest first, until `needed` more bytes fit under
+ * the global cap. Returns whether they fit.
+ */
+function makeRoom(needed: number, keep: string): boolean {
+  let total = totalBytes();
+  if (total + needed <= MAX_TOTAL_BYTES) return true;
+
+  const staleBefore = Date.now() - STALE_AFTER_MS;
+  for (const uploadId of oldestFirst(upload => upload.updatedAt < staleBefore)) {
+    if (uploadId === keep) continue;
+    total -= uploads.get(uploadId)?.bytes ?? 0;
+    uploads.delete(uploadId);
+    if (total + needed <= MAX_TOTAL_BYTES) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Read a request body of at most `limit` bytes. Stops reading and returns
+ * null as soon as the body goes over, so an oversized POST is never held
+ * in memory whole.
+ */
+export async function readBodyWithin(
+  body: ReadableStream<Uint8Array> | null,
+  limit: number
+): Promise<Buffer | null> {
+  if (!body) return Buffer.alloc(0);
+
+  const reader = body.getReader();
+  const parts: Uint8Array[] = [];
+  let bytes = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    bytes += value.length;
+    if (bytes > limit) {
+      await reader.cancel();
+      return null;
+    }
+    parts.push(value);
+  }
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Store one chunk of an upload. Chunks may arrive out of order.
+ */
+export function appendAudioChunk(
+  uploadId: string,
+  sessionId: string,
+  index: number,
+  mimeType: string,
+  chunk: Buffer
+): AppendResult {
+  sweepExpired();
+
+  const existing = uploads.get(uploadId);
+  const upload = existing ?? {
+    sessionId,
+    mimeType,
+    chunks: new Map<number, Buffer>(),
+    bytes: 0,
+    updatedAt: 0,
+    expiresAt: 0,
+  };
+
+  if (upload.sessionId !== sessionId) {
+    return { ok: false, error: 'Upload belongs to a different session', status: 409 };
+  }
+
+  const growth = chunk.length - (upload.chunks.get(index)?.length ?? 0);
+
+  if (upload.bytes + growth > MAX_UPLOAD_BYTES) {
+    uploads.delete(uploadId);
+    return { ok: false, error: 'Upload too large', status: 413 };
+  }
+  if (!makeRoom(growth, uploadId)) {
+    return { ok: false, error: 'Too many uploads in progress, try again shortly', status: 503 };
+  }
+
+  // A new upload replaces the session's oldest once it has too many open
+  if (!existing) {
+    const open = oldestFirst(pending => pending.sessionId === sessionId);
+    open.slice(0, Math.max(0, open.length - MAX_PENDING_PER_SESSION + 1))
+      .forEach(stale => uploads.delete(stale));
+  }
+
+  const now = Date.now();
+  upload.bytes += growth;
+  upload.chunks.set(index, chunk);
+  upload.updatedAt = now;
+  upload.expiresAt = now + UPLOAD_TTL_MS;
+  uploads.set(uploadId, upload);
+
+  return { ok: true, chunks: upload.chunks.size, bytes: upload.bytes };
+}
+
+/**
+ * Finish an upload and return the assembled audio
+ */
+export function takeAudioUpload(
+  uploadId: string,
+  sessionId: string
+): { audio: Buffer; mimeType: string } | null {
+  sweepExpired();
+
+  const upload = uploads.get(uploadId);
+  if (!upload || upload.sessionId !== sessionId) return null;
+
+  uploads.delete(uploadId);
+
+  const ordered = Array.from(upload.chunks.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, chunk]) => chunk);
+
+  return { audio: Buffer.concat(ordered), mimeType: upload.mimeType };
+}
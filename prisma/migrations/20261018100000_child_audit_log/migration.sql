@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "ChildAuditLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "childId" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "oldValue" TEXT,
+    "newValue" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "ChildAuditLog_childId_createdAt_idx" ON "ChildAuditLog"("childId", "createdAt");
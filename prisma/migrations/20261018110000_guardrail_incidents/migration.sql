@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "GuardrailIncident" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "childId" TEXT NOT NULL,
+    "childAge" INTEGER NOT NULL,
+    "source" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "originalText" TEXT NOT NULL,
+    "deliveredText" TEXT,
+    "violations" TEXT NOT NULL,
+    "ruleIds" TEXT NOT NULL,
+    "explanation" TEXT NOT NULL,
+    "reviewStatus" TEXT NOT NULL DEFAULT 'pending',
+    "reviewNote" TEXT,
+    "reviewedBy" TEXT,
+    "reviewedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "GuardrailIncident_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "GuardrailIncident_childId_createdAt_idx" ON "GuardrailIncident"("childId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GuardrailIncident_reviewStatus_idx" ON "GuardrailIncident"("reviewStatus");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ParentNotification" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "parentId" TEXT NOT NULL,
+    "childId" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "kind" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "priority" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "excerpt" TEXT,
+    "readAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ParentNotification_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Parent" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ParentNotification_parentId_readAt_idx" ON "ParentNotification"("parentId", "readAt");
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "summaryModel" TEXT;
+ALTER TABLE "Session" ADD COLUMN "summaryPromptVersion" TEXT;
+
+-- AlterTable
+ALTER TABLE "Utterance" ADD COLUMN "model" TEXT;
+ALTER TABLE "Utterance" ADD COLUMN "promptVersion" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Utterance_promptVersion_idx" ON "Utterance"("promptVersion");
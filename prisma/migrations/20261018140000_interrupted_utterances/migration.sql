@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Utterance" ADD COLUMN "interrupted" BOOLEAN NOT NULL DEFAULT false;
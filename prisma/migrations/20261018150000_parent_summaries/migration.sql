@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "parentSummary" TEXT;
+ALTER TABLE "Session" ADD COLUMN "parentSummaryModel" TEXT;
+ALTER TABLE "Session" ADD COLUMN "parentSummaryPromptVersion" TEXT;
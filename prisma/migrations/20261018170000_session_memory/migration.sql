@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "SessionMemory" (
+    "sessionId" TEXT NOT NULL PRIMARY KEY,
+    "state" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "SessionMemory_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "ChildMemory" (
+    "childId" TEXT NOT NULL PRIMARY KEY,
+    "state" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ChildMemory_childId_fkey" FOREIGN KEY ("childId") REFERENCES "Child" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "VocabularyLevelSuggestion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "childId" TEXT NOT NULL,
+    "fromLevel" TEXT NOT NULL,
+    "toLevel" TEXT NOT NULL,
+    "evidence" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "decidedBy" TEXT,
+    "decidedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "VocabularyLevelSuggestion_childId_fkey" FOREIGN KEY ("childId") REFERENCES "Child" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "VocabularyLevelSuggestion_childId_status_idx" ON "VocabularyLevelSuggestion"("childId", "status");